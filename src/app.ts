@@ -6,10 +6,16 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import cookieParser from 'cookie-parser';
 import { errorHandler } from './middlewares/error.middleware';
+import { apiLimiter } from './middlewares/rateLimit.middleware';
 import routes from './routes/index';
 
 const app = express();
 
+// Number of reverse proxies in front of the API (so req.ip is the client IP)
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY) || 1);
+}
+
 // CORS must be before helmet to ensure CORS headers are set first
 app.use(
   cors({
@@ -17,7 +23,14 @@ app.use(
     credentials: true, // Allow cookies
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    exposedHeaders: ['Content-Range', 'X-Content-Range'],
+    exposedHeaders: [
+      'Content-Range',
+      'X-Content-Range',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'Retry-After',
+    ],
   })
 );
 
@@ -36,6 +49,9 @@ app.use(morgan('combined'));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Rate limiting (stricter per-route policies are applied in the routers)
+app.use('/api', apiLimiter);
+
 // Routes
 app.use('/api', routes);
 
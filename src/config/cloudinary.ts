@@ -133,5 +133,44 @@ export const uploadToCloudinaryGeneric = async (
   });
 };
 
+// Upload voice note, returns the size and duration measured by Cloudinary
+export const uploadAudioToCloudinary = async (
+  buffer: Buffer,
+  folder: string,
+  publicId: string
+): Promise<{
+  url: string;
+  publicId: string;
+  bytes: number;
+  duration: number;
+}> => {
+  return new Promise((resolve, reject) => {
+    cloudinary.uploader
+      .upload_stream(
+        {
+          folder,
+          public_id: publicId,
+          resource_type: 'video', // Cloudinary stores audio as video
+          access_mode: 'public',
+          type: 'upload',
+        },
+        (error, result) => {
+          if (error || !result) {
+            console.error('❌ Cloudinary audio upload error:', error);
+            reject(error || new Error('Audio upload failed'));
+          } else {
+            resolve({
+              url: result.secure_url,
+              publicId: result.public_id,
+              bytes: result.bytes,
+              duration: Math.round((result as any).duration || 0),
+            });
+          }
+        }
+      )
+      .end(buffer);
+  });
+};
+
 // Export cloudinary instance
 export default cloudinary;
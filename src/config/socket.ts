@@ -1,7 +1,71 @@
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
+import jwt from 'jsonwebtoken';
+import { User } from '../models/User';
+import { Conversation } from '../models/Conversation';
+import { UserStatus } from '../types/user.types';
+import { presenceService } from '../services/presence/presence.service';
+import { sessionStatusService } from '../services/auth/sessionStatus.service';
 import { logger } from '../utils/logger';
 
+export interface SocketUser {
+  id: string;
+  email: string;
+  role: string;
+  status: string;
+}
+
+// Read the access token the same way authenticateToken does (cookie first,
+// then Bearer header), plus the socket.io `auth` payload for clients that
+// cannot set headers on the websocket upgrade.
+const extractHandshakeToken = (socket: Socket): string | undefined => {
+  const { auth, headers } = socket.handshake;
+
+  const cookieHeader = headers.cookie;
+  if (cookieHeader) {
+    const accessCookie = cookieHeader
+      .split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith('accessToken='));
+    if (accessCookie) {
+      return decodeURIComponent(accessCookie.substring('accessToken='.length));
+    }
+  }
+
+  const authHeader = headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  if (auth && typeof auth.token === 'string' && auth.token) {
+    return auth.token.startsWith('Bearer ')
+      ? auth.token.substring(7)
+      : auth.token;
+  }
+
+  return undefined;
+};
+
+const getSocketUser = (socket: Socket): SocketUser => socket.data.user;
+
+const isConversationParticipant = async (
+  conversationId: string,
+  userId: string
+): Promise<boolean> => {
+  const conversation = await Conversation.findById(conversationId)
+    .select('studentId tutorId')
+    .lean();
+
+  if (!conversation) {
+    return false;
+  }
+
+  return (
+    conversation.studentId?.toString() === userId ||
+    conversation.tutorId?.toString() === userId
+  );
+};
+
 export const initializeSocket = (server: HttpServer) => {
   const io = new Server(server, {
     cors: {
@@ -12,50 +76,150 @@ export const initializeSocket = (server: HttpServer) => {
   });
 
   // Middleware for authentication
-  io.use((socket, next) => {
-    // TODO: Add authentication logic here
-    // const token = socket.handshake.auth.token;
-    // Verify JWT token and attach user info to socket
-    logger.info(`Socket connected: ${socket.id}`);
-    next();
+  io.use(async (socket, next) => {
+    try {
+      const token = extractHandshakeToken(socket);
+      if (!token) {
+        logger.warn(
+          `Socket authentication failed: No token provided - Socket: ${socket.id}, IP: ${socket.handshake.address}`
+        );
+        return next(new Error('Access denied. No token provided.'));
+      }
+
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+
+      const user = await User.findById(decoded.userId);
+      if (!user) {
+        logger.warn(
+          `Socket authentication failed: User not found - ID: ${decoded.userId}, Socket: ${socket.id}`
+        );
+        return next(new Error('Invalid token. User not found.'));
+      }
+
+      if (user.status !== UserStatus.ACTIVE) {
+        logger.warn(
+          `Socket authentication failed: User account not active - ID: ${user.id}, Status: ${user.status}`
+        );
+        return next(new Error('Account is not active.'));
+      }
+
+      if (
+        !decoded.sid ||
+        !(await sessionStatusService.isActive(user.id, decoded.sid))
+      ) {
+        logger.warn(
+          `Socket authentication failed: Session revoked - ID: ${user.id}, Socket: ${socket.id}`
+        );
+        return next(new Error('Session has been revoked.'));
+      }
+
+      socket.data.user = {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+      } as SocketUser;
+
+      logger.info(`Socket authenticated: ${socket.id} - User ID: ${user.id}`);
+      next();
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        return next(new Error('Token has expired. Please refresh your token.'));
+      }
+      if (error.name === 'JsonWebTokenError') {
+        return next(new Error('Invalid token.'));
+      }
+
+      logger.error(`Socket authentication error: ${error.message}`, {
+        error: error.stack,
+        socketId: socket.id,
+      });
+      next(new Error('Internal server error during authentication.'));
+    }
   });
 
   io.on('connection', (socket) => {
-    logger.info(`User connected: ${socket.id}`);
+    const user = getSocketUser(socket);
+    logger.info(`User connected: ${socket.id} - User ID: ${user.id}`);
+
+    // Personal rooms are derived from the verified token, never from the client
+    socket.join(`notifications-${user.id}`);
+    socket.join(`chat-${user.id}`);
+
+    void presenceService.connect(io, user.id, socket.id);
 
-    // Join user to their personal notification room
+    // Kept for older clients: the payload is ignored, the socket already
+    // joined its own rooms during connection
     socket.on('join-notifications', (data: { userId: string } | string) => {
-      const userId = typeof data === 'string' ? data : data?.userId;
-      if (userId) {
-        const roomName = `notifications-${userId}`;
-        socket.join(roomName);
-        logger.info(`User ${userId} joined notifications room: ${roomName}`);
-
-        // Verify join
-        const room = io.sockets.adapter.rooms.get(roomName);
-        if (room) {
-          logger.info(`Room ${roomName} now has ${room.size} socket(s)`);
-        }
-      } else {
-        logger.warn('join-notifications called without userId');
+      const requestedUserId = typeof data === 'string' ? data : data?.userId;
+      if (requestedUserId && requestedUserId !== user.id) {
+        logger.warn(
+          `User ${user.id} tried to join notifications room of ${requestedUserId}`
+        );
       }
+      socket.join(`notifications-${user.id}`);
     });
 
-    // Join user to their personal chat room
-    socket.on('join-chat', (userId: string) => {
-      if (userId) {
-        socket.join(`chat-${userId}`);
-        logger.info(`User ${userId} joined chat room`);
+    socket.on('join-chat', (requestedUserId: string) => {
+      if (requestedUserId && requestedUserId !== user.id) {
+        logger.warn(
+          `User ${user.id} tried to join chat room of ${requestedUserId}`
+        );
       }
+      socket.join(`chat-${user.id}`);
     });
 
-    // Join specific conversation room
-    socket.on('join-conversation', (conversationId: string) => {
-      if (conversationId) {
-        socket.join(`conversation-${conversationId}`);
-        logger.info(`Socket ${socket.id} joined conversation ${conversationId}`);
+    // Join specific conversation room (participants only)
+    socket.on(
+      'join-conversation',
+      async (
+        conversationId: string,
+        ack?: (response: { success: boolean; message?: string }) => void
+      ) => {
+        if (!conversationId) {
+          return;
+        }
+
+        try {
+          const allowed = await isConversationParticipant(
+            conversationId,
+            user.id
+          );
+
+          if (!allowed) {
+            logger.warn(
+              `User ${user.id} denied access to conversation ${conversationId}`
+            );
+            socket.emit('conversation-join-error', {
+              conversationId,
+              message: 'Bạn không có quyền truy cập cuộc trò chuyện này',
+            });
+            if (typeof ack === 'function') {
+              ack({
+                success: false,
+                message: 'Bạn không có quyền truy cập cuộc trò chuyện này',
+              });
+            }
+            return;
+          }
+
+          socket.join(`conversation-${conversationId}`);
+          logger.info(
+            `Socket ${socket.id} (user ${user.id}) joined conversation ${conversationId}`
+          );
+          if (typeof ack === 'function') {
+            ack({ success: true });
+          }
+        } catch (error: any) {
+          logger.error(
+            `Join conversation error - Conversation: ${conversationId}, Error: ${error.message}`
+          );
+          if (typeof ack === 'function') {
+            ack({ success: false, message: 'Lỗi khi tham gia cuộc trò chuyện' });
+          }
+        }
       }
-    });
+    );
 
     // Leave conversation room
     socket.on('leave-conversation', (conversationId: string) => {
@@ -65,21 +229,59 @@ export const initializeSocket = (server: HttpServer) => {
       }
     });
 
-    // Handle typing indicators
-    socket.on('typing-start', (data: { conversationId: string; userId: string }) => {
-      socket.to(`conversation-${data.conversationId}`).emit('user-typing', {
-        userId: data.userId,
+    // Handle typing indicators (only relayed for rooms the socket has joined)
+    socket.on('typing-start', (data: { conversationId: string }) => {
+      const roomName = `conversation-${data?.conversationId}`;
+      if (!socket.rooms.has(roomName)) {
+        return;
+      }
+      socket.to(roomName).emit('user-typing', {
+        userId: user.id,
         isTyping: true,
       });
     });
 
-    socket.on('typing-stop', (data: { conversationId: string; userId: string }) => {
-      socket.to(`conversation-${data.conversationId}`).emit('user-typing', {
-        userId: data.userId,
+    socket.on('typing-stop', (data: { conversationId: string }) => {
+      const roomName = `conversation-${data?.conversationId}`;
+      if (!socket.rooms.has(roomName)) {
+        return;
+      }
+      socket.to(roomName).emit('user-typing', {
+        userId: user.id,
         isTyping: false,
       });
     });
 
+    // Receiver's client got 'new-message': mark as DELIVERED for the sender's ticks
+    socket.on(
+      'message:delivered',
+      async (
+        data: { messageIds: string[] } | string,
+        ack?: (response: { success: boolean; messageIds?: string[] }) => void
+      ) => {
+        const messageIds = (
+          typeof data === 'string' ? [data] : data?.messageIds || []
+        )
+          .filter((id) => typeof id === 'string')
+          .slice(0, 100);
+        if (messageIds.length === 0) {
+          return;
+        }
+
+        // Loaded lazily: the message service itself depends on this module
+        const { MessageService } = await import(
+          '../services/message/message.service'
+        );
+        const result = await MessageService.markMessagesAsDelivered(
+          messageIds,
+          user.id
+        );
+        if (typeof ack === 'function') {
+          ack({ success: result.success, messageIds: result.data?.messageIds });
+        }
+      }
+    );
+
     // Handle notification acknowledgment
     socket.on('notification:read', (data: { notificationId: string }) => {
       logger.info(`Notification ${data.notificationId} marked as read`);
@@ -92,7 +294,10 @@ export const initializeSocket = (server: HttpServer) => {
     });
 
     socket.on('disconnect', (reason) => {
-      logger.info(`User disconnected: ${socket.id}, reason: ${reason}`);
+      logger.info(
+        `User disconnected: ${socket.id} - User ID: ${user.id}, reason: ${reason}`
+      );
+      void presenceService.disconnect(io, user.id, socket.id);
     });
   });
 
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { MessageModerationService } from '../../services/message/messageModeration.service';
+
+export class AdminModerationController {
+  /**
+   * Get flagged chat messages (moderation queue)
+   * GET /api/v1/admin/moderation/messages
+   */
+  static async getFlaggedMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, action, senderId, page = 1, limit = 20 } = req.query;
+
+      const result = await MessageModerationService.getQueue({
+        status: status as any,
+        action: action as any,
+        senderId: senderId as string | undefined,
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error in getFlaggedMessages:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get flagged messages',
+      });
+    }
+  }
+
+  /**
+   * Get flagged message with conversation context
+   * GET /api/v1/admin/moderation/messages/:flagId
+   */
+  static async getFlaggedMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const flag = await MessageModerationService.getFlagById(
+        req.params.flagId
+      );
+
+      if (!flag) {
+        res.status(404).json({
+          success: false,
+          message: 'Flagged message not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: flag,
+      });
+    } catch (error: any) {
+      console.error('Error in getFlaggedMessage:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get flagged message',
+      });
+    }
+  }
+
+  /**
+   * Confirm or dismiss a flagged message
+   * PUT /api/v1/admin/moderation/messages/:flagId/review
+   */
+  static async reviewFlaggedMessage(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { decision, note } = req.body;
+
+      const flag = await MessageModerationService.reviewFlag(
+        req.params.flagId,
+        req.user!.id,
+        decision,
+        note
+      );
+
+      res.status(200).json({
+        success: true,
+        message:
+          decision === 'CONFIRMED'
+            ? 'Đã xác nhận vi phạm'
+            : 'Đã bỏ qua tin nhắn bị gắn cờ',
+        data: flag,
+      });
+    } catch (error: any) {
+      console.error('Error in reviewFlaggedMessage:', error);
+      const status = error.message?.includes('Không tìm thấy')
+        ? 404
+        : error.message?.includes('đã được xử lý')
+          ? 409
+          : 500;
+      res.status(status).json({
+        success: false,
+        message: error.message || 'Failed to review flagged message',
+      });
+    }
+  }
+}
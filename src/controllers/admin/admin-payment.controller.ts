@@ -2,6 +2,9 @@ import { Request, Response, NextFunction } from 'express';
 import { Payment } from '../../models/Payment';
 import { PaymentSchedule } from '../../models/PaymentSchedule';
 import { Contract } from '../../models/Contract';
+import { paymentScheduleService } from '../../services/paymentSchedule/paymentSchedule.service';
+import { refundService } from '../../services/payment/refund.service';
+import { tutorEarningService } from '../../services/payment/tutorEarning.service';
 
 /**
  * Get all payments with filters and pagination (Admin)
@@ -355,3 +358,327 @@ export const exportPayments = async (
     next(error);
   }
 };
+
+/**
+ * Get daily payment reconciliation summaries (Admin)
+ */
+export const getReconciliationSummaries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page = 1, limit = 30, startDate, endDate } = req.query;
+
+    const result = await paymentScheduleService.getReconciliationSummaries({
+      page: parseInt(page as string) || 1,
+      limit: Math.min(parseInt(limit as string) || 30, 100),
+      startDate: startDate as string,
+      endDate: endDate as string,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Lấy báo cáo đối soát thành công',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get reconciliation summary of a day, with processed payments (Admin)
+ */
+export const getReconciliationSummary = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { date } = req.params;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Ngày không hợp lệ (định dạng YYYY-MM-DD)',
+      });
+    }
+
+    const summary = await paymentScheduleService.getReconciliationSummary(date);
+
+    if (!summary) {
+      return res.status(404).json({
+        success: false,
+        message: 'Không có báo cáo đối soát cho ngày này',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Lấy báo cáo đối soát thành công',
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run payment reconciliation immediately (Admin)
+ */
+export const runReconciliation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await paymentScheduleService.reconcileStuckPayments();
+
+    res.status(200).json({
+      success: true,
+      message: 'Đối soát giao dịch thành công',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get refunds (manual transfer queue and history) (Admin)
+ */
+export const getRefunds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      method,
+      studentId,
+      learningClassId,
+    } = req.query;
+
+    const result = await refundService.getRefunds({
+      page: parseInt(page as string) || 1,
+      limit: Math.min(parseInt(limit as string) || 20, 100),
+      status: status as string,
+      method: method as string,
+      studentId: studentId as string,
+      learningClassId: learningClassId as string,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Lấy danh sách hoàn tiền thành công',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mark a queued refund as transferred (Admin)
+ */
+export const completeRefund = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { refundId } = req.params;
+    const { transferReference, note } = req.body;
+
+    if (!transferReference) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vui lòng nhập mã giao dịch chuyển khoản',
+      });
+    }
+
+    const refund = await refundService.completeManualRefund(
+      refundId,
+      req.user!.id,
+      { transferReference, note }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Xác nhận hoàn tiền thành công',
+      data: refund,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('Không tìm thấy')) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Reject a queued refund (Admin)
+ */
+export const rejectRefund = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { refundId } = req.params;
+    const { note } = req.body;
+
+    if (!note) {
+      return res.status(400).json({
+        success: false,
+        message: 'Vui lòng nhập lý do từ chối',
+      });
+    }
+
+    const refund = await refundService.rejectRefund(
+      refundId,
+      req.user!.id,
+      note
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Đã từ chối yêu cầu hoàn tiền',
+      data: refund,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('Không tìm thấy')) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Get tutor payout batches (Admin)
+ */
+export const getPayoutBatches = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+
+    const result = await tutorEarningService.getPayoutBatches(
+      parseInt(page as string) || 1,
+      Math.min(parseInt(limit as string) || 20, 100)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Lấy danh sách đợt chi trả thành công',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a payout batch from all available tutor earnings (Admin)
+ */
+export const createPayoutBatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { cutoffDate, note } = req.body;
+
+    let cutoff = new Date();
+    if (cutoffDate) {
+      cutoff = new Date(cutoffDate);
+      if (isNaN(cutoff.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'Ngày chốt không hợp lệ',
+        });
+      }
+    }
+
+    // Pick up sessions completed since the last sync before closing the batch
+    await tutorEarningService.syncLedger();
+
+    const batch = await tutorEarningService.createPayoutBatch(
+      req.user!.id,
+      cutoff,
+      note
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Tạo đợt chi trả thành công',
+      data: batch,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('Không có khoản thu nhập')) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Export a payout batch as CSV for bank transfer (Admin)
+ */
+export const exportPayoutBatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { batchId } = req.params;
+
+    const { filename, csv } =
+      await tutorEarningService.exportPayoutBatchCsv(batchId);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    // BOM so Excel reads Vietnamese names correctly
+    res.status(200).send('\uFEFF' + csv);
+  } catch (error: any) {
+    if (error.message?.includes('Không tìm thấy')) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Mark a payout batch as transferred to the tutors (Admin)
+ */
+export const markPayoutBatchPaid = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { batchId } = req.params;
+
+    const batch = await tutorEarningService.markPayoutBatchPaid(
+      batchId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Xác nhận đã chi trả cho gia sư',
+      data: batch,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('Không tìm thấy')) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+    next(error);
+  }
+};
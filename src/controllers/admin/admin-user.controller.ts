@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { UserService } from '../../services/user/user.service';
 import { ViolationService } from '../../services/violation/violation.service';
+import { loginProtectionService } from '../../services/auth/loginProtection.service';
 import { User } from '../../models/User';
 import { UserRole, UserStatus } from '../../types/user.types';
 
@@ -134,6 +135,10 @@ export class AdminUserController {
       const violationSummary =
         await ViolationService.getUserViolationSummary(userId);
 
+      // Failed logins and automatic lockouts
+      const loginSecurity =
+        await loginProtectionService.getSecurityOverview(userId);
+
       res.status(200).json({
         success: true,
         data: {
@@ -142,6 +147,7 @@ export class AdminUserController {
             ...user,
           },
           violation_summary: violationSummary,
+          login_security: loginSecurity,
         },
       });
     } catch (error: any) {
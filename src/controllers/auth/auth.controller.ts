@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { authService } from '../../services/auth';
+import { LoginResponse } from '../../services/auth/auth.service';
+import { twoFactorService } from '../../services/auth/twoFactor.service';
+import { googleAuthService } from '../../services/auth/googleAuth.service';
 import { sendSuccess, sendError } from '../../utils/response';
 import {
   IUserInput,
@@ -7,22 +10,39 @@ import {
   IForgotPasswordInput,
   IResetPasswordInput,
   IRefreshTokenInput,
+  ITwoFactorLoginInput,
+  IGoogleLoginInput,
+  IGoogleLinkInput,
   OTPType,
 } from '../../types';
 import { logger } from '../../utils/logger';
+import { getDeviceInfo } from '../../utils/deviceInfo';
 
 export interface RegisterRequest extends Request {
   body: IUserInput;
 }
 
 export interface LoginRequest extends Request {
-  body: ILoginInput;
+  body: ILoginInput & { device_name?: string };
+}
+
+export interface GoogleLoginRequest extends Request {
+  body: IGoogleLoginInput & { device_name?: string };
+}
+
+export interface GoogleLinkRequest extends Request {
+  body: IGoogleLinkInput & { device_name?: string };
+}
+
+export interface TwoFactorLoginRequest extends Request {
+  body: ITwoFactorLoginInput & { device_name?: string };
 }
 
 export interface VerifyOTPRequest extends Request {
   body: {
     email: string;
     otp_code: string;
+    device_name?: string;
   };
 }
 
@@ -57,6 +77,23 @@ export interface OTPStatusRequest extends Request {
   };
 }
 
+// 423 while locked, 429 during backoff, 401 for wrong credentials
+const sendLoginResult = (res: Response, result: LoginResponse): void => {
+  if (result.success) {
+    sendSuccess(res, result.message, result.data);
+  } else if (result.locked || result.retryAfter) {
+    res.set('Retry-After', String(result.retryAfter));
+    sendError(
+      res,
+      result.message,
+      { locked: !!result.locked, retry_after: result.retryAfter },
+      result.locked ? 423 : 429
+    );
+  } else {
+    sendError(res, result.message, undefined, 401);
+  }
+};
+
 class AuthController {
   async register(req: RegisterRequest, res: Response): Promise<void> {
     try {
@@ -83,13 +120,12 @@ class AuthController {
 
       logger.info(`Login attempt for email: ${loginData.email}`);
 
-      const result = await authService.login(loginData);
+      const result = await authService.login(
+        loginData,
+        getDeviceInfo(req, req.body.device_name)
+      );
 
-      if (result.success) {
-        sendSuccess(res, result.message, result.data);
-      } else {
-        sendError(res, result.message, undefined, 401);
-      }
+      sendLoginResult(res, result);
     } catch (error) {
       logger.error('Login controller error:', error);
       sendError(
@@ -101,13 +137,39 @@ class AuthController {
     }
   }
 
+  async verifyTwoFactorLogin(
+    req: TwoFactorLoginRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await authService.verifyTwoFactorLogin(
+        req.body,
+        getDeviceInfo(req, req.body.device_name)
+      );
+
+      sendLoginResult(res, result);
+    } catch (error) {
+      logger.error('Two-factor login controller error:', error);
+      sendError(
+        res,
+        'Đăng nhập thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
   async verifyOTP(req: VerifyOTPRequest, res: Response): Promise<void> {
     try {
       const { email, otp_code } = req.body;
 
       logger.info(`OTP verification attempt for email: ${email}`);
 
-      const result = await authService.verifyOTP(email, otp_code);
+      const result = await authService.verifyOTP(
+        email,
+        otp_code,
+        getDeviceInfo(req, req.body.device_name)
+      );
 
       if (result.success) {
         sendSuccess(res, result.message, result.data);
@@ -233,7 +295,7 @@ class AuthController {
 
       logger.info('Refresh token attempt');
 
-      const result = await authService.refreshToken(data);
+      const result = await authService.refreshToken(data, getDeviceInfo(req));
 
       if (result.success) {
         sendSuccess(res, result.message, result.data);
@@ -269,6 +331,349 @@ class AuthController {
       sendError(res, 'Đăng xuất thất bại.', undefined, 500);
     }
   }
+
+  async requestAccountUnlock(
+    req: ResendOTPRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      logger.info(`Account unlock request for email: ${email}`);
+
+      const result = await authService.requestAccountUnlock(email);
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Request account unlock controller error:', error);
+      sendError(
+        res,
+        'Gửi mã mở khóa thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async verifyAccountUnlock(
+    req: VerifyOTPRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { email, otp_code } = req.body;
+
+      const result = await authService.verifyAccountUnlock(email, otp_code);
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Verify account unlock controller error:', error);
+      sendError(
+        res,
+        'Mở khóa tài khoản thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async googleLogin(req: GoogleLoginRequest, res: Response): Promise<void> {
+    try {
+      const result = await authService.loginWithGoogle(
+        req.body,
+        getDeviceInfo(req, req.body.device_name)
+      );
+
+      if (result.googleLink) {
+        sendError(
+          res,
+          result.message,
+          { link_required: true, ...result.googleLink },
+          409
+        );
+      } else if (result.roleRequired) {
+        sendError(res, result.message, { role_required: true }, 400);
+      } else {
+        sendLoginResult(res, result);
+      }
+    } catch (error) {
+      logger.error('Google login controller error:', error);
+      sendError(
+        res,
+        'Đăng nhập Google thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async linkGoogleWithPassword(
+    req: GoogleLinkRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      const result = await authService.linkGoogleWithPassword(
+        req.body,
+        getDeviceInfo(req, req.body.device_name)
+      );
+
+      sendLoginResult(res, result);
+    } catch (error) {
+      logger.error('Link Google controller error:', error);
+      sendError(
+        res,
+        'Liên kết tài khoản Google thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async getAuthProviders(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await googleAuthService.getProviders(req.user!.id);
+
+      sendSuccess(res, 'Lấy danh sách phương thức đăng nhập thành công', data);
+    } catch (error) {
+      logger.error('Get auth providers controller error:', error);
+      sendError(
+        res,
+        'Không thể lấy danh sách phương thức đăng nhập.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async linkGoogleProvider(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await googleAuthService.verifyIdToken(req.body.id_token);
+      if (!profile) {
+        sendError(
+          res,
+          'Xác thực Google thất bại. Vui lòng thử lại.',
+          undefined,
+          400
+        );
+        return;
+      }
+
+      const result = await googleAuthService.link(req.user!.id, profile);
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 409);
+      }
+    } catch (error) {
+      logger.error('Link Google provider controller error:', error);
+      sendError(
+        res,
+        'Liên kết tài khoản Google thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async unlinkGoogleProvider(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await googleAuthService.unlink(req.user!.id);
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Unlink Google provider controller error:', error);
+      sendError(
+        res,
+        'Hủy liên kết tài khoản Google thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await twoFactorService.getStatus(
+        req.user!.id,
+        req.user!.role
+      );
+
+      sendSuccess(res, result.message, result.data);
+    } catch (error) {
+      logger.error('Get two-factor status controller error:', error);
+      sendError(
+        res,
+        'Không thể lấy trạng thái xác thực hai lớp.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await twoFactorService.startEnrollment(req.user!.id);
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Setup two-factor controller error:', error);
+      sendError(
+        res,
+        'Thiết lập xác thực hai lớp thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async enableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await twoFactorService.confirmEnrollment(
+        req.user!.id,
+        req.body.code
+      );
+
+      if (!result.success) {
+        sendError(res, result.message, undefined, 400);
+        return;
+      }
+
+      // Other devices signed in with the password only
+      await authService.revokeOtherSessions(req.user!.id, req.user!.sessionId);
+
+      sendSuccess(res, result.message, result.data);
+    } catch (error) {
+      logger.error('Enable two-factor controller error:', error);
+      sendError(
+        res,
+        'Bật xác thực hai lớp thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await twoFactorService.disable(
+        req.user!.id,
+        req.body.password,
+        req.body.code
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Disable two-factor controller error:', error);
+      sendError(
+        res,
+        'Tắt xác thực hai lớp thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await twoFactorService.regenerateRecoveryCodes(
+        req.user!.id,
+        req.body.code
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Regenerate recovery codes controller error:', error);
+      sendError(
+        res,
+        'Tạo mã khôi phục thất bại. Vui lòng thử lại sau.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await authService.getSessions(
+        req.user!.id,
+        req.user!.sessionId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Get sessions controller error:', error);
+      sendError(
+        res,
+        'Không thể lấy danh sách phiên đăng nhập.',
+        undefined,
+        500
+      );
+    }
+  }
+
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await authService.revokeSession(
+        req.user!.id,
+        req.params.sessionId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 404);
+      }
+    } catch (error) {
+      logger.error('Revoke session controller error:', error);
+      sendError(res, 'Không thể đăng xuất thiết bị.', undefined, 500);
+    }
+  }
+
+  async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await authService.revokeOtherSessions(
+        req.user!.id,
+        req.user!.sessionId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error) {
+      logger.error('Revoke other sessions controller error:', error);
+      sendError(res, 'Không thể đăng xuất các thiết bị khác.', undefined, 500);
+    }
+  }
 }
 
 export const authController = new AuthController();
@@ -597,6 +597,121 @@ export class ClassController {
     }
   }
 
+  /**
+   * Request to reschedule a session (both tutor and student)
+   */
+  static async requestRescheduleSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { classId, sessionNumber } = req.params;
+      const userId = req.user!.id;
+      const { newDate, startTime, reason } = req.body;
+
+      const result = await classService.requestRescheduleSession(
+        classId,
+        parseInt(sessionNumber),
+        userId,
+        { newDate, startTime, reason }
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Request reschedule session controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể gửi yêu cầu đổi lịch',
+      });
+    }
+  }
+
+  /**
+   * Respond to reschedule request (accept/reject)
+   */
+  static async respondToRescheduleRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { classId, sessionNumber } = req.params;
+      const userId = req.user!.id;
+      const { action, note } = req.body;
+
+      const result = await classService.respondToRescheduleRequest(
+        classId,
+        parseInt(sessionNumber),
+        userId,
+        action,
+        note
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Respond to reschedule request controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể phản hồi yêu cầu đổi lịch',
+      });
+    }
+  }
+
+  /**
+   * Withdraw own pending reschedule request
+   */
+  static async withdrawRescheduleRequest(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { classId, sessionNumber } = req.params;
+      const userId = req.user!.id;
+
+      const result = await classService.withdrawRescheduleRequest(
+        classId,
+        parseInt(sessionNumber),
+        userId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Withdraw reschedule request controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể rút lại yêu cầu đổi lịch',
+      });
+    }
+  }
+
+  /**
+   * Override the slot proposed for a make-up session (tutor only)
+   */
+  static async updateMakeUpSession(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const { classId, sessionNumber } = req.params;
+      const tutorId = req.user!.id;
+      const { newDate, startTime } = req.body;
+
+      const result = await classService.updateMakeUpSessionSlot(
+        classId,
+        parseInt(sessionNumber),
+        tutorId,
+        { newDate, startTime }
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Update make-up session controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể cập nhật buổi học bù',
+      });
+    }
+  }
+
   /**
    * Class materials & assignments
    */
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { LearningClass } from '../../models/LearningClass';
+import { findScheduleConflicts } from '../../services/class/scheduleConflict.service';
 import { logger } from '../../utils/logger';
 
 /**
@@ -39,152 +39,15 @@ export const checkScheduleConflict = async (req: Request, res: Response) => {
       });
     }
 
-    const conflicts: {
-      tutorConflicts: any[];
-      studentConflicts: any[];
-      hasConflict: boolean;
-    } = {
-      tutorConflicts: [],
-      studentConflicts: [],
-      hasConflict: false,
-    };
-
-    // Build query for active classes
-    const baseQuery: any = {
-      status: { $in: ['ACTIVE', 'PAUSED'] },
-      $or: [
-        { actualEndDate: { $exists: false } },
-        { actualEndDate: { $gt: new Date(startDate) } },
-      ],
-    };
-
-    if (excludeClassId) {
-      baseQuery._id = { $ne: excludeClassId };
-    }
-
-    // Check tutor's schedule
-    const tutorClasses = await LearningClass.find({
-      ...baseQuery,
+    const conflicts = await findScheduleConflicts({
       tutorId,
-    })
-      .select(
-        'title schedule startDate expectedEndDate actualEndDate studentId'
-      )
-      .populate('studentId', 'full_name')
-      .lean();
-
-    // Check student's schedule
-    const studentClasses = await LearningClass.find({
-      ...baseQuery,
       studentId,
-    })
-      .select('title schedule startDate expectedEndDate actualEndDate tutorId')
-      .populate('tutorId', 'full_name')
-      .lean();
-
-    // Helper function to check time overlap
-    const checkTimeOverlap = (
-      start1: string,
-      end1: string,
-      start2: string,
-      end2: string
-    ): boolean => {
-      const [h1, m1] = start1.split(':').map(Number);
-      const [h2, m2] = end1.split(':').map(Number);
-      const [h3, m3] = start2.split(':').map(Number);
-      const [h4, m4] = end2.split(':').map(Number);
-
-      const start1Mins = h1 * 60 + m1;
-      const end1Mins = h2 * 60 + m2;
-      const start2Mins = h3 * 60 + m3;
-      const end2Mins = h4 * 60 + m4;
-
-      return start1Mins < end2Mins && end1Mins > start2Mins;
-    };
-
-    // Check tutor conflicts
-    for (const learningClass of tutorClasses) {
-      const existingSchedule = learningClass.schedule;
-
-      // Check if there's any common day
-      const commonDays = dayOfWeek.filter((day: number) =>
-        existingSchedule.dayOfWeek.includes(day)
-      );
-
-      if (commonDays.length > 0) {
-        // Check time overlap
-        const isTimeOverlap = checkTimeOverlap(
-          startTime,
-          endTime,
-          existingSchedule.startTime,
-          existingSchedule.endTime
-        );
-
-        if (isTimeOverlap) {
-          const dayNames = [
-            'Chủ nhật',
-            'Thứ hai',
-            'Thứ ba',
-            'Thứ tư',
-            'Thứ năm',
-            'Thứ sáu',
-            'Thứ bảy',
-          ];
-
-          conflicts.tutorConflicts.push({
-            classId: learningClass._id,
-            className: learningClass.title,
-            conflictingDays: commonDays.map((d) => dayNames[d]),
-            existingTime: `${existingSchedule.startTime} - ${existingSchedule.endTime}`,
-            studentName: (learningClass.studentId as any)?.full_name || 'N/A',
-          });
-        }
-      }
-    }
-
-    // Check student conflicts
-    for (const learningClass of studentClasses) {
-      const existingSchedule = learningClass.schedule;
-
-      // Check if there's any common day
-      const commonDays = dayOfWeek.filter((day: number) =>
-        existingSchedule.dayOfWeek.includes(day)
-      );
-
-      if (commonDays.length > 0) {
-        // Check time overlap
-        const isTimeOverlap = checkTimeOverlap(
-          startTime,
-          endTime,
-          existingSchedule.startTime,
-          existingSchedule.endTime
-        );
-
-        if (isTimeOverlap) {
-          const dayNames = [
-            'Chủ nhật',
-            'Thứ hai',
-            'Thứ ba',
-            'Thứ tư',
-            'Thứ năm',
-            'Thứ sáu',
-            'Thứ bảy',
-          ];
-
-          conflicts.studentConflicts.push({
-            classId: learningClass._id,
-            className: learningClass.title,
-            conflictingDays: commonDays.map((d) => dayNames[d]),
-            existingTime: `${existingSchedule.startTime} - ${existingSchedule.endTime}`,
-            tutorName: (learningClass.tutorId as any)?.full_name || 'N/A',
-          });
-        }
-      }
-    }
-
-    conflicts.hasConflict =
-      conflicts.tutorConflicts.length > 0 ||
-      conflicts.studentConflicts.length > 0;
+      dayOfWeek,
+      startTime,
+      endTime,
+      startDate,
+      excludeClassId,
+    });
 
     return res.status(200).json({
       success: true,
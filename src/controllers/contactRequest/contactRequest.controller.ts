@@ -193,6 +193,98 @@ export class ContactRequestController {
     }
   }
 
+  /**
+   * Get negotiation thread of a request
+   */
+  static async getOffers(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.id;
+      const result = await contactRequestService.getOffers(
+        userId,
+        req.params.requestId
+      );
+      res.json(result);
+    } catch (error: any) {
+      res.status(404).json({
+        success: false,
+        message: error.message || 'Không thể lấy lịch sử đề nghị'
+      });
+    }
+  }
+
+  /**
+   * Tutor or student submits an offer / counter-offer
+   */
+  static async submitOffer(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dữ liệu không hợp lệ',
+          errors: errors.array()
+        });
+      }
+
+      const userId = req.user!.id;
+      const result = await contactRequestService.submitOffer(
+        userId,
+        req.params.requestId,
+        req.body
+      );
+      res.status(201).json(result);
+    } catch (error: any) {
+      logger.error('Submit offer controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể gửi đề nghị'
+      });
+    }
+  }
+
+  /**
+   * Accept or decline the latest offer of the other party
+   */
+  static async respondToOffer(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Dữ liệu không hợp lệ',
+          errors: errors.array()
+        });
+      }
+
+      const userId = req.user!.id;
+      const result = await contactRequestService.respondToOffer(
+        userId,
+        req.params.requestId,
+        Number(req.params.offerNumber),
+        req.body
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Respond to offer controller error:', error);
+      res.status(400).json({
+        success: false,
+        message: error.message || 'Không thể phản hồi đề nghị'
+      });
+    }
+  }
+
   /**
    * Create learning class from accepted request
    */
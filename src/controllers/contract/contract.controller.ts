@@ -2,7 +2,10 @@ import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { ContractService } from '../../services/contract/contract.service';
 import { PaymentService } from '../../services/contract/payment.service';
+import { contractAmendmentService } from '../../services/contract/contractAmendment.service';
+import { contractDocumentService } from '../../services/contract/contractDocument.service';
 import type {
+  AmendContractInput,
   CreateContractInput,
   StudentContractResponse,
   ContractFilters,
@@ -727,4 +730,166 @@ export class ContractController {
       return errorResponse(res, error.message, error.statusCode || 500);
     }
   };
+
+  /**
+   * GET /contracts/:id/document.pdf
+   * Download the signed contract as PDF (terms, signatures, integrity hash)
+   */
+  downloadContractPdf = async (req: Request, res: Response) => {
+    try {
+      const { id: contractId } = req.params;
+      const userId = req.user!.id;
+
+      const { fileName, buffer } =
+        await contractDocumentService.renderContractPdf(contractId, userId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}"`
+      );
+      return res.send(buffer);
+    } catch (error: any) {
+      logger.error('Error rendering contract PDF:', error);
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return errorResponse(res, error.message, statusCode);
+    }
+  };
+
+  /**
+   * GET /contracts/:id/integrity
+   * Re-check the contract content against its signed SHA-256 hash
+   */
+  verifyContractIntegrity = async (req: Request, res: Response) => {
+    try {
+      const { id: contractId } = req.params;
+      const userId = req.user!.id;
+
+      const contract = await this.contractService.getContractById(
+        contractId,
+        userId
+      );
+
+      const integrityValid =
+        await this.contractService.validateContractIntegrity(contractId);
+
+      return successResponse(res, 'Contract integrity checked', {
+        contractId: contract._id,
+        contractCode: contract.title,
+        contractHash: contract.contractHash,
+        isSigned: contract.isSigned,
+        lockedAt: contract.lockedAt,
+        integrityValid,
+      });
+    } catch (error: any) {
+      logger.error('Error verifying contract integrity:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
+
+  /**
+   * GET /contracts/verify?code=HĐ-xxxxx | ?hash=<sha256>
+   * Public check whether a contract is genuine, signed and unmodified
+   */
+  verifyContractPublic = async (req: Request, res: Response) => {
+    try {
+      const { code, hash } = req.query as { code?: string; hash?: string };
+
+      const result = await this.contractService.verifyContractPublic({
+        code,
+        hash,
+      });
+
+      if (!result.exists) {
+        return errorResponse(res, 'Không tìm thấy hợp đồng', 404, result);
+      }
+
+      return successResponse(
+        res,
+        result.verified
+          ? 'Hợp đồng hợp lệ, đã được ký và chưa bị sửa đổi'
+          : 'Hợp đồng không hợp lệ hoặc chưa được ký đầy đủ',
+        result
+      );
+    } catch (error: any) {
+      logger.error('Error verifying contract:', error);
+      return errorResponse(res, 'Không thể xác thực hợp đồng', 500);
+    }
+  };
+
+  // ==================== CONTRACT AMENDMENTS ====================
+
+  /**
+   * POST /contracts/:contractId/amendments
+   * Propose an amendment of a signed contract (new version to be re-signed)
+   */
+  proposeAmendment = async (req: Request, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const userId = req.user!.id;
+      const amendmentData: AmendContractInput = req.body;
+
+      const amendment = await contractAmendmentService.proposeAmendment(
+        contractId,
+        userId,
+        amendmentData
+      );
+
+      return successResponse(
+        res,
+        'Đề xuất sửa đổi hợp đồng đã được gửi, chờ hai bên ký phụ lục',
+        amendment,
+        201
+      );
+    } catch (error: any) {
+      logger.error('Error proposing contract amendment:', error);
+      return errorResponse(res, error.message, error.statusCode || 400);
+    }
+  };
+
+  /**
+   * GET /contracts/:contractId/amendments
+   * Get all versions of the contract
+   */
+  getAmendmentHistory = async (req: Request, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const userId = req.user!.id;
+
+      const history = await contractAmendmentService.getAmendmentHistory(
+        contractId,
+        userId
+      );
+
+      return successResponse(
+        res,
+        'Contract versions retrieved successfully',
+        history
+      );
+    } catch (error: any) {
+      logger.error('Error getting contract amendment history:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
+
+  /**
+   * GET /contracts/:contractId/diff
+   * Get the changes of an amendment compared to the version it amends
+   */
+  getContractDiff = async (req: Request, res: Response) => {
+    try {
+      const { contractId } = req.params;
+      const userId = req.user!.id;
+
+      const diff = await contractAmendmentService.getContractDiff(
+        contractId,
+        userId
+      );
+
+      return successResponse(res, 'Contract diff retrieved successfully', diff);
+    } catch (error: any) {
+      logger.error('Error getting contract diff:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
 }
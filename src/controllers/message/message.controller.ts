@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { MessageService } from '../../services/message/message.service';
+import { MessageType } from '../../models/Message';
 import { uploadToCloudinaryGeneric } from '../../config/cloudinary';
 import { sendSuccess, sendError } from '../../utils/response';
 
@@ -42,7 +43,14 @@ export class MessageController {
       }
 
       const { conversationId } = req.params;
-      const { content, messageType, fileMetadata, replyTo } = req.body;
+      const {
+        content,
+        messageType,
+        fileMetadata,
+        voiceNoteId,
+        replyTo,
+        transcribe,
+      } = req.body;
       const senderId = req.user?.id;
 
       if (!senderId) {
@@ -58,12 +66,14 @@ export class MessageController {
         content,
         messageType: normalizedType,
         fileMetadata,
+        voiceNoteId,
         replyTo,
+        transcribe,
       };
 
       const result = await MessageService.sendMessage({
         ...messageData,
-        messageType: normalizedType as 'TEXT' | 'IMAGE' | 'FILE' | undefined,
+        messageType: normalizedType as MessageType | undefined,
       });
 
       if (result.success) {
@@ -88,9 +98,12 @@ export class MessageController {
         return sendError(res, 'Không xác định được người dùng', undefined, 401);
       }
 
+      const { before, after } = req.query;
       const options = {
         page: page ? parseInt(page as string, 10) : 1,
         limit: limit ? parseInt(limit as string, 10) : 50,
+        before: before as string | undefined,
+        after: after as string | undefined,
       };
 
       const result = await MessageService.getMessages(
@@ -115,6 +128,126 @@ export class MessageController {
     }
   }
 
+  // Search messages across user's conversations
+  static async searchMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const { q, conversationId, limit, before } = req.query;
+      const result = await MessageService.searchMessages(userId, {
+        query: q as string,
+        conversationId: conversationId as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : 20,
+        before: before as string | undefined,
+      });
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(res, result.message, undefined, 400);
+      }
+    } catch (error: any) {
+      console.error('❌ Search messages controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi tìm kiếm tin nhắn',
+        undefined,
+        500
+      );
+    }
+  }
+
+  // Edit message
+  static async editMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const { conversationId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const result = await MessageService.editMessage(
+        conversationId,
+        messageId,
+        userId,
+        req.body.content
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(
+          res,
+          result.message,
+          undefined,
+          result.message.includes('Không tìm thấy') ? 404 : 400
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ Edit message controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi chỉnh sửa tin nhắn',
+        undefined,
+        500
+      );
+    }
+  }
+
+  // Delete message for everyone
+  static async deleteMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const { conversationId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const result = await MessageService.deleteMessage(
+        conversationId,
+        messageId,
+        userId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message);
+      } else {
+        sendError(
+          res,
+          result.message,
+          undefined,
+          result.message.includes('Không tìm thấy') ? 404 : 400
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ Delete message controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi thu hồi tin nhắn',
+        undefined,
+        500
+      );
+    }
+  }
+
   // Get user's conversations
   static async getUserConversations(
     req: Request,
@@ -181,6 +314,130 @@ export class MessageController {
     }
   }
 
+  // Mark message (and earlier ones) as read
+  static async markMessageAsRead(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const { conversationId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const result = await MessageService.markMessageAsRead(
+        conversationId,
+        messageId,
+        userId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(
+          res,
+          result.message,
+          undefined,
+          result.message.includes('Không tìm thấy') ? 404 : 400
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ Mark message as read controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi đánh dấu tin nhắn đã đọc',
+        undefined,
+        500
+      );
+    }
+  }
+
+  // Add or replace reaction on a message
+  static async reactToMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const { conversationId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const result = await MessageService.reactToMessage(
+        conversationId,
+        messageId,
+        userId,
+        req.body.emoji
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(
+          res,
+          result.message,
+          undefined,
+          result.message.includes('Không tìm thấy') ? 404 : 400
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ React to message controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi thả cảm xúc',
+        undefined,
+        500
+      );
+    }
+  }
+
+  // Remove own reaction from a message
+  static async removeReaction(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return sendError(res, 'Dữ liệu không hợp lệ', errors.array(), 400);
+      }
+
+      const { conversationId, messageId } = req.params;
+      const userId = req.user?.id;
+      if (!userId) {
+        return sendError(res, 'Không xác định được người dùng', undefined, 401);
+      }
+
+      const result = await MessageService.removeReaction(
+        conversationId,
+        messageId,
+        userId
+      );
+
+      if (result.success) {
+        sendSuccess(res, result.message, result.data);
+      } else {
+        sendError(
+          res,
+          result.message,
+          undefined,
+          result.message.includes('Không tìm thấy') ? 404 : 400
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ Remove reaction controller error:', error);
+      sendError(
+        res,
+        error.message || 'Lỗi khi gỡ cảm xúc',
+        undefined,
+        500
+      );
+    }
+  }
+
   // Close conversation
   static async closeConversation(req: Request, res: Response): Promise<void> {
     try {
@@ -367,6 +624,21 @@ export class MessageController {
 
       const safeName = `${Date.now()}-${sanitizedName}`;
 
+      // Voice note: stored and measured server-side, sent by its voiceNoteId
+      if (file.mimetype.startsWith('audio/')) {
+        const result = await MessageService.uploadVoiceNote(
+          conversationId,
+          userId,
+          file,
+          sanitizedName
+        );
+        if (!result.success) {
+          const status = result.message.includes('Không tìm thấy') ? 404 : 400;
+          return sendError(res, result.message, undefined, status);
+        }
+        return sendSuccess(res, result.message, result.data);
+      }
+
       const url = await uploadToCloudinaryGeneric(
         file.buffer,
         folder,
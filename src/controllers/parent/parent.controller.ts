@@ -0,0 +1,232 @@
+import { Request, Response } from 'express';
+import { parentService } from '../../services/parent/parent.service';
+import { logger } from '../../utils/logger';
+
+const sendParentError = (
+  res: Response,
+  error: any,
+  fallbackMessage: string
+) => {
+  const status = error.message?.includes('Không tìm thấy') ? 404 : 400;
+  res.status(status).json({
+    success: false,
+    message: error.message || fallbackMessage,
+  });
+};
+
+export class ParentController {
+  /**
+   * Parent invites a student to link accounts
+   * POST /api/v1/parents/children/invitations
+   */
+  static async inviteStudent(req: Request, res: Response) {
+    try {
+      const { studentEmail, relationship, message } = req.body;
+      const result = await parentService.inviteStudent(req.user!.id, {
+        studentEmail,
+        relationship,
+        message,
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      logger.error('Invite student controller error:', error);
+      sendParentError(res, error, 'Không thể gửi lời mời liên kết');
+    }
+  }
+
+  /**
+   * Linked children and pending invitations of the parent
+   * GET /api/v1/parents/children
+   */
+  static async getChildren(req: Request, res: Response) {
+    try {
+      const result = await parentService.getParentLinks(req.user!.id);
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get children controller error:', error);
+      sendParentError(res, error, 'Không thể lấy danh sách học viên');
+    }
+  }
+
+  /**
+   * Parents and invitations of the student
+   * GET /api/v1/parents/invitations
+   */
+  static async getStudentInvitations(req: Request, res: Response) {
+    try {
+      const result = await parentService.getStudentLinks(req.user!.id);
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get parent invitations controller error:', error);
+      sendParentError(res, error, 'Không thể lấy danh sách phụ huynh');
+    }
+  }
+
+  /**
+   * Student accepts or declines an invitation
+   * PATCH /api/v1/parents/invitations/:linkId
+   */
+  static async respondToInvitation(req: Request, res: Response) {
+    try {
+      const result = await parentService.respondToInvitation(
+        req.user!.id,
+        req.params.linkId,
+        req.body.accept
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Respond to invitation controller error:', error);
+      sendParentError(res, error, 'Không thể phản hồi lời mời liên kết');
+    }
+  }
+
+  /**
+   * Remove a link, by the parent or the student
+   * DELETE /api/v1/parents/links/:linkId
+   */
+  static async revokeLink(req: Request, res: Response) {
+    try {
+      const result = await parentService.revokeLink(
+        req.user!.id,
+        req.params.linkId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Revoke parent link controller error:', error);
+      sendParentError(res, error, 'Không thể hủy liên kết');
+    }
+  }
+
+  /**
+   * Classes of a linked child
+   * GET /api/v1/parents/children/:studentId/classes
+   */
+  static async getChildClasses(req: Request, res: Response) {
+    try {
+      const result = await parentService.getChildClasses(
+        req.user!.id,
+        req.params.studentId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get child classes controller error:', error);
+      sendParentError(res, error, 'Không thể lấy danh sách lớp học');
+    }
+  }
+
+  /**
+   * Sessions and attendance of a child's class
+   * GET /api/v1/parents/children/:studentId/classes/:classId/schedule
+   */
+  static async getChildClassSchedule(req: Request, res: Response) {
+    try {
+      const result = await parentService.getChildClassSchedule(
+        req.user!.id,
+        req.params.studentId,
+        req.params.classId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get child class schedule controller error:', error);
+      sendParentError(res, error, 'Không thể lấy lịch học');
+    }
+  }
+
+  /**
+   * Homework and grades of a linked child
+   * GET /api/v1/parents/children/:studentId/assignments
+   */
+  static async getChildAssignments(req: Request, res: Response) {
+    try {
+      const result = await parentService.getChildAssignments(
+        req.user!.id,
+        req.params.studentId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get child assignments controller error:', error);
+      sendParentError(res, error, 'Không thể lấy danh sách bài tập');
+    }
+  }
+
+  /**
+   * Payment schedules of a linked child
+   * GET /api/v1/parents/children/:studentId/payment-schedules
+   */
+  static async getChildPaymentSchedules(req: Request, res: Response) {
+    try {
+      const { status, page = 1, limit = 10 } = req.query;
+      const result = await parentService.getChildPaymentSchedules(
+        req.user!.id,
+        req.params.studentId,
+        {
+          status: status as string | undefined,
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+        }
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get child payment schedules controller error:', error);
+      sendParentError(res, error, 'Không thể lấy lịch thanh toán');
+    }
+  }
+
+  /**
+   * Unpaid sessions of a child's class
+   * GET /api/v1/parents/children/:studentId/classes/:classId/available-sessions
+   */
+  static async getChildAvailableSessions(req: Request, res: Response) {
+    try {
+      const result = await parentService.getChildAvailableSessions(
+        req.user!.id,
+        req.params.studentId,
+        req.params.classId
+      );
+      res.json(result);
+    } catch (error: any) {
+      logger.error('Get child available sessions controller error:', error);
+      sendParentError(res, error, 'Không thể lấy danh sách buổi học');
+    }
+  }
+
+  /**
+   * Pay installments of a child's class
+   * POST /api/v1/parents/children/:studentId/payments/initiate
+   */
+  static async initiateChildPayment(req: Request, res: Response) {
+    try {
+      const { learningClassId, paymentType, sessionNumbers } = req.body;
+
+      // Get client IP address
+      const ipAddress =
+        (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+        req.socket.remoteAddress ||
+        '127.0.0.1';
+
+      const result = await parentService.initiateChildPayment(
+        req.user!.id,
+        req.params.studentId,
+        {
+          learningClassId,
+          paymentType,
+          sessionNumbers,
+          ipAddress,
+          userAgent: req.headers['user-agent'] || 'Unknown',
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Khởi tạo thanh toán thành công',
+        data: {
+          payment: result.payment,
+          paymentUrl: result.paymentUrl,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Initiate child payment controller error:', error);
+      sendParentError(res, error, 'Không thể khởi tạo thanh toán');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { paymentScheduleService } from '../../services/paymentSchedule/paymentSchedule.service';
+import { tutorEarningService } from '../../services/payment/tutorEarning.service';
 import { successResponse, errorResponse } from '../../utils/response';
 import { logger } from '../../utils/logger';
 
@@ -89,7 +90,7 @@ export class PaymentController {
         const sessionNumbers = result.payment?.sessionNumbers?.join(',') || '';
 
         return res.redirect(
-          `${frontendUrl}/student/classes/${learningClassId}/payment?status=success&orderId=${result.payment?.orderId}&sessions=${sessionNumbers}`
+          `${frontendUrl}${this.getPaymentPagePath(result.payment)}/classes/${learningClassId}/payment?status=success&orderId=${result.payment?.orderId}&sessions=${sessionNumbers}`
         );
       } else {
         logger.warn(
@@ -101,7 +102,7 @@ export class PaymentController {
         const learningClassId = result.payment?.learningClassId;
 
         return res.redirect(
-          `${frontendUrl}/student/classes/${learningClassId}/payment?status=failure&orderId=${query.vnp_TxnRef}&message=${encodeURIComponent(result.message)}`
+          `${frontendUrl}${this.getPaymentPagePath(result.payment)}/classes/${learningClassId}/payment?status=failure&orderId=${query.vnp_TxnRef}&message=${encodeURIComponent(result.message)}`
         );
       }
     } catch (error: any) {
@@ -115,6 +116,30 @@ export class PaymentController {
     }
   };
 
+  /**
+   * Handle VNPay IPN (server-to-server notification)
+   * GET /api/v1/payments/vnpay/ipn
+   * VNPay expects HTTP 200 with { RspCode, Message } in every case
+   */
+  vnpayIpn = async (req: Request, res: Response) => {
+    const ipAddress =
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+      req.socket.remoteAddress ||
+      undefined;
+
+    logger.info('VNPay IPN received', {
+      orderId: req.query.vnp_TxnRef,
+      ipAddress,
+    });
+
+    const response = await paymentScheduleService.handleVnpayIpn(
+      req.query,
+      ipAddress
+    );
+
+    return res.status(200).json(response);
+  };
+
   /**
    * Get payment status by order ID
    * GET /api/v1/payments/:orderId
@@ -131,8 +156,12 @@ export class PaymentController {
 
       const payment = await paymentScheduleService.getPaymentByOrderId(orderId);
 
-      // Check access permission
-      if (payment.studentId.id !== userId && payment.tutorId.id !== userId) {
+      // Check access permission (paidBy: parent who paid for the student)
+      if (
+        payment.studentId.id !== userId &&
+        payment.tutorId.id !== userId &&
+        payment.paidBy !== userId
+      ) {
         return errorResponse(res, 'Bạn không có quyền xem giao dịch này', 403);
       }
 
@@ -238,6 +267,85 @@ export class PaymentController {
     }
   };
 
+  /**
+   * Get tutor's earnings ledger and balance summary
+   * GET /api/v1/payments/tutor/earnings
+   */
+  getTutorEarnings = async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return errorResponse(res, 'Dữ liệu không hợp lệ', 400, errors.array());
+      }
+
+      const tutorId = req.user!.id;
+      const filters = {
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 10,
+        status: req.query.status as string,
+        month: req.query.month as string,
+      };
+
+      const result = await tutorEarningService.getTutorEarnings(
+        tutorId,
+        filters
+      );
+
+      return successResponse(res, 'Lấy thu nhập thành công', result);
+    } catch (error: any) {
+      logger.error('Error in getTutorEarnings controller:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
+
+  /**
+   * Get tutor's monthly settlement statements
+   * GET /api/v1/payments/tutor/earnings/statements
+   */
+  getSettlementStatements = async (req: Request, res: Response) => {
+    try {
+      const statements = await tutorEarningService.getSettlementStatements(
+        req.user!.id
+      );
+
+      return successResponse(
+        res,
+        'Lấy bảng quyết toán thành công',
+        statements
+      );
+    } catch (error: any) {
+      logger.error('Error in getSettlementStatements controller:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
+
+  /**
+   * Get tutor's settlement statement of a month (YYYY-MM)
+   * GET /api/v1/payments/tutor/earnings/statements/:month
+   */
+  getSettlementStatement = async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return errorResponse(res, 'Dữ liệu không hợp lệ', 400, errors.array());
+      }
+
+      const statement = await tutorEarningService.getSettlementStatement(
+        req.user!.id,
+        req.params.month
+      );
+
+      return successResponse(
+        res,
+        'Lấy bảng quyết toán thành công',
+        statement
+      );
+    } catch (error: any) {
+      logger.error('Error in getSettlementStatement controller:', error);
+      return errorResponse(res, error.message, error.statusCode || 500);
+    }
+  };
+
   /**
    * TEST API - Simple payment initiation without complex body
    * GET /api/v1/payments/test/create-simple
@@ -319,6 +427,17 @@ export class PaymentController {
       return errorResponse(res, error.message, 500);
     }
   };
+
+  /**
+   * Frontend area to return to after VNPay: the parent's page for the child
+   * when a linked parent paid, the student's own pages otherwise
+   */
+  private getPaymentPagePath(payment?: any): string {
+    if (payment?.paidBy && payment.paidBy !== payment.studentId) {
+      return `/parent/children/${payment.studentId}`;
+    }
+    return '/student';
+  }
 }
 
 export const paymentController = new PaymentController();
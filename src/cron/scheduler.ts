@@ -1,6 +1,9 @@
 import * as cron from 'node-cron';
 import { logger } from '../utils/logger';
 import { AssignmentReminderService } from '../services/assignmentReminder/assignmentReminder.service';
+import { paymentScheduleService } from '../services/paymentSchedule/paymentSchedule.service';
+import { tutorEarningService } from '../services/payment/tutorEarning.service';
+import { expiryService } from '../services/expiry/expiry.service';
 
 /**
  * Cron job scheduler for background tasks
@@ -43,6 +46,85 @@ export class CronScheduler {
     this.jobs.push(urgentReminderJob);
     logger.info('✅ Urgent deadline reminder cron job scheduled (runs every 30 minutes)');
 
+    // Reconcile PENDING payments stuck past expiredAt with VNPay (querydr)
+    const paymentReconciliationJob = cron.schedule('*/15 * * * *', async () => {
+      try {
+        logger.info('💳 Running payment reconciliation...');
+        await paymentScheduleService.reconcileStuckPayments();
+      } catch (error) {
+        logger.error('Error in payment reconciliation cron job:', error);
+      }
+    });
+
+    this.jobs.push(paymentReconciliationJob);
+    logger.info('✅ Payment reconciliation cron job scheduled (runs every 15 minutes)');
+
+    // Close yesterday's reconciliation summary shortly after midnight (Vietnam time)
+    const dailyReconciliationJob = cron.schedule(
+      '15 0 * * *',
+      async () => {
+        try {
+          logger.info('📊 Closing daily payment reconciliation summary...');
+          const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+          await paymentScheduleService.reconcileStuckPayments();
+          await paymentScheduleService.finalizeDailyReconciliation(yesterday);
+        } catch (error) {
+          logger.error('Error in daily reconciliation cron job:', error);
+        }
+      },
+      { timezone: 'Asia/Ho_Chi_Minh' }
+    );
+
+    this.jobs.push(dailyReconciliationJob);
+    logger.info('✅ Daily reconciliation summary cron job scheduled (runs at 00:15)');
+
+    // Mark installments past due + grace period as OVERDUE and apply late fees
+    const lateFeeJob = cron.schedule(
+      '0 1 * * *',
+      async () => {
+        try {
+          logger.info('⏳ Applying overdue installment late fees...');
+          await paymentScheduleService.applyOverdueLateFees();
+        } catch (error) {
+          logger.error('Error in late fee cron job:', error);
+        }
+      },
+      { timezone: 'Asia/Ho_Chi_Minh' }
+    );
+
+    this.jobs.push(lateFeeJob);
+    logger.info('✅ Late fee cron job scheduled (runs at 01:00)');
+
+    // Book tutor earnings for completed sessions and release held funds
+    const tutorEarningJob = cron.schedule('0 * * * *', async () => {
+      try {
+        logger.info('💰 Syncing tutor earnings ledger...');
+        await tutorEarningService.syncLedger();
+      } catch (error) {
+        logger.error('Error in tutor earnings cron job:', error);
+      }
+    });
+
+    this.jobs.push(tutorEarningJob);
+    logger.info('✅ Tutor earnings cron job scheduled (runs every hour)');
+
+    // Expire stale contracts / contact requests and send 24h reminders
+    expiryService
+      .dropLegacyTtlIndexes()
+      .catch((error) => logger.error('Error dropping legacy TTL indexes:', error));
+
+    const expiryJob = cron.schedule('*/10 * * * *', async () => {
+      try {
+        logger.info('⌛ Processing contract and contact request expiry...');
+        await expiryService.processExpirations();
+      } catch (error) {
+        logger.error('Error in expiry cron job:', error);
+      }
+    });
+
+    this.jobs.push(expiryJob);
+    logger.info('✅ Expiry cron job scheduled (runs every 10 minutes)');
+
     logger.info(`✅ Cron scheduler initialized with ${this.jobs.length} jobs`);
   }
 
@@ -59,11 +141,16 @@ export class CronScheduler {
   /**
    * Get status of all cron jobs
    */
-  static getStatus(): { running: number; total: number } {
+  static getStatus(): {
+    running: number;
+    total: number;
+    expiry: ReturnType<typeof expiryService.getStats>;
+  } {
     // node-cron doesn't have getStatus method, so we check if job is in the array
     return {
       running: this.jobs.length, // All jobs in array are considered running
       total: this.jobs.length,
+      expiry: expiryService.getStats(),
     };
   }
 }
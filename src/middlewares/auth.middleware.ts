@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/User';
-import { RefreshToken } from '../models/RefreshToken';
+import { twoFactorService } from '../services/auth/twoFactor.service';
+import { sessionStatusService } from '../services/auth/sessionStatus.service';
 import { createErrorResponse } from '../utils/response';
 import { logger } from '../utils/logger';
 
@@ -65,12 +66,33 @@ export const authenticateToken = async (
         );
     }
 
+    // Every access token belongs to a session; logged out / revoked sessions
+    // must not keep their access tokens
+    if (
+      !decoded.sid ||
+      !(await sessionStatusService.isActive(user.id, decoded.sid))
+    ) {
+      logger.warn(
+        `Authentication failed: Session revoked - User ID: ${user.id}, Session: ${decoded.sid}, IP: ${req.ip}`
+      );
+      return res
+        .status(401)
+        .json(
+          createErrorResponse(
+            'Session has been revoked. Please log in again.',
+            401
+          )
+        );
+    }
+
     // Add user info to request object
     req.user = {
       id: user.id,
       email: user.email,
       role: user.role,
       status: user.status,
+      sessionId: decoded.sid,
+      twoFactorEnabled: !!user.two_factor_enabled,
     };
 
     logger.info(
@@ -146,8 +168,44 @@ export const requireRole = (...roles: string[]) => {
   };
 };
 
-// Middleware to check if user is ADMIN
-export const requireAdmin = requireRole('ADMIN');
+// Middleware to enforce the 2FA policy: roles that must use 2FA are blocked
+// until they have enrolled (POST /auth/2fa/setup, /auth/2fa/enable)
+export const requireTwoFactor = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return res
+      .status(401)
+      .json(createErrorResponse('Authentication required.', 401));
+  }
+
+  if (
+    twoFactorService.isRequiredFor(req.user.role) &&
+    !req.user.twoFactorEnabled
+  ) {
+    logger.warn(
+      `Authorization failed: Two-factor authentication not enabled - User ID: ${req.user.id}, Role: ${req.user.role}, IP: ${req.ip}`
+    );
+    return res
+      .status(403)
+      .json(
+        createErrorResponse(
+          'Two-factor authentication is required for this account. Please enable it first.',
+          403,
+          { code: 'TWO_FACTOR_SETUP_REQUIRED' }
+        )
+      );
+  }
+
+  next();
+};
+
+// Middleware to check if user is ADMIN (with 2FA when the policy requires it)
+const requireAdminRole = requireRole('ADMIN');
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
+  requireAdminRole(req, res, () => requireTwoFactor(req, res, next));
 
 // Middleware to check if user is TUTOR or ADMIN
 export const requireTutorOrAdmin = requireRole('TUTOR', 'ADMIN');
@@ -183,7 +241,12 @@ export const optionalAuth = async (
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
     const user = await User.findById(decoded.userId);
 
-    if (user && user.status === 'active') {
+    const sessionActive =
+      !!decoded.sid &&
+      !!user &&
+      (await sessionStatusService.isActive(user.id, decoded.sid));
+
+    if (user && user.status === 'active' && sessionActive) {
       req.user = {
         id: user.id,
         email: user.email,
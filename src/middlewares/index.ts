@@ -4,8 +4,10 @@ export {
   authenticateToken, 
   requireRole, 
   requireAdmin, 
+  requireTwoFactor,
   requireTutorOrAdmin, 
   optionalAuth 
 } from './auth.middleware';
 
 export {requireStudentRole} from './student.middleware'
+export { requireParentRole } from './parent.middleware';
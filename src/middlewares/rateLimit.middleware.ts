@@ -0,0 +1,123 @@
+import { Request } from 'express';
+import rateLimit, { ipKeyGenerator, RateLimitRequestHandler } from 'express-rate-limit';
+import { MongoRateLimitStore } from '../utils/mongoRateLimitStore';
+import { createErrorResponse } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Rate limit policies
+ * Clients are keyed by user ID when authenticated, otherwise by IP.
+ * Counters are kept in memory by default; set RATE_LIMIT_STORE=mongo to share
+ * them between API instances.
+ */
+
+interface IRateLimitPolicy {
+  name: string; // Unique per policy, used as the store key prefix
+  windowMs: number;
+  limit: number;
+  message: string;
+  skipSuccessfulRequests?: boolean;
+  skip?: (req: Request) => boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+const clientKey = (req: Request): string =>
+  req.user?.id ? `user:${req.user.id}` : `ip:${ipKeyGenerator(req.ip || '')}`;
+
+export const createRateLimiter = (
+  policy: IRateLimitPolicy
+): RateLimitRequestHandler => {
+  const useMongo = process.env.RATE_LIMIT_STORE === 'mongo';
+
+  return rateLimit({
+    windowMs: policy.windowMs,
+    limit: policy.limit,
+    standardHeaders: 'draft-6', // RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset
+    legacyHeaders: false,
+    keyGenerator: clientKey,
+    skipSuccessfulRequests: policy.skipSuccessfulRequests,
+    skip: policy.skip,
+    store: useMongo
+      ? new MongoRateLimitStore(`rl:${policy.name}:`)
+      : undefined,
+    // Let requests through if MongoDB is unavailable instead of failing them
+    passOnStoreError: useMongo,
+    handler: (req, res, next, options) => {
+      logger.warn(
+        `Rate limit exceeded [${policy.name}] - ${clientKey(req)}, Path: ${req.originalUrl}`
+      );
+      res
+        .status(options.statusCode)
+        .json(createErrorResponse(policy.message, options.statusCode));
+    },
+  });
+};
+
+// VNPay return / IPN routes, relative to the /api mount (req.path has no query)
+const VNPAY_CALLBACK_PATH = /^\/v1\/payments\/vnpay\/(return|ipn)\/?$/;
+
+/**
+ * Default policy for the whole API
+ * VNPay callbacks are not limited (server-to-server, retried by VNPay)
+ */
+export const apiLimiter = createRateLimiter({
+  name: 'api',
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '') || 15 * MINUTE,
+  limit: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '') || 500,
+  message: 'Quá nhiều yêu cầu, vui lòng thử lại sau',
+  skip: (req) => VNPAY_CALLBACK_PATH.test(req.path),
+});
+
+/**
+ * Login attempts - only failed attempts are counted
+ */
+export const loginLimiter = createRateLimiter({
+  name: 'login',
+  windowMs: 15 * MINUTE,
+  limit: 10,
+  message: 'Bạn đã đăng nhập sai quá nhiều lần, vui lòng thử lại sau 15 phút',
+  skipSuccessfulRequests: true,
+});
+
+/**
+ * Endpoints that send emails (OTP, password reset)
+ */
+export const emailOtpLimiter = createRateLimiter({
+  name: 'email-otp',
+  windowMs: 60 * MINUTE,
+  limit: 5,
+  message: 'Bạn đã yêu cầu gửi mã quá nhiều lần, vui lòng thử lại sau 1 giờ',
+});
+
+/**
+ * Gemini-backed AI endpoints (recommendations, explanations, survey)
+ * Must be placed after authenticateToken to limit per user
+ */
+export const aiLimiter = createRateLimiter({
+  name: 'ai',
+  windowMs: 10 * MINUTE,
+  limit: 30,
+  message: 'Bạn đã sử dụng tính năng AI quá nhiều, vui lòng thử lại sau ít phút',
+});
+
+/**
+ * Speech-to-text transcription
+ * Must be placed after authenticateToken to limit per user
+ */
+export const speechLimiter = createRateLimiter({
+  name: 'speech',
+  windowMs: 60 * MINUTE,
+  limit: 20,
+  message: 'Bạn đã chuyển giọng nói quá nhiều lần, vui lòng thử lại sau 1 giờ',
+});
+
+/**
+ * Public contract verification - limits enumeration of contract codes
+ */
+export const contractVerifyLimiter = createRateLimiter({
+  name: 'contract-verify',
+  windowMs: 15 * MINUTE,
+  limit: 20,
+  message: 'Bạn đã tra cứu hợp đồng quá nhiều lần, vui lòng thử lại sau 15 phút',
+});
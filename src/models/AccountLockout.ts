@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Account Lockout Model
+ * One automatic lock of an account after too many failed logins, kept for
+ * admin review.
+ */
+
+export type AccountUnlockMethod = 'OTP' | 'PASSWORD_RESET' | 'EXPIRED';
+
+export interface IAccountLockout extends Document {
+  _id: string;
+  user_id: string;
+  failed_attempts: number;
+  ip_address?: string; // IP of the attempt that triggered the lock
+  user_agent?: string;
+  locked_at: Date;
+  locked_until: Date;
+  unlocked_at?: Date;
+  unlock_method?: AccountUnlockMethod;
+}
+
+const AccountLockoutSchema = new Schema<IAccountLockout>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    user_id: {
+      type: String,
+      required: true,
+      ref: 'User',
+    },
+    failed_attempts: {
+      type: Number,
+      required: true,
+    },
+    ip_address: String,
+    user_agent: String,
+    locked_at: {
+      type: Date,
+      required: true,
+    },
+    locked_until: {
+      type: Date,
+      required: true,
+    },
+    unlocked_at: Date,
+    unlock_method: {
+      type: String,
+      enum: ['OTP', 'PASSWORD_RESET', 'EXPIRED'],
+    },
+  },
+  {
+    versionKey: false,
+    collection: 'account_lockouts',
+  }
+);
+
+AccountLockoutSchema.index({ user_id: 1, locked_at: -1 });
+
+export const AccountLockout = mongoose.model<IAccountLockout>(
+  'AccountLockout',
+  AccountLockoutSchema
+);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Auth Provider Model
+ * External identity (e.g. a Google account) linked to a user. One external
+ * account belongs to one user, a user has at most one link per provider.
+ */
+
+export type AuthProviderName = 'GOOGLE';
+
+export interface IAuthProvider extends Document {
+  _id: string;
+  user_id: string;
+  provider: AuthProviderName;
+  provider_user_id: string; // Stable id from the provider (Google `sub`)
+  email?: string; // Email of the external account, may differ from the user's
+  linked_at: Date;
+  last_used_at?: Date;
+}
+
+const AuthProviderSchema = new Schema<IAuthProvider>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    user_id: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+    provider: {
+      type: String,
+      enum: ['GOOGLE'],
+      required: true,
+    },
+    provider_user_id: {
+      type: String,
+      required: true,
+    },
+    email: String,
+    linked_at: {
+      type: Date,
+      default: Date.now,
+    },
+    last_used_at: Date,
+  },
+  {
+    versionKey: false,
+    collection: 'auth_providers',
+  }
+);
+
+AuthProviderSchema.index(
+  { provider: 1, provider_user_id: 1 },
+  { unique: true }
+);
+AuthProviderSchema.index({ user_id: 1, provider: 1 }, { unique: true });
+
+export const AuthProvider = mongoose.model<IAuthProvider>(
+  'AuthProvider',
+  AuthProviderSchema
+);
@@ -1,6 +1,26 @@
 import { Schema, model, Document } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 
+// One offer in the negotiation thread (full snapshot of the proposed terms)
+export interface IContactRequestOffer {
+  offerNumber: number;
+  proposedBy: string; // Reference to User
+  proposedByRole: 'STUDENT' | 'TUTOR';
+  pricePerSession?: number;
+  totalSessions?: number;
+  sessionDuration?: number;
+  learningMode?: 'ONLINE' | 'OFFLINE';
+  schedule?: {
+    dayOfWeek: number[];
+    startTime: string; // "19:00"
+    endTime: string; // "20:30"
+  };
+  message?: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'SUPERSEDED';
+  respondedAt?: Date;
+  createdAt: Date;
+}
+
 export interface IContactRequest extends Document {
   _id: string;
   studentId: string; // Reference to User (Student)
@@ -43,8 +63,13 @@ export interface IContactRequest extends Document {
     };
   };
 
+  // Negotiation thread (successive offers from either side)
+  offers: IContactRequestOffer[];
+  acceptedOfferNumber?: number; // Terms used as createContract defaults
+
   // Auto-expire
-  expiresAt: Date; // Auto expire after 7 days if no response
+  expiresAt: Date; // Expired by the expiry cron job after 7 days without response
+  expiryReminderSentAt?: Date; // Reminder sent 24h before expiresAt
 
   // Timestamps
   createdAt: Date;
@@ -186,6 +211,38 @@ const ContactRequestSchema = new Schema<IContactRequest>(
       },
     },
 
+    // Negotiation thread
+    offers: [
+      {
+        _id: false,
+        offerNumber: { type: Number, required: true, min: 1 },
+        proposedBy: { type: String, required: true, ref: 'User' },
+        proposedByRole: {
+          type: String,
+          enum: ['STUDENT', 'TUTOR'],
+          required: true,
+        },
+        pricePerSession: { type: Number, min: 50000, max: 10000000 },
+        totalSessions: { type: Number, min: 1, max: 100 },
+        sessionDuration: { type: Number, enum: [60, 90, 120, 150, 180] },
+        learningMode: { type: String, enum: ['ONLINE', 'OFFLINE'] },
+        schedule: {
+          dayOfWeek: [{ type: Number, min: 0, max: 6 }],
+          startTime: String,
+          endTime: String,
+        },
+        message: { type: String, trim: true, maxlength: 1000 },
+        status: {
+          type: String,
+          enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'SUPERSEDED'],
+          default: 'PENDING',
+        },
+        respondedAt: Date,
+        createdAt: { type: Date, default: Date.now },
+      },
+    ],
+    acceptedOfferNumber: Number,
+
     // Auto expire
     expiresAt: {
       type: Date,
@@ -194,6 +251,7 @@ const ContactRequestSchema = new Schema<IContactRequest>(
         return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
       },
     },
+    expiryReminderSentAt: Date,
   },
   {
     timestamps: true,
@@ -207,7 +265,7 @@ ContactRequestSchema.index({ tutorId: 1, createdAt: -1 });
 ContactRequestSchema.index({ tutorPostId: 1 });
 ContactRequestSchema.index({ studentPostId: 1 });
 ContactRequestSchema.index({ status: 1 });
-ContactRequestSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+ContactRequestSchema.index({ status: 1, expiresAt: 1 });
 
 // Middleware to update TutorPost contactCount
 ContactRequestSchema.post('save', async function (doc) {
@@ -1,6 +1,22 @@
 import { Schema, model, Document } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 
+// One changed term between two contract versions
+export interface IContractFieldChange {
+  field: string; // Dot path, e.g. "schedule.startTime"
+  label: string;
+  before: any;
+  after: any;
+}
+
+export interface IContractAmendment {
+  reason: string;
+  proposedBy: string; // User ID
+  proposedByRole: 'TUTOR' | 'STUDENT';
+  changes: IContractFieldChange[];
+  appliedAt?: Date; // When the class and payment schedule were migrated
+}
+
 export interface IContract extends Document {
   _id: string;
   contactRequestId: string; // Reference to ContactRequest
@@ -58,7 +74,8 @@ export interface IContract extends Document {
     | 'APPROVED'
     | 'REJECTED'
     | 'EXPIRED'
-    | 'CANCELLED';
+    | 'CANCELLED'
+    | 'SUPERSEDED'; // Replaced by a signed amendment
 
   // Student response
   studentResponse?: {
@@ -71,6 +88,9 @@ export interface IContract extends Document {
   // Contract metadata
   contractVersion: number; // Version tracking for amendments
   previousContractId?: string; // If this is an amendment
+  amendment?: IContractAmendment; // Set on amendment versions
+  supersededByContractId?: string;
+  supersededAt?: Date;
 
   // Electronic signature fields
   contractHash?: string; // SHA-256 hash of contract content for integrity verification
@@ -82,7 +102,8 @@ export interface IContract extends Document {
   tutorSignedAt?: Date; // When tutor signed
 
   // Timestamps
-  expiresAt: Date; // Auto-expire after 3 days if no response
+  expiresAt: Date; // Expired by the expiry cron job after 3 days without response
+  expiryReminderSentAt?: Date; // Reminder sent 24h before expiresAt
   createdAt: Date;
   updatedAt: Date;
 
@@ -248,6 +269,7 @@ const ContractSchema = new Schema<IContract>(
         'REJECTED',
         'EXPIRED',
         'CANCELLED',
+        'SUPERSEDED',
       ],
       default: 'PENDING_STUDENT_APPROVAL',
     },
@@ -280,6 +302,36 @@ const ContractSchema = new Schema<IContract>(
       type: String,
       ref: 'Contract',
     },
+    amendment: {
+      type: new Schema<IContractAmendment>(
+        {
+          reason: { type: String, required: true, trim: true, maxlength: 1000 },
+          proposedBy: { type: String, ref: 'User', required: true },
+          proposedByRole: {
+            type: String,
+            enum: ['TUTOR', 'STUDENT'],
+            required: true,
+          },
+          changes: [
+            {
+              _id: false,
+              field: { type: String, required: true },
+              label: { type: String, required: true },
+              before: Schema.Types.Mixed,
+              after: Schema.Types.Mixed,
+            },
+          ],
+          appliedAt: Date,
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+    supersededByContractId: {
+      type: String,
+      ref: 'Contract',
+    },
+    supersededAt: Date,
 
     // Electronic signature fields
     contractHash: {
@@ -321,6 +373,7 @@ const ContractSchema = new Schema<IContract>(
         return new Date(Date.now() + 3 * 24 * 60 * 60 * 1000); // 3 days
       },
     },
+    expiryReminderSentAt: Date,
 
     // Approval tracking
     approvedAt: Date,
@@ -341,12 +394,17 @@ ContractSchema.index({ studentId: 1, status: 1, createdAt: -1 });
 ContractSchema.index({ tutorId: 1, status: 1, createdAt: -1 });
 ContractSchema.index({ contactRequestId: 1 });
 ContractSchema.index({ status: 1, expiresAt: 1 });
-ContractSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 ContractSchema.index({ isSigned: 1, isLocked: 1 }); // For finding signed/locked contracts
 ContractSchema.index({ contractHash: 1 }, { sparse: true }); // For integrity verification
+ContractSchema.index({ title: 1 }); // Public verification by contract code
+ContractSchema.index({ previousContractId: 1 }, { sparse: true }); // Amendment chain
 
 // Pre-save middleware to calculate totalAmount
+// Amendments keep the amount computed from already paid sessions
 ContractSchema.pre('save', function (next) {
+  if (this.amendment) {
+    return next();
+  }
   if (
     this.isModified('totalSessions') ||
     this.isModified('pricePerSession') ||
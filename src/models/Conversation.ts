@@ -17,7 +17,7 @@ export interface IConversation extends Document {
     content: string;
     senderId: string;
     sentAt: Date;
-    messageType: 'TEXT' | 'IMAGE' | 'FILE';
+    messageType: 'TEXT' | 'IMAGE' | 'FILE' | 'AUDIO';
   };
 
   // Unread counts
@@ -74,7 +74,7 @@ const ConversationSchema = new Schema<IConversation>(
       sentAt: Date,
       messageType: {
         type: String,
-        enum: ['TEXT', 'IMAGE', 'FILE'],
+        enum: ['TEXT', 'IMAGE', 'FILE', 'AUDIO'],
         default: 'TEXT',
       },
     },
@@ -0,0 +1,107 @@
+import { Schema, model, Document } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Flagged Message Model
+ * Chat message caught by the content filter, kept for admin moderation
+ * together with a snapshot of the surrounding conversation.
+ */
+
+export type ModerationAction = 'MASK' | 'BLOCK' | 'FLAG';
+
+// Conversation message right before the flagged one
+export interface IModerationContextMessage {
+  messageId: string;
+  senderId: string;
+  content: string;
+  messageType: string;
+  sentAt: Date;
+}
+
+export interface IModerationReview {
+  reviewedBy: string; // Admin user ID
+  reviewerName: string;
+  note?: string;
+  reviewedAt: Date;
+}
+
+export interface IFlaggedMessage extends Document {
+  _id: string;
+  messageId?: string; // Not set when the message was blocked
+  conversationId: string;
+  senderId: string;
+  receiverId: string;
+  source: 'SEND' | 'EDIT' | 'TRANSCRIPT';
+  originalContent: string;
+  deliveredContent?: string; // What the receiver got (masked or original)
+  violations: string[];
+  action: ModerationAction;
+  escalated: boolean; // Action raised to BLOCK for a repeat offender
+  context: IModerationContextMessage[];
+  status: 'PENDING' | 'CONFIRMED' | 'DISMISSED';
+  review?: IModerationReview;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const contextMessageSchema = new Schema<IModerationContextMessage>(
+  {
+    messageId: { type: String, required: true },
+    senderId: { type: String, required: true },
+    content: { type: String, required: true },
+    messageType: { type: String, required: true },
+    sentAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const reviewSchema = new Schema<IModerationReview>(
+  {
+    reviewedBy: { type: String, required: true },
+    reviewerName: { type: String, required: true },
+    note: { type: String, maxlength: 1000 },
+    reviewedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const flaggedMessageSchema = new Schema<IFlaggedMessage>(
+  {
+    _id: { type: String, default: uuidv4 },
+    messageId: { type: String, ref: 'Message' },
+    conversationId: { type: String, required: true, ref: 'Conversation' },
+    senderId: { type: String, required: true, ref: 'User' },
+    receiverId: { type: String, required: true, ref: 'User' },
+    source: { type: String, enum: ['SEND', 'EDIT', 'TRANSCRIPT'], default: 'SEND' },
+    originalContent: { type: String, required: true },
+    deliveredContent: { type: String },
+    violations: { type: [String], default: [] },
+    action: {
+      type: String,
+      enum: ['MASK', 'BLOCK', 'FLAG'],
+      required: true,
+    },
+    escalated: { type: Boolean, default: false },
+    context: { type: [contextMessageSchema], default: [] },
+    status: {
+      type: String,
+      enum: ['PENDING', 'CONFIRMED', 'DISMISSED'],
+      default: 'PENDING',
+    },
+    review: { type: reviewSchema },
+  },
+  {
+    timestamps: true,
+    collection: 'flagged_messages',
+  }
+);
+
+flaggedMessageSchema.index({ status: 1, createdAt: -1 });
+flaggedMessageSchema.index({ senderId: 1, createdAt: -1 });
+flaggedMessageSchema.index({ senderId: 1, status: 1 });
+flaggedMessageSchema.index({ conversationId: 1, createdAt: -1 });
+
+export const FlaggedMessage = model<IFlaggedMessage>(
+  'FlaggedMessage',
+  flaggedMessageSchema
+);
@@ -166,6 +166,24 @@ export interface IClassAssignment {
   readOnly?: boolean;
 }
 
+// Reschedule request for a single session (needs the other party's approval)
+export interface ISessionRescheduleRequest {
+  requestedBy: 'TUTOR' | 'STUDENT';
+  requestedByUserId: string;
+  previousDate: Date;
+  proposedDate: Date;
+  reason?: string;
+  requestedAt: Date;
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'WITHDRAWN';
+  respondedAt?: Date;
+  responseNote?: string;
+}
+
+export interface ISessionRescheduleHistoryEntry
+  extends ISessionRescheduleRequest {
+  respondedBy?: 'TUTOR' | 'STUDENT';
+}
+
 export interface ILearningSession {
   sessionNumber: number;
   scheduledDate: Date;
@@ -201,6 +219,14 @@ export interface ILearningSession {
     status: 'PENDING' | 'APPROVED' | 'REJECTED';
   };
 
+  // NEW: Make-up session linking (cancelled session <-> replacement session)
+  makeUpForSessionNumber?: number;
+  makeUpSessionNumber?: number;
+
+  // NEW: Reschedule request tracking (latest request + audit trail)
+  rescheduleRequest?: ISessionRescheduleRequest;
+  rescheduleHistory?: ISessionRescheduleHistoryEntry[];
+
   studentFeedback?: {
     rating: number; // 1-5
     comment?: string;
@@ -339,6 +365,57 @@ const SessionHomeworkAssignmentSchema = new Schema<ISessionHomeworkAssignment>(
   { _id: false }
 );
 
+const SessionRescheduleRequestSchema = new Schema<ISessionRescheduleRequest>(
+  {
+    requestedBy: {
+      type: String,
+      enum: ['TUTOR', 'STUDENT'],
+      required: true,
+    },
+    requestedByUserId: { type: String, required: true },
+    previousDate: { type: Date, required: true },
+    proposedDate: { type: Date, required: true },
+    reason: { type: String, maxlength: 500 },
+    requestedAt: { type: Date, default: Date.now },
+    status: {
+      type: String,
+      enum: ['PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN'],
+      default: 'PENDING',
+    },
+    respondedAt: Date,
+    responseNote: { type: String, maxlength: 500 },
+  },
+  { _id: false }
+);
+
+const SessionRescheduleHistorySchema =
+  new Schema<ISessionRescheduleHistoryEntry>(
+    {
+      requestedBy: {
+        type: String,
+        enum: ['TUTOR', 'STUDENT'],
+        required: true,
+      },
+      requestedByUserId: { type: String, required: true },
+      previousDate: { type: Date, required: true },
+      proposedDate: { type: Date, required: true },
+      reason: { type: String, maxlength: 500 },
+      requestedAt: { type: Date, default: Date.now },
+      status: {
+        type: String,
+        enum: ['PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN'],
+        default: 'PENDING',
+      },
+      respondedAt: Date,
+      responseNote: { type: String, maxlength: 500 },
+      respondedBy: {
+        type: String,
+        enum: ['TUTOR', 'STUDENT'],
+      },
+    },
+    { _id: false }
+  );
+
 const LearningSessionSchema = new Schema<ILearningSession>(
   {
     sessionNumber: { type: Number, required: true },
@@ -451,6 +528,17 @@ const LearningSessionSchema = new Schema<ILearningSession>(
       },
     },
 
+    // NEW: Make-up session linking
+    makeUpForSessionNumber: { type: Number, min: 1 },
+    makeUpSessionNumber: { type: Number, min: 1 },
+
+    // NEW: Reschedule request tracking
+    rescheduleRequest: { type: SessionRescheduleRequestSchema },
+    rescheduleHistory: {
+      type: [SessionRescheduleHistorySchema],
+      default: undefined,
+    },
+
     studentFeedback: {
       rating: { type: Number, min: 1, max: 5 },
       comment: { type: String, maxlength: 500 },
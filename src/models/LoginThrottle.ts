@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Login Throttle Model
+ * Failed login counter of one account ("account:<userId>") or one client IP
+ * ("ip:<ip>"). Counters are removed by a TTL index once idle long enough.
+ */
+
+export interface ILoginThrottle extends Document {
+  _id: string;
+  failures: number;
+  blocked_until?: Date; // Backoff: next attempt allowed after this time
+  last_failure_at: Date;
+  expires_at: Date;
+}
+
+const LoginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    blocked_until: Date,
+    last_failure_at: {
+      type: Date,
+      required: true,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    collection: 'login_throttles',
+  }
+);
+
+// Forget failures once the counter has been idle for its whole window
+LoginThrottleSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginThrottle = mongoose.model<ILoginThrottle>(
+  'LoginThrottle',
+  LoginThrottleSchema
+);
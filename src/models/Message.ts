@@ -1,5 +1,14 @@
 import { Schema, model, Document } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
+import { removeVietnameseAccents } from '../utils/vietnameseSearch';
+
+export type MessageType = 'TEXT' | 'IMAGE' | 'FILE' | 'AUDIO';
+
+export interface IMessageReaction {
+  userId: string;
+  emoji: string;
+  reactedAt: Date;
+}
 
 export interface IMessage extends Document {
   _id: string;
@@ -9,7 +18,7 @@ export interface IMessage extends Document {
   
   // Message content
   content: string;
-  messageType: 'TEXT' | 'IMAGE' | 'FILE';
+  messageType: MessageType;
   
   // File/Image metadata (if applicable)
   fileMetadata?: {
@@ -18,6 +27,14 @@ export interface IMessage extends Document {
     fileSize: number;
     mimeType: string;
     fileUrl: string;
+    duration?: number; // Seconds, for AUDIO
+  };
+
+  // Automatic transcript of a voice note (AUDIO)
+  transcript?: {
+    status: 'PENDING' | 'COMPLETED' | 'FAILED' | 'BLOCKED'; // BLOCKED: text withheld by moderation
+    text?: string;
+    completedAt?: Date;
   };
   
   // Message status
@@ -34,11 +51,29 @@ export interface IMessage extends Document {
   deliveredAt?: Date;
   readAt?: Date;
   
+  // Emoji reactions (one per user)
+  reactions: IMessageReaction[];
+
+  // Accent-free lowercase copy of content for search (tìm kiếm không dấu)
+  searchText?: string;
+
+  // Editing
+  editedAt?: Date;
+
   // Soft delete
   isDeleted: boolean;
   deletedAt?: Date;
 }
 
+const MessageReactionSchema = new Schema<IMessageReaction>(
+  {
+    userId: { type: String, required: true, ref: 'User' },
+    emoji: { type: String, required: true, maxlength: 16 },
+    reactedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const MessageSchema = new Schema<IMessage>(
   {
     _id: {
@@ -67,7 +102,7 @@ const MessageSchema = new Schema<IMessage>(
     },
     messageType: {
       type: String,
-      enum: ['TEXT', 'IMAGE', 'FILE'],
+      enum: ['TEXT', 'IMAGE', 'FILE', 'AUDIO'],
       default: 'TEXT',
     },
     fileMetadata: {
@@ -76,6 +111,15 @@ const MessageSchema = new Schema<IMessage>(
       fileSize: Number,
       mimeType: String,
       fileUrl: String,
+      duration: Number,
+    },
+    transcript: {
+      status: {
+        type: String,
+        enum: ['PENDING', 'COMPLETED', 'FAILED', 'BLOCKED'],
+      },
+      text: String,
+      completedAt: Date,
     },
     status: {
       type: String,
@@ -92,6 +136,15 @@ const MessageSchema = new Schema<IMessage>(
     },
     deliveredAt: Date,
     readAt: Date,
+    reactions: {
+      type: [MessageReactionSchema],
+      default: [],
+    },
+    searchText: {
+      type: String,
+      select: false,
+    },
+    editedAt: Date,
     isDeleted: {
       type: Boolean,
       default: false,
@@ -114,4 +167,12 @@ MessageSchema.index({ isDeleted: 1 });
 // Compound index for conversation messages
 MessageSchema.index({ conversationId: 1, isDeleted: 1, sentAt: -1 });
 
+// Keep searchText in sync with content
+MessageSchema.pre('save', function (next) {
+  if (this.isModified('content')) {
+    this.searchText = removeVietnameseAccents(this.content.toLowerCase());
+  }
+  next();
+});
+
 export const Message = model<IMessage>('Message', MessageSchema);
\ No newline at end of file
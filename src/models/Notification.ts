@@ -11,17 +11,27 @@ export interface INotification extends Document {
     | 'ATTENDANCE_MARKED'
     | 'CANCELLATION_REQUESTED'
     | 'CANCELLATION_RESPONDED'
+    | 'RESCHEDULE_REQUESTED'
+    | 'RESCHEDULE_RESPONDED'
+    | 'MAKEUP_SESSION_SCHEDULED'
+    | 'REFUND_UPDATED'
+    | 'PAYMENT_OVERDUE'
     | 'MESSAGE'
     | 'SYSTEM'
     | 'ASSIGNMENT_DEADLINE_REMINDER'
     | 'CONTRACT_CREATED'
     | 'CONTRACT_APPROVED'
     | 'CONTRACT_REJECTED'
+    | 'CONTRACT_EXPIRING'
     | 'CONTRACT_EXPIRED'
     | 'CONTRACT_CANCELLED'
+    | 'CONTRACT_AMENDED'
     | 'SESSION_REPORT_CREATED'
     | 'SESSION_REPORT_RESOLVED'
-    | 'SESSION_REPORT_UNDER_REVIEW';
+    | 'SESSION_REPORT_UNDER_REVIEW'
+    | 'SECURITY_ALERT'
+    | 'PARENT_LINK_REQUESTED'
+    | 'PARENT_LINK_RESPONDED';
   title: string;
   message: string;
   data?: any;
@@ -50,17 +60,27 @@ const NotificationSchema = new Schema<INotification>(
         'ATTENDANCE_MARKED',
         'CANCELLATION_REQUESTED',
         'CANCELLATION_RESPONDED',
+        'RESCHEDULE_REQUESTED',
+        'RESCHEDULE_RESPONDED',
+        'MAKEUP_SESSION_SCHEDULED',
+        'REFUND_UPDATED',
+        'PAYMENT_OVERDUE',
         'MESSAGE',
         'SYSTEM',
         'CONTRACT_CREATED',
         'CONTRACT_APPROVED',
         'CONTRACT_REJECTED',
+        'CONTRACT_EXPIRING',
         'CONTRACT_EXPIRED',
         'CONTRACT_CANCELLED',
+        'CONTRACT_AMENDED',
         'ASSIGNMENT_DEADLINE_REMINDER',
         'SESSION_REPORT_CREATED',
         'SESSION_REPORT_RESOLVED',
         'SESSION_REPORT_UNDER_REVIEW',
+        'SECURITY_ALERT',
+        'PARENT_LINK_REQUESTED',
+        'PARENT_LINK_RESPONDED',
       ],
       required: true,
     },
@@ -32,6 +32,11 @@ const otpSchema = new Schema<IOTPDocument>(
       type: Boolean,
       default: false,
     },
+    failed_attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     otp_type: {
       type: String,
       enum: Object.values(OTPType),
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Parent Student Link Model
+ * A parent / guardian account linked to a student account. The parent sends
+ * an invitation, the link only grants access once the student accepts it.
+ * One document per parent-student pair, re-used when a new invitation is
+ * sent after a decline or revoke.
+ */
+
+export type ParentRelationship = 'FATHER' | 'MOTHER' | 'GUARDIAN' | 'OTHER';
+
+export type ParentLinkStatus =
+  | 'PENDING' // Waiting for the student
+  | 'ACCEPTED'
+  | 'DECLINED'
+  | 'REVOKED'; // Removed by the parent or the student after acceptance
+
+export interface IParentStudentLink extends Document {
+  _id: string;
+  parentId: string;
+  studentId: string;
+  relationship: ParentRelationship;
+  status: ParentLinkStatus;
+  message?: string; // Note from the parent shown with the invitation
+
+  invitedAt: Date;
+  respondedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ParentStudentLinkSchema = new Schema<IParentStudentLink>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    parentId: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+    studentId: {
+      type: String,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    relationship: {
+      type: String,
+      enum: ['FATHER', 'MOTHER', 'GUARDIAN', 'OTHER'],
+      default: 'GUARDIAN',
+    },
+    status: {
+      type: String,
+      enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'REVOKED'],
+      default: 'PENDING',
+      index: true,
+    },
+    message: {
+      type: String,
+      maxlength: 500,
+    },
+    invitedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    respondedAt: Date,
+    revokedAt: Date,
+    revokedBy: {
+      type: String,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'parent_student_links',
+  }
+);
+
+ParentStudentLinkSchema.index({ parentId: 1, studentId: 1 }, { unique: true });
+
+export const ParentStudentLink = mongoose.model<IParentStudentLink>(
+  'ParentStudentLink',
+  ParentStudentLinkSchema
+);
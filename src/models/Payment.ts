@@ -14,16 +14,19 @@ export interface IPayment extends Document {
   learningClassId: string;
   studentId: string;
   tutorId: string;
+  paidBy?: string; // User who initiated the payment (student or linked parent)
 
   // Payment details
   orderId: string; // Unique order ID for VNPay (vnp_TxnRef)
   amount: number; // Total payment amount
+  lateFeeAmount?: number; // Part of amount charged as late fees
   paymentType: 'SINGLE_WEEK' | 'MULTI_WEEK' | 'FULL_REMAINING'; // Payment flexibility
   sessionNumbers: number[]; // Which sessions this payment covers
 
   // Payment gateway info
   paymentMethod: 'VNPAY' | 'BANK_TRANSFER' | 'CASH';
   paymentGateway?: 'VNPAY';
+  vnpCreateDate?: string; // vnp_CreateDate of the payment URL (yyyyMMddHHmmss, GMT+7)
   gatewayTransactionId?: string; // vnp_TransactionNo from VNPay
   gatewayResponseCode?: string; // vnp_ResponseCode
   gatewayBankCode?: string; // vnp_BankCode
@@ -105,6 +108,10 @@ const PaymentSchema = new Schema<IPayment>(
       required: true,
       index: true,
     },
+    paidBy: {
+      type: String,
+      ref: 'User',
+    },
 
     // Payment details
     orderId: {
@@ -118,6 +125,11 @@ const PaymentSchema = new Schema<IPayment>(
       required: true,
       min: 0,
     },
+    lateFeeAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     paymentType: {
       type: String,
       enum: ['SINGLE_WEEK', 'MULTI_WEEK', 'FULL_REMAINING'],
@@ -145,6 +157,7 @@ const PaymentSchema = new Schema<IPayment>(
       type: String,
       enum: ['VNPAY'],
     },
+    vnpCreateDate: String,
     gatewayTransactionId: {
       type: String,
       index: true,
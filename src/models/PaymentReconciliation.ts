@@ -0,0 +1,151 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Payment Reconciliation Model
+ * One document per day (Vietnam time) summarising the reconciliation of
+ * PENDING payments that outlived their expiredAt against VNPay querydr
+ */
+
+export type ReconciliationAction =
+  | 'COMPLETED' // VNPay confirmed the payment, completed locally
+  | 'FAILED' // VNPay reported success but the amount did not match
+  | 'EXPIRED' // Not paid at VNPay, expired and installments released
+  | 'SKIPPED' // Still within VNPay's payment window, checked again later
+  | 'ERROR'; // querydr call failed
+
+export interface IReconciliationItem {
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  previousStatus: string;
+  action: ReconciliationAction;
+  vnpayResponseCode?: string;
+  vnpayTransactionStatus?: string;
+  note?: string;
+  processedAt: Date;
+}
+
+export interface IReconciliationDailyTotals {
+  paymentsCreated: number;
+  completedCount: number;
+  completedAmount: number;
+  failedCount: number;
+  expiredCount: number;
+  cancelledCount: number;
+  refundedCount: number;
+  stillPendingCount: number; // PENDING and past expiredAt at close time
+  ipnDeliveries: number;
+  ipnRejected: number; // Checksum / unknown order / amount errors
+}
+
+export interface IPaymentReconciliation extends Document {
+  _id: string;
+  date: string; // YYYY-MM-DD (Asia/Ho_Chi_Minh)
+
+  runs: number;
+  lastRunAt?: Date;
+
+  // Totals across all reconciliation runs of the day
+  checked: number;
+  completed: number;
+  failed: number;
+  expired: number;
+  skipped: number;
+  errorCount: number;
+  completedAmount: number;
+  expiredAmount: number;
+
+  items: IReconciliationItem[];
+
+  // Filled by the end-of-day job
+  dailyTotals?: IReconciliationDailyTotals;
+  closedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReconciliationItemSchema = new Schema<IReconciliationItem>(
+  {
+    paymentId: { type: String, ref: 'Payment', required: true },
+    orderId: { type: String, required: true },
+    amount: { type: Number, required: true },
+    previousStatus: { type: String, required: true },
+    action: {
+      type: String,
+      enum: ['COMPLETED', 'FAILED', 'EXPIRED', 'SKIPPED', 'ERROR'],
+      required: true,
+    },
+    vnpayResponseCode: String,
+    vnpayTransactionStatus: String,
+    note: String,
+    processedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const PaymentReconciliationSchema = new Schema<IPaymentReconciliation>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    date: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+
+    runs: { type: Number, default: 0 },
+    lastRunAt: Date,
+
+    checked: { type: Number, default: 0 },
+    completed: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    expired: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    errorCount: { type: Number, default: 0 },
+    completedAmount: { type: Number, default: 0 },
+    expiredAmount: { type: Number, default: 0 },
+
+    items: {
+      type: [ReconciliationItemSchema],
+      default: [],
+    },
+
+    dailyTotals: {
+      paymentsCreated: Number,
+      completedCount: Number,
+      completedAmount: Number,
+      failedCount: Number,
+      expiredCount: Number,
+      cancelledCount: Number,
+      refundedCount: Number,
+      stillPendingCount: Number,
+      ipnDeliveries: Number,
+      ipnRejected: Number,
+    },
+    closedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'payment_reconciliations',
+  }
+);
+
+// Transform output
+PaymentReconciliationSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const PaymentReconciliation = mongoose.model<IPaymentReconciliation>(
+  'PaymentReconciliation',
+  PaymentReconciliationSchema
+);
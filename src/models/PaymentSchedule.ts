@@ -17,6 +17,15 @@ export interface IPaymentInstallment {
   paymentId?: string; // Reference to Payment document
   transactionId?: string;
   notes?: string;
+
+  // Late payment tracking
+  overdueAt?: Date; // When the installment went past due date + grace period
+  lateFee?: number; // Charged on top of amount when the installment is paid
+
+  // Overdue notifications already sent (daily job), so a status change made
+  // elsewhere (read paths also run checkOverduePayments) is still notified once
+  overdueNotifiedAt?: Date;
+  lateFeeNotified?: number; // Late fee the student was last notified about
 }
 
 export interface IPaymentSchedule extends Document {
@@ -109,6 +118,17 @@ const PaymentInstallmentSchema = new Schema<IPaymentInstallment>(
       trim: true,
       maxlength: 500,
     },
+    overdueAt: Date,
+    lateFee: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    overdueNotifiedAt: Date,
+    lateFeeNotified: {
+      type: Number,
+      min: 0,
+    },
   },
   { _id: false }
 );
@@ -256,8 +276,12 @@ PaymentScheduleSchema.pre('save', function (next) {
     this.remainingAmount = this.totalAmount - (this.paidAmount || 0);
   }
 
-  // Update status based on payment completion
-  if (this.remainingAmount <= 0 && this.status !== 'COMPLETED') {
+  // Update status based on payment completion (a cancelled schedule stays cancelled)
+  if (
+    this.remainingAmount <= 0 &&
+    this.status !== 'COMPLETED' &&
+    this.status !== 'CANCELLED'
+  ) {
     this.status = 'COMPLETED';
     this.completedAt = new Date();
   }
@@ -265,23 +289,78 @@ PaymentScheduleSchema.pre('save', function (next) {
   next();
 });
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Late fee of an overdue installment: lateFeePercentage of the amount for each
+ * started week past due date + grace period, capped at the installment amount
+ */
+export const calculateLateFee = (
+  installment: IPaymentInstallment,
+  lateFeePercentage: number,
+  gracePeriodDays: number,
+  now: Date = new Date()
+): number => {
+  const graceEnd =
+    new Date(installment.dueDate).getTime() + gracePeriodDays * DAY_MS;
+  if (now.getTime() <= graceEnd || lateFeePercentage <= 0) {
+    return 0;
+  }
+
+  const weeksLate = Math.ceil((now.getTime() - graceEnd) / (7 * DAY_MS));
+  const fee = Math.round(
+    (installment.amount * lateFeePercentage * weeksLate) / 100
+  );
+
+  return Math.min(fee, installment.amount);
+};
+
 // Method to check for overdue payments
+// Marks installments past due date + grace period as OVERDUE and refreshes their late fee
 PaymentScheduleSchema.methods.checkOverduePayments = function () {
   const now = new Date();
-  let hasOverdue = false;
+  const { lateFeePercentage = 0, gracePeriodDays = 0 } =
+    this.paymentTerms || {};
+  let changed = false;
 
   this.installments.forEach((installment: IPaymentInstallment) => {
-    if (installment.status === 'UNPAID' && installment.dueDate < now) {
+    if (installment.status !== 'UNPAID' && installment.status !== 'OVERDUE') {
+      return;
+    }
+
+    const graceEnd =
+      new Date(installment.dueDate).getTime() + gracePeriodDays * DAY_MS;
+    if (now.getTime() <= graceEnd) {
+      return;
+    }
+
+    if (installment.status === 'UNPAID') {
       installment.status = 'OVERDUE';
-      hasOverdue = true;
+      installment.overdueAt = now;
+      changed = true;
+    }
+
+    const lateFee = calculateLateFee(
+      installment,
+      lateFeePercentage,
+      gracePeriodDays,
+      now
+    );
+    if ((installment.lateFee || 0) !== lateFee) {
+      installment.lateFee = lateFee;
+      changed = true;
     }
   });
 
-  if (hasOverdue && this.status === 'ACTIVE') {
+  const hasOverdue = this.installments.some(
+    (installment: IPaymentInstallment) => installment.status === 'OVERDUE'
+  );
+  if (hasOverdue && (this.status === 'ACTIVE' || this.status === 'PENDING')) {
     this.status = 'OVERDUE';
+    changed = true;
   }
 
-  return hasOverdue;
+  return changed;
 };
 
 // Transform output
@@ -0,0 +1,115 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Payout Batch Model
+ * A set of AVAILABLE tutor earnings exported by an admin for bank transfer
+ */
+
+export interface IPayoutBatchTutor {
+  tutorId: string;
+  tutorName: string;
+  tutorEmail: string;
+  entryCount: number;
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+}
+
+export interface IPayoutBatch extends Document {
+  _id: string;
+  batchCode: string; // PO-YYYYMMDD-XXXX
+  status: 'EXPORTED' | 'PAID';
+  cutoffDate: Date; // Earnings released up to this instant
+  tutors: IPayoutBatchTutor[];
+  entryCount: number;
+  totalNetAmount: number;
+  totalCommissionAmount: number;
+  createdBy: string; // Admin user ID
+  paidBy?: string;
+  paidAt?: Date;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PayoutBatchTutorSchema = new Schema<IPayoutBatchTutor>(
+  {
+    tutorId: { type: String, ref: 'User', required: true },
+    tutorName: { type: String, required: true },
+    tutorEmail: { type: String, required: true },
+    entryCount: { type: Number, required: true, min: 0 },
+    grossAmount: { type: Number, required: true, min: 0 },
+    commissionAmount: { type: Number, required: true, min: 0 },
+    netAmount: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const PayoutBatchSchema = new Schema<IPayoutBatch>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    batchCode: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: ['EXPORTED', 'PAID'],
+      default: 'EXPORTED',
+      required: true,
+      index: true,
+    },
+    cutoffDate: {
+      type: Date,
+      required: true,
+    },
+    tutors: {
+      type: [PayoutBatchTutorSchema],
+      default: [],
+    },
+    entryCount: { type: Number, default: 0 },
+    totalNetAmount: { type: Number, default: 0 },
+    totalCommissionAmount: { type: Number, default: 0 },
+    createdBy: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+    paidBy: {
+      type: String,
+      ref: 'User',
+    },
+    paidAt: Date,
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'payout_batches',
+  }
+);
+
+PayoutBatchSchema.index({ createdAt: -1 });
+
+// Transform output
+PayoutBatchSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const PayoutBatch = mongoose.model<IPayoutBatch>(
+  'PayoutBatch',
+  PayoutBatchSchema
+);
@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Rate Limit Hit Model
+ * Hit counter of one client key in the current rate limit window.
+ * Shared by all API instances when RATE_LIMIT_STORE=mongo.
+ */
+
+export interface IRateLimitHit extends Document {
+  _id: string; // "<policy prefix><client key>"
+  hits: number;
+  resetTime: Date; // End of the current window
+}
+
+const RateLimitHitSchema = new Schema<IRateLimitHit>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    hits: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    resetTime: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    collection: 'rate_limit_hits',
+  }
+);
+
+// Auto delete counters once their window has ended
+RateLimitHitSchema.index({ resetTime: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitHit = mongoose.model<IRateLimitHit>(
+  'RateLimitHit',
+  RateLimitHitSchema
+);
@@ -17,11 +17,37 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
       required: [true, 'User ID is required'],
       ref: 'User',
     },
+    // SHA-256 hash of the refresh token
     token: {
       type: String,
       required: [true, 'Token is required'],
       unique: true,
     },
+    family_id: {
+      type: String,
+      required: true,
+    },
+    replaced_by: {
+      type: String,
+      default: null,
+    },
+    device_name: {
+      type: String,
+      maxlength: 100,
+    },
+    ip_address: String,
+    user_agent: {
+      type: String,
+      maxlength: 500,
+    },
+    session_started_at: {
+      type: Date,
+      default: Date.now,
+    },
+    last_used_at: {
+      type: Date,
+      default: Date.now,
+    },
     expires_at: {
       type: Date,
       required: true,
@@ -31,6 +57,17 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
       type: Boolean,
       default: false,
     },
+    revoked_at: Date,
+    revoked_reason: {
+      type: String,
+      enum: [
+        'ROTATED',
+        'LOGOUT',
+        'REUSE_DETECTED',
+        'PASSWORD_RESET',
+        'SESSION_REVOKED',
+      ],
+    },
   },
   {
     timestamps: { createdAt: 'created_at', updatedAt: false },
@@ -40,7 +77,8 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
 
 // Indexes for better performance and auto-cleanup
 refreshTokenSchema.index({ user_id: 1 });
-refreshTokenSchema.index({ token: 1 });
+refreshTokenSchema.index({ family_id: 1 });
+refreshTokenSchema.index({ user_id: 1, is_revoked: 1, expires_at: 1 });
 refreshTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 }); // Auto delete expired docs
 
 export const RefreshToken = mongoose.model<IRefreshTokenDocument>(
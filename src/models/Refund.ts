@@ -0,0 +1,219 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Refund Model
+ * Money returned to a student for paid sessions that were not delivered.
+ * One refund per original Payment (a Payment may cover several sessions).
+ */
+
+export type RefundReason =
+  | 'CLASS_CANCELLED'
+  | 'TUTOR_FAULT'
+  | 'PAYMENT_CANCELLED'; // Gateway captured money for a payment no longer valid
+
+export type RefundMethod = 'VNPAY' | 'BANK_TRANSFER';
+
+export type RefundStatus =
+  | 'PENDING' // Waiting in the admin manual transfer queue
+  | 'PROCESSING' // Sent to VNPay, waiting for a result
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'REJECTED'; // Admin decided not to refund
+
+export interface IRefundSession {
+  sessionNumber: number;
+  paidAmount: number; // Installment amount the student paid
+  refundAmount: number; // Amount returned for this session
+  refundPercentage: number;
+}
+
+export interface IRefund extends Document {
+  _id: string;
+  paymentId: string;
+  paymentScheduleId: string;
+  contractId: string;
+  learningClassId: string;
+  studentId: string;
+  tutorId: string;
+
+  orderId: string; // Original Payment.orderId (vnp_TxnRef)
+  reason: RefundReason;
+  reasonDetail?: string;
+  sessionReportId?: string; // Set for TUTOR_FAULT refunds
+  requestedBy?: string; // User who cancelled the class / admin who resolved the report
+
+  sessions: IRefundSession[];
+  amount: number; // Total refund amount
+  method: RefundMethod;
+  status: RefundStatus;
+
+  // VNPay refund API result
+  gatewayRequestId?: string;
+  gatewayTransactionNo?: string;
+  gatewayResponseCode?: string;
+  gatewayMessage?: string;
+  gatewayRawResponse?: any;
+
+  // Manual bank transfer (admin queue)
+  transferReference?: string;
+  adminNote?: string;
+
+  processedBy?: string; // Admin user ID
+  processedAt?: Date;
+  failureReason?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSessionSchema = new Schema<IRefundSession>(
+  {
+    sessionNumber: { type: Number, required: true, min: 1 },
+    paidAmount: { type: Number, required: true, min: 0 },
+    refundAmount: { type: Number, required: true, min: 0 },
+    refundPercentage: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false }
+);
+
+const RefundSchema = new Schema<IRefund>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    paymentId: {
+      type: String,
+      ref: 'Payment',
+      required: true,
+      index: true,
+    },
+    paymentScheduleId: {
+      type: String,
+      ref: 'PaymentSchedule',
+      required: true,
+      index: true,
+    },
+    contractId: {
+      type: String,
+      ref: 'Contract',
+      required: true,
+    },
+    learningClassId: {
+      type: String,
+      ref: 'LearningClass',
+      required: true,
+      index: true,
+    },
+    studentId: {
+      type: String,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    tutorId: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+
+    orderId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    reason: {
+      type: String,
+      enum: ['CLASS_CANCELLED', 'TUTOR_FAULT', 'PAYMENT_CANCELLED'],
+      required: true,
+    },
+    reasonDetail: String,
+    sessionReportId: {
+      type: String,
+      ref: 'SessionReport',
+    },
+    requestedBy: {
+      type: String,
+      ref: 'User',
+    },
+
+    sessions: {
+      type: [RefundSessionSchema],
+      validate: {
+        validator: function (arr: IRefundSession[]) {
+          return arr.length > 0;
+        },
+        message: 'Phải có ít nhất một buổi học',
+      },
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    method: {
+      type: String,
+      enum: ['VNPAY', 'BANK_TRANSFER'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'REJECTED'],
+      default: 'PENDING',
+      required: true,
+      index: true,
+    },
+
+    gatewayRequestId: String,
+    gatewayTransactionNo: String,
+    gatewayResponseCode: String,
+    gatewayMessage: String,
+    gatewayRawResponse: Schema.Types.Mixed,
+
+    transferReference: {
+      type: String,
+      trim: true,
+    },
+    adminNote: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+
+    processedBy: {
+      type: String,
+      ref: 'User',
+    },
+    processedAt: Date,
+    failureReason: String,
+  },
+  {
+    timestamps: true,
+    collection: 'refunds',
+  }
+);
+
+RefundSchema.index({ status: 1, method: 1, createdAt: -1 });
+// A paid session is refunded at most once (failed / rejected refunds aside)
+RefundSchema.index(
+  { paymentId: 1, 'sessions.sessionNumber': 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: { $in: ['PENDING', 'PROCESSING', 'COMPLETED'] },
+    },
+  }
+);
+
+// Transform output
+RefundSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const Refund = mongoose.model<IRefund>('Refund', RefundSchema);
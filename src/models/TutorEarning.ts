@@ -0,0 +1,171 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Tutor Earning Model
+ * Ledger entry for one completed and paid session: what the platform owes
+ * the tutor after commission. Funds are held until the session's reporting
+ * window closes, then become available for the next payout batch.
+ */
+
+export type TutorEarningStatus =
+  | 'HELD' // Reporting window still open (or a report is pending)
+  | 'AVAILABLE' // Ready to be paid out
+  | 'IN_PAYOUT' // Included in an exported payout batch
+  | 'PAID_OUT'
+  | 'REVERSED'; // Session was refunded to the student
+
+export interface ITutorEarning extends Document {
+  _id: string;
+  tutorId: string;
+  studentId: string;
+  learningClassId: string;
+  contractId: string;
+  paymentScheduleId: string;
+  paymentId: string;
+
+  sessionNumber: number;
+  sessionDate: Date;
+  settlementMonth: string; // YYYY-MM of sessionDate (Asia/Ho_Chi_Minh)
+
+  grossAmount: number; // Installment amount paid by the student
+  commissionRate: number; // Platform commission in percent
+  commissionAmount: number;
+  netAmount: number; // Owed to the tutor
+
+  status: TutorEarningStatus;
+  holdUntil: Date;
+  releasedAt?: Date;
+  payoutBatchId?: string;
+  paidOutAt?: Date;
+  reversedAt?: Date;
+  reversalReason?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TutorEarningSchema = new Schema<ITutorEarning>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    tutorId: {
+      type: String,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    studentId: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+    learningClassId: {
+      type: String,
+      ref: 'LearningClass',
+      required: true,
+    },
+    contractId: {
+      type: String,
+      ref: 'Contract',
+      required: true,
+    },
+    paymentScheduleId: {
+      type: String,
+      ref: 'PaymentSchedule',
+      required: true,
+    },
+    paymentId: {
+      type: String,
+      ref: 'Payment',
+      required: true,
+    },
+
+    sessionNumber: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    sessionDate: {
+      type: Date,
+      required: true,
+    },
+    settlementMonth: {
+      type: String,
+      required: true,
+    },
+
+    grossAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    commissionRate: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+    },
+    commissionAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    netAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+
+    status: {
+      type: String,
+      enum: ['HELD', 'AVAILABLE', 'IN_PAYOUT', 'PAID_OUT', 'REVERSED'],
+      default: 'HELD',
+      required: true,
+      index: true,
+    },
+    holdUntil: {
+      type: Date,
+      required: true,
+    },
+    releasedAt: Date,
+    payoutBatchId: {
+      type: String,
+      ref: 'PayoutBatch',
+      index: true,
+      sparse: true,
+    },
+    paidOutAt: Date,
+    reversedAt: Date,
+    reversalReason: String,
+  },
+  {
+    timestamps: true,
+    collection: 'tutor_earnings',
+  }
+);
+
+// One ledger entry per session
+TutorEarningSchema.index(
+  { learningClassId: 1, sessionNumber: 1 },
+  { unique: true }
+);
+TutorEarningSchema.index({ tutorId: 1, settlementMonth: -1 });
+TutorEarningSchema.index({ status: 1, holdUntil: 1 });
+
+// Transform output
+TutorEarningSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const TutorEarning = mongoose.model<ITutorEarning>(
+  'TutorEarning',
+  TutorEarningSchema
+);
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Two Factor Auth Model
+ * TOTP secret and recovery codes of a user, kept out of the User document so
+ * they are never loaded by ordinary user queries. Secrets are encrypted and
+ * recovery codes hashed.
+ */
+
+export interface IRecoveryCode {
+  hash: string; // SHA-256 of the normalized code
+  used_at?: Date | null;
+}
+
+export interface ITwoFactorAuth extends Document {
+  _id: string;
+  user_id: string;
+  secret?: string; // Encrypted, set once enrolment is confirmed
+  pending_secret?: string; // Encrypted, waiting for the first valid code
+  pending_created_at?: Date;
+  recovery_codes: IRecoveryCode[];
+  last_used_step?: number; // Last accepted TOTP step, blocks code replay
+  enabled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RecoveryCodeSchema = new Schema<IRecoveryCode>(
+  {
+    hash: {
+      type: String,
+      required: true,
+    },
+    used_at: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const TwoFactorAuthSchema = new Schema<ITwoFactorAuth>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    user_id: {
+      type: String,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    secret: String,
+    pending_secret: String,
+    pending_created_at: Date,
+    recovery_codes: {
+      type: [RecoveryCodeSchema],
+      default: [],
+    },
+    last_used_step: Number,
+    enabled_at: Date,
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+    versionKey: false,
+    collection: 'two_factor_auths',
+  }
+);
+
+export const TwoFactorAuth = mongoose.model<ITwoFactorAuth>(
+  'TwoFactorAuth',
+  TwoFactorAuthSchema
+);
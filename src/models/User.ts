@@ -97,6 +97,23 @@ const userSchema = new Schema<IUserDocument>(
       default: UserStatus.PENDING_VERIFICATION,
       required: true,
     },
+    last_seen_at: {
+      type: Date,
+      default: null,
+    },
+    locked_until: {
+      type: Date,
+      default: null,
+    },
+    two_factor_enabled: {
+      type: Boolean,
+      default: false,
+    },
+    // false for accounts created through Google until a password is set
+    has_password: {
+      type: Boolean,
+      default: true,
+    },
   },
   {
     timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
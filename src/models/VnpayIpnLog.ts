@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * VNPay IPN Log Model
+ * Audit trail of every IPN (server-to-server) delivery from VNPay,
+ * including duplicates and rejected calls
+ */
+
+export type VnpayIpnOutcome =
+  | 'PROCESSED' // Payment status was updated by this delivery
+  | 'DUPLICATE' // Payment had already been confirmed
+  | 'INVALID_CHECKSUM'
+  | 'ORDER_NOT_FOUND'
+  | 'INVALID_AMOUNT'
+  | 'ERROR';
+
+export interface IVnpayIpnLog extends Document {
+  _id: string;
+  orderId?: string; // vnp_TxnRef
+  paymentId?: string;
+  transactionNo?: string; // vnp_TransactionNo
+  amount?: number; // VND (already divided by 100)
+  responseCode?: string; // vnp_ResponseCode
+  transactionStatus?: string; // vnp_TransactionStatus
+
+  // Result returned to VNPay
+  rspCode: string;
+  rspMessage: string;
+  outcome: VnpayIpnOutcome;
+
+  signatureValid: boolean;
+  paymentStatusBefore?: string;
+  paymentStatusAfter?: string;
+  errorMessage?: string;
+
+  ipAddress?: string;
+  rawQuery: any;
+  receivedAt: Date;
+  createdAt: Date;
+}
+
+const VnpayIpnLogSchema = new Schema<IVnpayIpnLog>(
+  {
+    _id: {
+      type: String,
+      default: uuidv4,
+    },
+    orderId: {
+      type: String,
+      index: true,
+    },
+    paymentId: {
+      type: String,
+      ref: 'Payment',
+      index: true,
+      sparse: true,
+    },
+    transactionNo: String,
+    amount: Number,
+    responseCode: String,
+    transactionStatus: String,
+
+    rspCode: {
+      type: String,
+      required: true,
+    },
+    rspMessage: {
+      type: String,
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: [
+        'PROCESSED',
+        'DUPLICATE',
+        'INVALID_CHECKSUM',
+        'ORDER_NOT_FOUND',
+        'INVALID_AMOUNT',
+        'ERROR',
+      ],
+      required: true,
+      index: true,
+    },
+
+    signatureValid: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    paymentStatusBefore: String,
+    paymentStatusAfter: String,
+    errorMessage: String,
+
+    ipAddress: String,
+    rawQuery: Schema.Types.Mixed,
+    receivedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'vnpay_ipn_logs',
+  }
+);
+
+VnpayIpnLogSchema.index({ orderId: 1, receivedAt: -1 });
+VnpayIpnLogSchema.index({ receivedAt: -1 });
+
+// Transform output
+VnpayIpnLogSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+export const VnpayIpnLog = mongoose.model<IVnpayIpnLog>(
+  'VnpayIpnLog',
+  VnpayIpnLogSchema
+);
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Voice Note Upload Model
+ * Audio file this server uploaded to Cloudinary for a conversation, with the
+ * size and duration reported by Cloudinary. An AUDIO message references it by
+ * its public id (_id) and can only use it once. Records are removed by a TTL
+ * index, the message keeps its own copy of the metadata.
+ */
+
+export interface IVoiceNoteUpload extends Document {
+  _id: string; // Cloudinary public_id
+  conversationId: string;
+  uploaderId: string;
+  fileUrl: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number; // Bytes, from Cloudinary
+  duration: number; // Seconds, from Cloudinary
+  used_at?: Date;
+  created_at: Date;
+}
+
+// Unsent voice notes are forgotten after a day
+const VOICE_NOTE_UPLOAD_TTL_SECONDS = 24 * 60 * 60;
+
+const VoiceNoteUploadSchema = new Schema<IVoiceNoteUpload>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    conversationId: {
+      type: String,
+      ref: 'Conversation',
+      required: true,
+    },
+    uploaderId: {
+      type: String,
+      ref: 'User',
+      required: true,
+    },
+    fileUrl: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    duration: {
+      type: Number,
+      required: true,
+    },
+    used_at: Date,
+    created_at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+    collection: 'voice_note_uploads',
+  }
+);
+
+VoiceNoteUploadSchema.index(
+  { created_at: 1 },
+  { expireAfterSeconds: VOICE_NOTE_UPLOAD_TTL_SECONDS }
+);
+
+export const VoiceNoteUpload = mongoose.model<IVoiceNoteUpload>(
+  'VoiceNoteUpload',
+  VoiceNoteUploadSchema
+);
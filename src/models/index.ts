@@ -20,6 +20,18 @@ export { Contract } from './Contract';
 export { ContractSignature } from './ContractSignature';
 export { PaymentSchedule } from './PaymentSchedule';
 export { Payment } from './Payment';
+export { VnpayIpnLog } from './VnpayIpnLog';
+export { PaymentReconciliation } from './PaymentReconciliation';
+export { Refund } from './Refund';
+export { TutorEarning } from './TutorEarning';
+export { PayoutBatch } from './PayoutBatch';
 export { Conversation } from './Conversation';
 export { Message } from './Message';
 export { ExerciseTemplate } from './ExerciseTemplate';
+export { FlaggedMessage } from './FlaggedMessage';
+export { LoginThrottle } from './LoginThrottle';
+export { AccountLockout } from './AccountLockout';
+export { TwoFactorAuth } from './TwoFactorAuth';
+export { AuthProvider } from './AuthProvider';
+export { ParentStudentLink } from './ParentStudentLink';
+export { VoiceNoteUpload } from './VoiceNoteUpload';
@@ -5,13 +5,23 @@ import {
   getPaymentDetails,
   getPaymentByOrderId,
   exportPayments,
+  getReconciliationSummaries,
+  getReconciliationSummary,
+  runReconciliation,
+  getRefunds,
+  completeRefund,
+  rejectRefund,
+  getPayoutBatches,
+  createPayoutBatch,
+  exportPayoutBatch,
+  markPayoutBatchPaid,
 } from '../controllers/admin/admin-payment.controller';
-import { authenticateToken, requireRole } from '../middlewares/auth.middleware';
+import { authenticateToken, requireAdmin } from '../middlewares/auth.middleware';
 
 const router = Router();
 
 // All routes require admin authentication
-router.use(authenticateToken, requireRole('ADMIN'));
+router.use(authenticateToken, requireAdmin);
 
 /**
  * @route   GET /api/v1/admin/payments
@@ -37,6 +47,82 @@ router.get('/stats', getPaymentStats);
  */
 router.get('/export', exportPayments);
 
+/**
+ * @route   GET /api/v1/admin/payments/reconciliation
+ * @desc    Get daily VNPay reconciliation summaries
+ * @access  Admin
+ * @query   page, limit, startDate, endDate (YYYY-MM-DD)
+ */
+router.get('/reconciliation', getReconciliationSummaries);
+
+/**
+ * @route   POST /api/v1/admin/payments/reconciliation/run
+ * @desc    Reconcile stuck PENDING payments with VNPay now
+ * @access  Admin
+ */
+router.post('/reconciliation/run', runReconciliation);
+
+/**
+ * @route   GET /api/v1/admin/payments/reconciliation/:date
+ * @desc    Get reconciliation summary of a day (YYYY-MM-DD) with processed payments
+ * @access  Admin
+ */
+router.get('/reconciliation/:date', getReconciliationSummary);
+
+/**
+ * @route   GET /api/v1/admin/payments/refunds
+ * @desc    Get refunds (PENDING = manual bank transfer queue)
+ * @access  Admin
+ * @query   page, limit, status, method, studentId, learningClassId
+ */
+router.get('/refunds', getRefunds);
+
+/**
+ * @route   POST /api/v1/admin/payments/refunds/:refundId/complete
+ * @desc    Confirm a manual bank transfer refund
+ * @access  Admin
+ * @body    transferReference, note
+ */
+router.post('/refunds/:refundId/complete', completeRefund);
+
+/**
+ * @route   POST /api/v1/admin/payments/refunds/:refundId/reject
+ * @desc    Reject a queued refund
+ * @access  Admin
+ * @body    note
+ */
+router.post('/refunds/:refundId/reject', rejectRefund);
+
+/**
+ * @route   GET /api/v1/admin/payments/payouts
+ * @desc    Get tutor payout batches
+ * @access  Admin
+ * @query   page, limit
+ */
+router.get('/payouts', getPayoutBatches);
+
+/**
+ * @route   POST /api/v1/admin/payments/payouts
+ * @desc    Create a payout batch from available tutor earnings
+ * @access  Admin
+ * @body    cutoffDate (optional), note
+ */
+router.post('/payouts', createPayoutBatch);
+
+/**
+ * @route   GET /api/v1/admin/payments/payouts/:batchId/export
+ * @desc    Export a payout batch to CSV
+ * @access  Admin
+ */
+router.get('/payouts/:batchId/export', exportPayoutBatch);
+
+/**
+ * @route   POST /api/v1/admin/payments/payouts/:batchId/paid
+ * @desc    Mark a payout batch as transferred
+ * @access  Admin
+ */
+router.post('/payouts/:batchId/paid', markPayoutBatchPaid);
+
 /**
  * @route   GET /api/v1/admin/payments/order/:orderId
  * @desc    Get payment by orderId
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { AdminModerationController } from '../../controllers/admin/admin-moderation.controller';
+import {
+  authenticateToken,
+  requireAdmin,
+} from '../../middlewares/auth.middleware';
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from '../../middlewares/validation.middleware';
+
+const router = Router();
+
+// All admin routes require authentication and admin role
+router.use(authenticateToken);
+router.use(requireAdmin);
+
+/**
+ * Admin routes for moderating chat messages caught by the content filter
+ */
+
+// Get moderation queue
+router.get(
+  '/moderation/messages',
+  [
+    query('status').optional().isIn(['PENDING', 'CONFIRMED', 'DISMISSED']),
+    query('action').optional().isIn(['MASK', 'BLOCK', 'FLAG']),
+    query('senderId').optional().isString(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  AdminModerationController.getFlaggedMessages
+);
+
+// Get flagged message with conversation context
+router.get(
+  '/moderation/messages/:flagId',
+  [param('flagId').isString().notEmpty()],
+  handleValidationErrors,
+  AdminModerationController.getFlaggedMessage
+);
+
+// Confirm (counts as a violation) or dismiss a flagged message
+router.put(
+  '/moderation/messages/:flagId/review',
+  [
+    param('flagId').isString().notEmpty(),
+    body('decision').isIn(['CONFIRMED', 'DISMISSED']),
+    body('note').optional().isString().trim().isLength({ max: 1000 }),
+  ],
+  handleValidationErrors,
+  AdminModerationController.reviewFlaggedMessage
+);
+
+export default router;
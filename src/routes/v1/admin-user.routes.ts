@@ -21,7 +21,7 @@ router.use(requireAdmin);
 router.get(
   '/users',
   [
-    query('role').optional().isIn(['STUDENT', 'TUTOR']),
+    query('role').optional().isIn(['STUDENT', 'TUTOR', 'PARENT']),
     query('status')
       .optional()
       .isIn(['active', 'locked', 'pending_verification']),
@@ -81,7 +81,7 @@ router.put(
     body('status')
       .optional()
       .isIn(['active', 'locked', 'pending_verification']),
-    body('role').optional().isIn(['STUDENT', 'TUTOR']),
+    body('role').optional().isIn(['STUDENT', 'TUTOR', 'PARENT']),
   ],
   handleValidationErrors,
   AdminUserController.updateUserInfo
@@ -6,6 +6,7 @@ import { authenticateToken, requireRole } from '../../middlewares/auth.middlewar
 import { UserRole } from '../../types/user.types';
 import { body, query } from 'express-validator';
 import { handleValidationErrors } from '../../middlewares/validation.middleware';
+import { aiLimiter, speechLimiter } from '../../middlewares/rateLimit.middleware';
 import { surveyValidation } from '../../validators/survey.validator';
 
 const router = Router();
@@ -39,6 +40,7 @@ router.get(
   '/posts/:postId/smart-recommendations',
   authenticateToken,
   requireRole(UserRole.STUDENT),
+  aiLimiter,
   [
     query('limit')
       .optional()
@@ -72,6 +74,7 @@ router.get(
   '/tutors/:tutorId/posts/:postId/explanation',
   authenticateToken,
   requireRole(UserRole.STUDENT),
+  aiLimiter,
   SmartRecommendationController.getOnDemandExplanation
 );
 
@@ -90,6 +93,7 @@ router.get(
   '/tutor-posts/:tutorPostId/student-posts/:studentPostId/explanation',
   authenticateToken,
   requireRole(UserRole.TUTOR),
+  aiLimiter,
   SmartRecommendationController.getOnDemandStudentExplanation
 );
 
@@ -104,6 +108,7 @@ router.get(
   '/tutors/:tutorId/smart-student-posts',
   authenticateToken,
   requireRole(UserRole.TUTOR),
+  aiLimiter,
   [
     query('limit')
       .optional()
@@ -186,6 +191,7 @@ router.post(
   '/survey',
   authenticateToken,
   requireRole(UserRole.STUDENT),
+  aiLimiter,
   surveyValidation.submitSurvey(),
   handleValidationErrors,
   aiSurveyController.submitSurvey
@@ -237,6 +243,7 @@ router.get(
 router.post(
   '/explain-match',
   authenticateToken,
+  aiLimiter,
   SmartRecommendationController.generateMatchExplanation
 );
 
@@ -248,6 +255,7 @@ router.post(
 router.post(
   '/speech/transcribe',
   authenticateToken,
+  speechLimiter,
   [
     body('audioUrl')
       .notEmpty()
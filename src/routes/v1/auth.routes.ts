@@ -9,8 +9,19 @@ import {
   resetPasswordValidator,
   refreshTokenValidator,
   logoutValidator,
+  sessionIdValidator,
+  twoFactorCodeValidator,
+  twoFactorLoginValidator,
+  disableTwoFactorValidator,
+  googleIdTokenValidator,
+  googleLoginValidator,
+  googleLinkValidator,
 } from '../../validators';
-import { handleValidationErrors } from '../../middlewares';
+import { authenticateToken, handleValidationErrors } from '../../middlewares';
+import {
+  loginLimiter,
+  emailOtpLimiter,
+} from '../../middlewares/rateLimit.middleware';
 
 const router = Router();
 
@@ -21,6 +32,7 @@ const router = Router();
  */
 router.post(
   '/register',
+  emailOtpLimiter,
   registerValidator,
   handleValidationErrors,
   authController.register
@@ -33,6 +45,7 @@ router.post(
  */
 router.post(
   '/login',
+  loginLimiter,
   loginValidator,
   handleValidationErrors,
   authController.login
@@ -57,6 +70,7 @@ router.post(
  */
 router.post(
   '/resend-otp',
+  emailOtpLimiter,
   resendOTPValidator,
   handleValidationErrors,
   authController.resendOTP
@@ -81,6 +95,7 @@ router.post(
  */
 router.post(
   '/forgot-password',
+  emailOtpLimiter,
   forgotPasswordValidator,
   handleValidationErrors,
   authController.forgotPassword
@@ -98,6 +113,71 @@ router.post(
   authController.resetPassword
 );
 
+/**
+ * @route   POST /api/v1/auth/google
+ * @desc    Sign in / sign up with a Google ID token
+ * @access  Public
+ */
+router.post(
+  '/google',
+  loginLimiter,
+  googleLoginValidator,
+  handleValidationErrors,
+  authController.googleLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/google/link
+ * @desc    Link Google to an existing account (password confirmation)
+ * @access  Public
+ */
+router.post(
+  '/google/link',
+  loginLimiter,
+  googleLinkValidator,
+  handleValidationErrors,
+  authController.linkGoogleWithPassword
+);
+
+/**
+ * @route   POST /api/v1/auth/login/2fa
+ * @desc    Second login step: TOTP or recovery code for the challenge token
+ * @access  Public
+ */
+router.post(
+  '/login/2fa',
+  loginLimiter,
+  twoFactorLoginValidator,
+  handleValidationErrors,
+  authController.verifyTwoFactorLogin
+);
+
+/**
+ * @route   POST /api/v1/auth/unlock-account/request
+ * @desc    Send OTP to unlock an account locked after failed logins
+ * @access  Public
+ */
+router.post(
+  '/unlock-account/request',
+  emailOtpLimiter,
+  resendOTPValidator, // Only needs email
+  handleValidationErrors,
+  authController.requestAccountUnlock
+);
+
+/**
+ * @route   POST /api/v1/auth/unlock-account/verify
+ * @desc    Unlock account with OTP
+ * @access  Public
+ */
+router.post(
+  '/unlock-account/verify',
+  loginLimiter,
+  verifyOTPValidator,
+  handleValidationErrors,
+  authController.verifyAccountUnlock
+);
+
 /**
  * @route   POST /api/v1/auth/refresh-token
  * @desc    Refresh access token
@@ -122,4 +202,119 @@ router.post(
   authController.logout
 );
 
+/**
+ * @route   GET /api/v1/auth/sessions
+ * @desc    List active sessions (devices) of the current user
+ * @access  Private
+ */
+router.get('/sessions', authenticateToken, authController.getSessions);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions
+ * @desc    Sign out every other device
+ * @access  Private
+ */
+router.delete(
+  '/sessions',
+  authenticateToken,
+  authController.revokeOtherSessions
+);
+
+/**
+ * @route   DELETE /api/v1/auth/sessions/:sessionId
+ * @desc    Sign out one device
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticateToken,
+  sessionIdValidator,
+  handleValidationErrors,
+  authController.revokeSession
+);
+
+/**
+ * @route   GET /api/v1/auth/providers
+ * @desc    Sign-in methods (password, linked Google account)
+ * @access  Private
+ */
+router.get('/providers', authenticateToken, authController.getAuthProviders);
+
+/**
+ * @route   POST /api/v1/auth/providers/google
+ * @desc    Link a Google account from settings
+ * @access  Private
+ */
+router.post(
+  '/providers/google',
+  authenticateToken,
+  googleIdTokenValidator,
+  handleValidationErrors,
+  authController.linkGoogleProvider
+);
+
+/**
+ * @route   DELETE /api/v1/auth/providers/google
+ * @desc    Unlink the Google account
+ * @access  Private
+ */
+router.delete(
+  '/providers/google',
+  authenticateToken,
+  authController.unlinkGoogleProvider
+);
+
+/**
+ * @route   GET /api/v1/auth/2fa
+ * @desc    Two-factor authentication status of the current user
+ * @access  Private
+ */
+router.get('/2fa', authenticateToken, authController.getTwoFactorStatus);
+
+/**
+ * @route   POST /api/v1/auth/2fa/setup
+ * @desc    Start enrolment: new TOTP secret and otpauth URI
+ * @access  Private
+ */
+router.post('/2fa/setup', authenticateToken, authController.setupTwoFactor);
+
+/**
+ * @route   POST /api/v1/auth/2fa/enable
+ * @desc    Confirm enrolment with the first code, returns recovery codes
+ * @access  Private
+ */
+router.post(
+  '/2fa/enable',
+  authenticateToken,
+  twoFactorCodeValidator,
+  handleValidationErrors,
+  authController.enableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/disable
+ * @desc    Turn two-factor authentication off (password + code)
+ * @access  Private
+ */
+router.post(
+  '/2fa/disable',
+  authenticateToken,
+  disableTwoFactorValidator,
+  handleValidationErrors,
+  authController.disableTwoFactor
+);
+
+/**
+ * @route   POST /api/v1/auth/2fa/recovery-codes
+ * @desc    Replace all recovery codes
+ * @access  Private
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticateToken,
+  twoFactorCodeValidator,
+  handleValidationErrors,
+  authController.regenerateRecoveryCodes
+);
+
 export { router as authRoutes };
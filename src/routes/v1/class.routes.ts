@@ -197,6 +197,37 @@ router.post(
   ClassController.respondToCancellationRequest
 );
 
+// Override the proposed slot of a make-up session (tutor only)
+router.patch(
+  '/:classId/sessions/:sessionNumber/make-up',
+  requireTutorRole,
+  validateClass.requestReschedule,
+  handleValidationErrors,
+  ClassController.updateMakeUpSession
+);
+
+// Request to reschedule session (both tutor and student)
+router.post(
+  '/:classId/sessions/:sessionNumber/reschedule',
+  validateClass.requestReschedule,
+  handleValidationErrors,
+  ClassController.requestRescheduleSession
+);
+
+// Respond to reschedule request (the other party)
+router.post(
+  '/:classId/sessions/:sessionNumber/reschedule/respond',
+  validateClass.respondReschedule,
+  handleValidationErrors,
+  ClassController.respondToRescheduleRequest
+);
+
+// Withdraw own pending reschedule request
+router.delete(
+  '/:classId/sessions/:sessionNumber/reschedule',
+  ClassController.withdrawRescheduleRequest
+);
+
 // Add reviews
 router.post(
   '/:classId/student-review',
@@ -74,6 +74,26 @@ router.post(
 );
 
 // Shared routes
+// Negotiation thread: successive offers from tutor and student
+router.get(
+  '/:requestId/offers',
+  ContactRequestController.getOffers
+);
+
+router.post(
+  '/:requestId/offers',
+  validateContactRequest.submitOffer,
+  handleValidationErrors,
+  ContactRequestController.submitOffer
+);
+
+router.put(
+  '/:requestId/offers/:offerNumber/respond',
+  validateContactRequest.respondToOffer,
+  handleValidationErrors,
+  ContactRequestController.respondToOffer
+);
+
 router.get(
   '/:requestId',
   ContactRequestController.getRequestDetail
@@ -5,10 +5,22 @@ import { tutorMiddleware } from '../../middlewares/tutor.middleware';
 import { studentMiddleware } from '../../middlewares/student.middleware';
 import { validateContract } from '../../validators/contract.validator';
 import { validationMiddleware } from '../../middlewares/validation.middleware';
+import { contractVerifyLimiter } from '../../middlewares/rateLimit.middleware';
 
 const router = express.Router();
 const contractController = new ContractController();
 
+// ==================== PUBLIC VERIFICATION ====================
+
+// Verify a printed contract by code or hash (no authentication)
+router.get(
+  '/verify',
+  contractVerifyLimiter,
+  ...validateContract.verifyContractPublic,
+  validationMiddleware,
+  contractController.verifyContractPublic
+);
+
 // All contract routes require authentication
 router.use(authMiddleware);
 
@@ -80,6 +92,25 @@ router.put(
   contractController.cancelContract
 );
 
+// ==================== CONTRACT AMENDMENTS ====================
+
+// Propose an amendment of a signed contract (both tutor and student)
+router.post(
+  '/:contractId/amendments',
+  ...validateContract.proposeAmendment,
+  validationMiddleware,
+  contractController.proposeAmendment
+);
+
+// Get all versions of a contract
+router.get(
+  '/:contractId/amendments',
+  contractController.getAmendmentHistory
+);
+
+// Get changes of an amendment compared to the previous version
+router.get('/:contractId/diff', contractController.getContractDiff);
+
 // ==================== PAYMENT MANAGEMENT ====================
 
 // Get payment schedule for contract
@@ -140,6 +171,12 @@ router.post(
 // Get contract audit trail (signature records)
 router.get('/:id/audit-trail', contractController.getContractAuditTrail);
 
+// Download signed contract as PDF
+router.get('/:id/document.pdf', contractController.downloadContractPdf);
+
+// Re-check contract content against its signed hash
+router.get('/:id/integrity', contractController.verifyContractIntegrity);
+
 // ==================== ADMIN ROUTES ====================
 
 // Get all contracts (Admin only)
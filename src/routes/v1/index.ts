@@ -22,7 +22,9 @@ import { paymentRoutes } from './payment.routes';
 import sessionReportRoutes from './sessionReport.routes';
 import adminSessionReportRoutes from './admin-sessionReport.routes';
 import adminUserRoutes from './admin-user.routes';
+import adminModerationRoutes from './admin-moderation.routes';
 import adminPaymentRoutes from '../admin-payment.routes';
+import parentRoutes from './parent.routes';
 
 const router = express.Router();
 
@@ -43,6 +45,7 @@ router.use('/tutor', tutorQualificationRoutes);
 router.use('/admin', adminVerificationRoutes);
 router.use('/admin', adminSessionReportRoutes);
 router.use('/admin', adminUserRoutes);
+router.use('/admin', adminModerationRoutes);
 router.use('/admin/payments', adminPaymentRoutes);
 
 // Post routes
@@ -87,4 +90,7 @@ router.use('/payments', paymentRoutes);
 // Session report routes
 router.use('/session-reports', sessionReportRoutes);
 
+// Parent / guardian routes
+router.use('/parents', parentRoutes);
+
 export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { MessageController } from '../../controllers/message/message.controller';
 import { authenticateToken } from '../../middlewares/auth.middleware';
 import { uploadAny } from '../../config/cloudinary';
@@ -32,12 +32,22 @@ const sendMessageValidation = [
     .withMessage('Nội dung tin nhắn không được vượt quá 2000 ký tự'),
   body('messageType')
     .optional()
-    .isIn(['text', 'image', 'file', 'TEXT', 'IMAGE', 'FILE'])
+    .isIn(['text', 'image', 'file', 'audio', 'TEXT', 'IMAGE', 'FILE', 'AUDIO'])
     .withMessage('Loại tin nhắn không hợp lệ'),
   body('fileMetadata')
     .optional()
     .isObject()
     .withMessage('Metadata file không hợp lệ'),
+  body('voiceNoteId')
+    .optional()
+    .isString()
+    .isLength({ max: 255 })
+    .withMessage('Voice note ID không hợp lệ'),
+  body('transcribe')
+    .optional()
+    .isBoolean()
+    .withMessage('transcribe phải là true hoặc false')
+    .toBoolean(),
   body('replyTo.messageId')
     .optional()
     .isUUID(4)
@@ -48,6 +58,63 @@ const conversationIdValidation = [
   param('conversationId').isUUID(4).withMessage('Conversation ID không hợp lệ'),
 ];
 
+const getMessagesValidation = [
+  param('conversationId').isUUID(4).withMessage('Conversation ID không hợp lệ'),
+  query('before')
+    .optional()
+    .isUUID(4)
+    .withMessage('Message ID không hợp lệ'),
+  query('after').optional().isUUID(4).withMessage('Message ID không hợp lệ'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit phải từ 1 đến 100'),
+];
+
+const searchMessagesValidation = [
+  query('q')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Từ khóa tìm kiếm phải có từ 2 đến 100 ký tự'),
+  query('conversationId')
+    .optional()
+    .isUUID(4)
+    .withMessage('Conversation ID không hợp lệ'),
+  query('before')
+    .optional()
+    .isUUID(4)
+    .withMessage('Message ID không hợp lệ'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit phải từ 1 đến 50'),
+];
+
+const messageIdValidation = [
+  param('conversationId').isUUID(4).withMessage('Conversation ID không hợp lệ'),
+  param('messageId').isUUID(4).withMessage('Message ID không hợp lệ'),
+];
+
+const editMessageValidation = [
+  ...messageIdValidation,
+  body('content')
+    .trim()
+    .notEmpty()
+    .withMessage('Nội dung tin nhắn là bắt buộc')
+    .isLength({ max: 2000 })
+    .withMessage('Nội dung tin nhắn không được vượt quá 2000 ký tự'),
+];
+
+const reactionValidation = [
+  ...messageIdValidation,
+  body('emoji')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 16 })
+    .matches(/\p{Extended_Pictographic}/u)
+    .withMessage('Cảm xúc không hợp lệ'),
+];
+
 const contactRequestIdValidation = [
   param('contactRequestId')
     .isUUID(4)
@@ -79,14 +146,62 @@ router.post(
   MessageController.sendMessage
 );
 
-// Get messages in conversation
+// Get messages in conversation (page or cursor: ?before=/?after=<messageId>)
 router.get(
   '/conversations/:conversationId/messages',
   authenticateToken,
-  conversationIdValidation,
+  getMessagesValidation,
   MessageController.getMessages
 );
 
+// Edit own message (within the edit window)
+router.patch(
+  '/conversations/:conversationId/messages/:messageId',
+  authenticateToken,
+  editMessageValidation,
+  MessageController.editMessage
+);
+
+// Delete own message for everyone (within the edit window)
+router.delete(
+  '/conversations/:conversationId/messages/:messageId',
+  authenticateToken,
+  messageIdValidation,
+  MessageController.deleteMessage
+);
+
+// Mark message (and every earlier unread one) as read
+router.patch(
+  '/conversations/:conversationId/messages/:messageId/read',
+  authenticateToken,
+  messageIdValidation,
+  MessageController.markMessageAsRead
+);
+
+// Add or replace own reaction
+router.put(
+  '/conversations/:conversationId/messages/:messageId/reactions',
+  authenticateToken,
+  reactionValidation,
+  MessageController.reactToMessage
+);
+
+// Remove own reaction
+router.delete(
+  '/conversations/:conversationId/messages/:messageId/reactions',
+  authenticateToken,
+  messageIdValidation,
+  MessageController.removeReaction
+);
+
+// Search messages across user's conversations
+router.get(
+  '/search',
+  authenticateToken,
+  searchMessagesValidation,
+  MessageController.searchMessages
+);
+
 // Get user's conversations
 router.get(
   '/conversations',
@@ -125,7 +240,7 @@ router.get(
   MessageController.getConversationByContactRequest
 );
 
-// Upload chat attachment (Cloudinary)
+// Upload chat attachment (Cloudinary), audio files are stored as voice notes
 router.post(
   '/conversations/:conversationId/attachments',
   authenticateToken,
@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { ParentController } from '../../controllers/parent/parent.controller';
+import { authenticateToken } from '../../middlewares/auth.middleware';
+import { requireParentRole } from '../../middlewares/parent.middleware';
+import { requireStudentRole } from '../../middlewares/student.middleware';
+import { handleValidationErrors } from '../../middlewares/validation.middleware';
+import { validateParent } from '../../validators/parent.validator';
+import { validatePayment } from '../../validators/payment.validator';
+
+const router = Router();
+
+/**
+ * Parent / guardian routes
+ * Base path: /api/v1/parents
+ */
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// ==================== STUDENT SIDE ====================
+
+// Parents and pending invitations of the student
+router.get(
+  '/invitations',
+  requireStudentRole,
+  ParentController.getStudentInvitations
+);
+
+// Accept or decline an invitation
+router.patch(
+  '/invitations/:linkId',
+  requireStudentRole,
+  validateParent.respondToInvitation,
+  handleValidationErrors,
+  ParentController.respondToInvitation
+);
+
+// Remove a link (parent or student), or cancel a pending invitation
+router.delete(
+  '/links/:linkId',
+  validateParent.linkId,
+  handleValidationErrors,
+  ParentController.revokeLink
+);
+
+// ==================== PARENT SIDE ====================
+
+// Invite a student by email
+router.post(
+  '/children/invitations',
+  requireParentRole,
+  validateParent.inviteStudent,
+  handleValidationErrors,
+  ParentController.inviteStudent
+);
+
+// Linked children and pending invitations
+router.get('/children', requireParentRole, ParentController.getChildren);
+
+// Read-only views of a linked child
+router.get(
+  '/children/:studentId/classes',
+  requireParentRole,
+  validateParent.studentId,
+  handleValidationErrors,
+  ParentController.getChildClasses
+);
+
+router.get(
+  '/children/:studentId/classes/:classId/schedule',
+  requireParentRole,
+  validateParent.studentId,
+  validateParent.classId,
+  handleValidationErrors,
+  ParentController.getChildClassSchedule
+);
+
+router.get(
+  '/children/:studentId/assignments',
+  requireParentRole,
+  validateParent.studentId,
+  handleValidationErrors,
+  ParentController.getChildAssignments
+);
+
+router.get(
+  '/children/:studentId/payment-schedules',
+  requireParentRole,
+  validateParent.studentId,
+  validateParent.paymentSchedules,
+  handleValidationErrors,
+  ParentController.getChildPaymentSchedules
+);
+
+// Paying installments on the child's behalf
+router.get(
+  '/children/:studentId/classes/:classId/available-sessions',
+  requireParentRole,
+  validateParent.studentId,
+  validateParent.classId,
+  handleValidationErrors,
+  ParentController.getChildAvailableSessions
+);
+
+router.post(
+  '/children/:studentId/payments/initiate',
+  requireParentRole,
+  validateParent.studentId,
+  ...validatePayment.initiatePayment,
+  handleValidationErrors,
+  ParentController.initiateChildPayment
+);
+
+export default router;
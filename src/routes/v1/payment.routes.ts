@@ -2,6 +2,7 @@ import express from 'express';
 import { paymentController } from '../../controllers/paymentSchedule/payment.controller';
 import { authenticateToken } from '../../middlewares/auth.middleware';
 import { studentMiddleware } from '../../middlewares/student.middleware';
+import { requireTutorRole } from '../../middlewares/tutor.middleware';
 import { validatePayment } from '../../validators/payment.validator';
 import { validationMiddleware } from '../../middlewares/validation.middleware';
 
@@ -33,6 +34,13 @@ router.post(
  */
 router.get('/vnpay/return', paymentController.vnpayReturn);
 
+/**
+ * @route GET /api/v1/payments/vnpay/ipn
+ * @desc VNPay IPN (server-to-server payment confirmation, no auth required)
+ * @access Public (called by VNPay, secured by vnp_SecureHash)
+ */
+router.get('/vnpay/ipn', paymentController.vnpayIpn);
+
 /**
  * @route GET /api/v1/payments/history
  * @desc Get student's payment history
@@ -48,6 +56,46 @@ router.get(
   paymentController.getPaymentHistory
 );
 
+/**
+ * @route GET /api/v1/payments/tutor/earnings
+ * @desc Get tutor's earnings ledger (held / available / paid out)
+ * @access Tutor only
+ */
+router.get(
+  '/tutor/earnings',
+  authenticateToken,
+  requireTutorRole,
+  ...validatePayment.getTutorEarnings,
+  validationMiddleware,
+  paymentController.getTutorEarnings
+);
+
+/**
+ * @route GET /api/v1/payments/tutor/earnings/statements
+ * @desc Get tutor's monthly settlement statements
+ * @access Tutor only
+ */
+router.get(
+  '/tutor/earnings/statements',
+  authenticateToken,
+  requireTutorRole,
+  paymentController.getSettlementStatements
+);
+
+/**
+ * @route GET /api/v1/payments/tutor/earnings/statements/:month
+ * @desc Get tutor's settlement statement of a month (YYYY-MM)
+ * @access Tutor only
+ */
+router.get(
+  '/tutor/earnings/statements/:month',
+  authenticateToken,
+  requireTutorRole,
+  ...validatePayment.getSettlementStatement,
+  validationMiddleware,
+  paymentController.getSettlementStatement
+);
+
 /**
  * @route GET /api/v1/payments/classes/:learningClassId/available-sessions
  * @desc Get available sessions for payment
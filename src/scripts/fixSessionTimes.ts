@@ -1,6 +1,12 @@
 import mongoose from 'mongoose';
 import { LearningClass } from '../models/LearningClass';
 import { logger } from '../utils/logger';
+import {
+  getZonedParts,
+  parseTimeOfDay,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../utils/timezone';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -26,18 +32,24 @@ async function fixSessionTimes() {
     let totalSessions = 0;
 
     for (const learningClass of classes) {
-      const [startHour, startMinute] = learningClass.schedule.startTime.split(':').map(Number);
+      const timeZone = resolveTimezone(learningClass.schedule.timezone);
+      const { hour: startHour, minute: startMinute } = parseTimeOfDay(
+        learningClass.schedule.startTime
+      );
       let hasChanges = false;
 
       for (const session of learningClass.sessions) {
         totalSessions++;
         
-        const sessionDate = new Date(session.scheduledDate);
+        const local = getZonedParts(new Date(session.scheduledDate), timeZone);
         
-        // Check if time is midnight (00:00:00) - likely needs fixing
-        if (sessionDate.getHours() === 0 && sessionDate.getMinutes() === 0 && sessionDate.getSeconds() === 0) {
-          // Set correct time from schedule
-          sessionDate.setHours(startHour, startMinute, 0, 0);
+        // Check if time is midnight (00:00:00) in the class timezone - likely needs fixing
+        if (local.hour === 0 && local.minute === 0 && local.second === 0) {
+          // Set correct time from schedule, interpreted in the class timezone
+          const sessionDate = zonedTimeToUtc(
+            { ...local, hour: startHour, minute: startMinute, second: 0 },
+            timeZone
+          );
           session.scheduledDate = sessionDate;
           hasChanges = true;
           
@@ -1,22 +1,44 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
 import { User, OTP, RefreshToken } from '../../models';
+import { IRefreshTokenDocument } from '../../models/RefreshToken';
+import { IUserDocument } from '../../models/User';
 import { emailService } from '../email';
+import { loginProtectionService } from './loginProtection.service';
+import { twoFactorService } from './twoFactor.service';
+import { sessionStatusService } from './sessionStatus.service';
+import { googleAuthService, IGoogleProfile } from './googleAuth.service';
 import {
   IUserInput,
   IUserResponse,
+  UserRole,
   UserStatus,
+  IGoogleLoginInput,
+  IGoogleLinkInput,
   ILoginInput,
   ILoginResponse,
+  ITwoFactorChallengeResponse,
+  ITwoFactorLoginInput,
   ITokenResponse,
   OTPType,
   IForgotPasswordInput,
   IResetPasswordInput,
   IRefreshTokenInput,
+  IDeviceInfo,
+  ISessionResponse,
+  RefreshTokenRevokeReason,
 } from '../../types';
 import { logger } from '../../utils/logger';
 
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two_factor_login';
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const GOOGLE_LINK_PURPOSE = 'google_link';
+const GOOGLE_LINK_TTL_SECONDS = 10 * 60;
+const UNLOCK_OTP_MAX_ATTEMPTS = 5;
+const GOOGLE_SIGNUP_ROLES = [UserRole.STUDENT, UserRole.TUTOR, UserRole.PARENT];
+
 export interface RegisterResponse {
   success: boolean;
   message: string;
@@ -31,14 +53,19 @@ export interface VerifyOTPResponse {
   message: string;
   data?: {
     user: IUserResponse;
-    token: string;
+    token: string; // Access token (same as tokens.access_token)
+    tokens: ITokenResponse;
   };
 }
 
 export interface LoginResponse {
   success: boolean;
   message: string;
-  data?: ILoginResponse;
+  data?: ILoginResponse | ITwoFactorChallengeResponse;
+  locked?: boolean; // Account temporarily locked after failed logins
+  retryAfter?: number; // Seconds before the next attempt is allowed
+  roleRequired?: boolean; // Google sign-up needs a role first
+  googleLink?: { link_token: string; email: string }; // Confirm with password
 }
 
 export interface ForgotPasswordResponse {
@@ -61,6 +88,12 @@ export interface RefreshTokenResponse {
   data?: ITokenResponse;
 }
 
+export interface SessionsResponse {
+  success: boolean;
+  message: string;
+  data?: ISessionResponse[];
+}
+
 export interface OTPStatusResponse {
   success: boolean;
   message: string;
@@ -82,8 +115,12 @@ class AuthService {
     return bcrypt.hash(password, saltRounds);
   }
 
-  private generateJWT(userId: string, email: string): string {
-    const payload = { userId, email };
+  private generateJWT(
+    userId: string,
+    email: string,
+    sessionId: string
+  ): string {
+    const payload = { userId, email, sid: sessionId };
     const secret = process.env.JWT_SECRET || 'your-secret-key';
     const expiresIn = process.env.JWT_EXPIRE || '15m'; // Shorter access token
 
@@ -94,17 +131,37 @@ class AuthService {
     return crypto.randomBytes(64).toString('hex');
   }
 
+  // Only the hash is stored, a database leak does not expose usable tokens
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issue an access token and a refresh token for a session (token family).
+   * Without `session` a new session is started (login).
+   */
   private async createTokens(
     userId: string,
-    email: string
+    email: string,
+    device: IDeviceInfo = {},
+    session?: { tokenId: string; familyId: string; startedAt: Date }
   ): Promise<ITokenResponse> {
-    const accessToken = this.generateJWT(userId, email);
+    const familyId = session?.familyId || uuidv4();
+    const accessToken = this.generateJWT(userId, email, familyId);
     const refreshToken = this.generateRefreshToken();
+    const now = new Date();
 
     // Save refresh token to database
     const refreshTokenDoc = new RefreshToken({
+      ...(session ? { _id: session.tokenId } : {}),
       user_id: userId,
-      token: refreshToken,
+      token: this.hashToken(refreshToken),
+      family_id: familyId,
+      device_name: device.device_name,
+      ip_address: device.ip_address,
+      user_agent: device.user_agent,
+      session_started_at: session?.startedAt || now,
+      last_used_at: now,
       expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
     });
 
@@ -114,6 +171,40 @@ class AuthService {
       access_token: accessToken,
       refresh_token: refreshToken,
       expires_in: 15 * 60, // 15 minutes in seconds
+      session_id: familyId,
+    };
+  }
+
+  private async revokeTokens(
+    filter: Record<string, unknown>,
+    reason: RefreshTokenRevokeReason
+  ): Promise<number> {
+    const activeFilter = { ...filter, is_revoked: false };
+    const sessionIds: string[] = await RefreshToken.distinct(
+      'family_id',
+      activeFilter
+    );
+    const result = await RefreshToken.updateMany(activeFilter, {
+      is_revoked: true,
+      revoked_at: new Date(),
+      revoked_reason: reason,
+    });
+
+    // Access tokens of these sessions stop working right away (this process)
+    sessionStatusService.invalidate(sessionIds);
+    return result.modifiedCount;
+  }
+
+  private formatWait(seconds: number): string {
+    return seconds < 60 ? `${seconds} giây` : `${Math.ceil(seconds / 60)} phút`;
+  }
+
+  private lockedResponse(retryAfter: number): LoginResponse {
+    return {
+      success: false,
+      message: `Tài khoản tạm thời bị khóa do nhập sai mật khẩu quá nhiều lần. Vui lòng thử lại sau ${this.formatWait(retryAfter)} hoặc mở khóa qua email.`,
+      locked: true,
+      retryAfter,
     };
   }
 
@@ -230,7 +321,11 @@ class AuthService {
     }
   }
 
-  async verifyOTP(email: string, otpCode: string): Promise<VerifyOTPResponse> {
+  async verifyOTP(
+    email: string,
+    otpCode: string,
+    device: IDeviceInfo = {}
+  ): Promise<VerifyOTPResponse> {
     try {
       // Find valid OTP
       const otpRecord = await OTP.findOne({
@@ -265,8 +360,8 @@ class AuthService {
       otpRecord.is_used = true;
       await otpRecord.save();
 
-      // Generate JWT token
-      const token = this.generateJWT(user._id, user.email);
+      // Start a device session, its access token can be revoked like a login
+      const tokens = await this.createTokens(user._id, user.email, device);
 
       // Prepare user response
       const userResponse: IUserResponse = {
@@ -288,7 +383,8 @@ class AuthService {
         message: 'Xác thực thành công',
         data: {
           user: userResponse,
-          token,
+          token: tokens.access_token,
+          tokens,
         },
       };
     } catch (error) {
@@ -444,13 +540,29 @@ class AuthService {
     }
   }
 
-  async login(loginData: ILoginInput): Promise<LoginResponse> {
+  async login(
+    loginData: ILoginInput,
+    device: IDeviceInfo = {}
+  ): Promise<LoginResponse> {
     try {
       const { email, password } = loginData;
 
+      // Backoff per client IP, also covers guessing across many emails
+      const ipRetryAfter = await loginProtectionService.getRetryAfter(
+        device.ip_address
+      );
+      if (ipRetryAfter > 0) {
+        return {
+          success: false,
+          message: `Bạn đã đăng nhập sai quá nhiều lần. Vui lòng thử lại sau ${this.formatWait(ipRetryAfter)}.`,
+          retryAfter: ipRetryAfter,
+        };
+      }
+
       // Find user by email
       const user = await User.findOne({ email });
       if (!user) {
+        await loginProtectionService.recordFailure(null, device);
         return {
           success: false,
           message: 'Email hoặc mật khẩu không chính xác',
@@ -473,57 +585,429 @@ class AuthService {
         }
       }
 
+      // Automatic lock and per-account backoff, password is not even checked
+      const throttled = await this.checkAccountThrottle(user);
+      if (throttled) {
+        return throttled;
+      }
+
       // Verify password
       const isPasswordValid = await this.comparePassword(
         password,
         user.password_hash
       );
       if (!isPasswordValid) {
+        const failure = await loginProtectionService.recordFailure(
+          user,
+          device
+        );
+        if (failure.locked) {
+          return this.lockedResponse(failure.retryAfterSeconds);
+        }
         return {
           success: false,
           message: 'Email hoặc mật khẩu không chính xác',
+          retryAfter: failure.retryAfterSeconds || undefined,
         };
       }
 
-      // Revoke old refresh tokens (optional - for security)
-      await RefreshToken.updateMany(
-        { user_id: user._id, is_revoked: false },
-        { is_revoked: true }
-      );
+      // Second step: tokens are only issued after the TOTP / recovery code
+      if (user.two_factor_enabled) {
+        logger.info(`Two-factor challenge issued: ${email}`);
+        return {
+          success: true,
+          message: 'Vui lòng nhập mã xác thực hai lớp để hoàn tất đăng nhập',
+          data: this.createTwoFactorChallenge(user._id),
+        };
+      }
 
-      // Generate tokens
-      const tokens = await this.createTokens(user._id, user.email);
+      return await this.completeLogin(user, device);
+    } catch (error) {
+      logger.error('Login failed:', error);
+      return {
+        success: false,
+        message: 'Đăng nhập thất bại. Vui lòng thử lại sau.',
+      };
+    }
+  }
 
-      // Prepare user response
-      const userResponse: IUserResponse = {
-        id: user._id,
-        full_name: user.full_name,
-        email: user.email,
-        phone_number: user.phone_number,
-        avatar_url: user.avatar_url,
-        role: user.role,
-        status: user.status,
-        created_at: user.created_at!,
-        updated_at: user.updated_at!,
+  /**
+   * Second login step for accounts with two-factor authentication
+   */
+  async verifyTwoFactorLogin(
+    input: ITwoFactorLoginInput,
+    device: IDeviceInfo = {}
+  ): Promise<LoginResponse> {
+    try {
+      let userId: string;
+      try {
+        const decoded = jwt.verify(
+          input.challenge_token,
+          process.env.JWT_SECRET || 'your-secret-key'
+        ) as jwt.JwtPayload;
+        if (decoded.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE || !decoded.sub) {
+          throw new Error('Not a two-factor challenge');
+        }
+        userId = decoded.sub;
+      } catch {
+        return {
+          success: false,
+          message: 'Phiên xác thực đã hết hạn. Vui lòng đăng nhập lại.',
+        };
+      }
+
+      const user = await User.findById(userId);
+      if (!user || user.status !== UserStatus.ACTIVE) {
+        return {
+          success: false,
+          message: 'Phiên xác thực đã hết hạn. Vui lòng đăng nhập lại.',
+        };
+      }
+
+      // Wrong codes count as failed logins: same backoff and lockout
+      const throttled = await this.checkAccountThrottle(user);
+      if (throttled) {
+        return throttled;
+      }
+
+      const verification = await twoFactorService.verifyCode(
+        user._id,
+        input.code
+      );
+      if (!verification.valid) {
+        const failure = await loginProtectionService.recordFailure(
+          user,
+          device
+        );
+        if (failure.locked) {
+          return this.lockedResponse(failure.retryAfterSeconds);
+        }
+        return {
+          success: false,
+          message: 'Mã xác thực không chính xác',
+          retryAfter: failure.retryAfterSeconds || undefined,
+        };
+      }
+
+      const result = await this.completeLogin(user, device);
+      if (verification.method === 'RECOVERY_CODE') {
+        result.message = `Đăng nhập thành công bằng mã khôi phục. Bạn còn ${verification.recovery_codes_remaining} mã khôi phục.`;
+      }
+      return result;
+    } catch (error) {
+      logger.error('Two-factor login failed:', error);
+      return {
+        success: false,
+        message: 'Đăng nhập thất bại. Vui lòng thử lại sau.',
       };
+    }
+  }
 
-      logger.info(`User logged in successfully: ${email}`);
+  /**
+   * Sign in with Google: linked account, new (already verified) account, or
+   * a link token when the email already belongs to a password account
+   */
+  async loginWithGoogle(
+    input: IGoogleLoginInput,
+    device: IDeviceInfo = {}
+  ): Promise<LoginResponse> {
+    try {
+      const profile = await googleAuthService.verifyIdToken(input.id_token);
+      if (!profile) {
+        return {
+          success: false,
+          message: 'Xác thực Google thất bại. Vui lòng thử lại.',
+        };
+      }
+
+      let user = await googleAuthService.findLinkedUser(profile.sub);
+
+      if (!user) {
+        const existingUser = await User.findOne({ email: profile.email });
 
+        // Never link silently: the owner must prove the password first
+        if (existingUser?.status === UserStatus.ACTIVE) {
+          return {
+            success: false,
+            message:
+              'Email này đã được đăng ký. Vui lòng nhập mật khẩu để liên kết tài khoản Google.',
+            googleLink: {
+              link_token: this.createGoogleLinkToken(existingUser._id, profile),
+              email: profile.email,
+            },
+          };
+        }
+        if (existingUser?.status === UserStatus.LOCKED) {
+          return {
+            success: false,
+            message: 'Tài khoản đã bị khóa. Vui lòng liên hệ hỗ trợ.',
+          };
+        }
+
+        const role = input.role || existingUser?.role;
+        if (!role || !GOOGLE_SIGNUP_ROLES.includes(role)) {
+          return {
+            success: false,
+            message:
+              'Vui lòng chọn vai trò (học viên, gia sư hoặc phụ huynh) để tạo tài khoản',
+            roleRequired: true,
+          };
+        }
+
+        user = existingUser
+          ? await this.activateWithGoogle(existingUser, profile, role)
+          : await this.createGoogleUser(profile, role);
+
+        const linkResult = await googleAuthService.link(user._id, profile);
+        if (!linkResult.success) {
+          return { success: false, message: linkResult.message };
+        }
+      }
+
+      if (user.status === UserStatus.LOCKED) {
+        return {
+          success: false,
+          message: 'Tài khoản đã bị khóa. Vui lòng liên hệ hỗ trợ.',
+        };
+      }
+
+      const lockRemaining = loginProtectionService.getLockRemaining(user);
+      if (lockRemaining > 0) {
+        return this.lockedResponse(lockRemaining);
+      }
+
+      if (user.two_factor_enabled) {
+        return {
+          success: true,
+          message: 'Vui lòng nhập mã xác thực hai lớp để hoàn tất đăng nhập',
+          data: this.createTwoFactorChallenge(user._id),
+        };
+      }
+
+      return await this.completeLogin(user, device);
+    } catch (error) {
+      logger.error('Google login failed:', error);
       return {
-        success: true,
-        message: 'Đăng nhập thành công',
-        data: {
-          user: userResponse,
-          tokens,
-        },
+        success: false,
+        message: 'Đăng nhập Google thất bại. Vui lòng thử lại sau.',
       };
+    }
+  }
+
+  /**
+   * Link Google to an existing account after the password is confirmed,
+   * then sign in (or continue with 2FA)
+   */
+  async linkGoogleWithPassword(
+    input: IGoogleLinkInput,
+    device: IDeviceInfo = {}
+  ): Promise<LoginResponse> {
+    try {
+      let userId: string;
+      let profile: IGoogleProfile;
+      try {
+        const decoded = jwt.verify(
+          input.link_token,
+          process.env.JWT_SECRET || 'your-secret-key'
+        ) as jwt.JwtPayload;
+        if (decoded.purpose !== GOOGLE_LINK_PURPOSE || !decoded.sub) {
+          throw new Error('Not a Google link token');
+        }
+        userId = decoded.sub;
+        profile = decoded.google;
+      } catch {
+        return {
+          success: false,
+          message: 'Phiên liên kết đã hết hạn. Vui lòng đăng nhập Google lại.',
+        };
+      }
+
+      const user = await User.findById(userId);
+      if (!user || user.status !== UserStatus.ACTIVE) {
+        return {
+          success: false,
+          message: 'Phiên liên kết đã hết hạn. Vui lòng đăng nhập Google lại.',
+        };
+      }
+
+      // Same protection as the password login
+      const throttled = await this.checkAccountThrottle(user);
+      if (throttled) {
+        return throttled;
+      }
+
+      const isPasswordValid = await this.comparePassword(
+        input.password,
+        user.password_hash
+      );
+      if (!isPasswordValid) {
+        const failure = await loginProtectionService.recordFailure(
+          user,
+          device
+        );
+        if (failure.locked) {
+          return this.lockedResponse(failure.retryAfterSeconds);
+        }
+        return {
+          success: false,
+          message: 'Mật khẩu không chính xác',
+          retryAfter: failure.retryAfterSeconds || undefined,
+        };
+      }
+
+      const linkResult = await googleAuthService.link(user._id, profile);
+      if (!linkResult.success) {
+        return { success: false, message: linkResult.message };
+      }
+
+      if (user.two_factor_enabled) {
+        return {
+          success: true,
+          message: 'Vui lòng nhập mã xác thực hai lớp để hoàn tất đăng nhập',
+          data: this.createTwoFactorChallenge(user._id),
+        };
+      }
+
+      return await this.completeLogin(user, device);
     } catch (error) {
-      logger.error('Login failed:', error);
+      logger.error('Link Google account failed:', error);
       return {
         success: false,
-        message: 'Đăng nhập thất bại. Vui lòng thử lại sau.',
+        message: 'Liên kết tài khoản Google thất bại. Vui lòng thử lại sau.',
+      };
+    }
+  }
+
+  private createGoogleLinkToken(userId: string, profile: IGoogleProfile) {
+    return jwt.sign(
+      { purpose: GOOGLE_LINK_PURPOSE, google: profile },
+      process.env.JWT_SECRET || 'your-secret-key',
+      { subject: userId, expiresIn: GOOGLE_LINK_TTL_SECONDS }
+    );
+  }
+
+  // Google accounts have no password, store an unusable random one
+  private async createGoogleUser(
+    profile: IGoogleProfile,
+    role: UserRole
+  ): Promise<IUserDocument> {
+    const user = await User.create({
+      full_name: profile.full_name,
+      email: profile.email,
+      password_hash: await this.hashPassword(
+        crypto.randomBytes(32).toString('hex')
+      ),
+      avatar_url: profile.avatar_url,
+      role,
+      status: UserStatus.ACTIVE,
+      has_password: false,
+    });
+
+    logger.info(`User registered with Google: ${profile.email}`);
+    return user;
+  }
+
+  // Pending registration for the same email: Google proves the email, the
+  // unverified password may have been set by someone else and is dropped
+  private async activateWithGoogle(
+    user: IUserDocument,
+    profile: IGoogleProfile,
+    role: UserRole
+  ): Promise<IUserDocument> {
+    user.password_hash = await this.hashPassword(
+      crypto.randomBytes(32).toString('hex')
+    );
+    user.has_password = false;
+    user.role = role;
+    user.status = UserStatus.ACTIVE;
+    user.avatar_url = user.avatar_url || profile.avatar_url;
+    await user.save();
+
+    await OTP.deleteMany({
+      email: user.email,
+      otp_type: OTPType.REGISTRATION,
+    });
+
+    logger.info(`Pending registration activated with Google: ${user.email}`);
+    return user;
+  }
+
+  // Issued after a correct password when 2FA is on. It carries no `userId`,
+  // so the auth middleware never accepts it as an access token.
+  private createTwoFactorChallenge(
+    userId: string
+  ): ITwoFactorChallengeResponse {
+    const challengeToken = jwt.sign(
+      { purpose: TWO_FACTOR_CHALLENGE_PURPOSE },
+      process.env.JWT_SECRET || 'your-secret-key',
+      { subject: userId, expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+    );
+
+    return {
+      two_factor_required: true,
+      challenge_token: challengeToken,
+      expires_in: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  private async checkAccountThrottle(
+    user: IUserDocument
+  ): Promise<LoginResponse | null> {
+    const lockRemaining = loginProtectionService.getLockRemaining(user);
+    if (lockRemaining > 0) {
+      return this.lockedResponse(lockRemaining);
+    }
+
+    const accountRetryAfter = await loginProtectionService.getRetryAfter(
+      undefined,
+      user._id
+    );
+    if (accountRetryAfter > 0) {
+      return {
+        success: false,
+        message: `Bạn đã đăng nhập sai nhiều lần. Vui lòng thử lại sau ${this.formatWait(accountRetryAfter)}.`,
+        retryAfter: accountRetryAfter,
       };
     }
+
+    return null;
+  }
+
+  private async completeLogin(
+    user: IUserDocument,
+    device: IDeviceInfo
+  ): Promise<LoginResponse> {
+    await loginProtectionService.recordSuccess(user);
+
+    // Generate tokens for a new session, other devices stay signed in
+    const tokens = await this.createTokens(user._id, user.email, device);
+
+    // Prepare user response
+    const userResponse: IUserResponse = {
+      id: user._id,
+      full_name: user.full_name,
+      email: user.email,
+      phone_number: user.phone_number,
+      avatar_url: user.avatar_url,
+      role: user.role,
+      status: user.status,
+      created_at: user.created_at!,
+      updated_at: user.updated_at!,
+    };
+
+    logger.info(`User logged in successfully: ${user.email}`);
+
+    return {
+      success: true,
+      message: 'Đăng nhập thành công',
+      data: {
+        user: userResponse,
+        tokens,
+        // Admins are kept out of /admin/* until they enrol
+        two_factor_setup_required:
+          twoFactorService.isRequiredFor(user.role) && !user.two_factor_enabled,
+      },
+    };
   }
 
   async forgotPassword(
@@ -664,6 +1148,7 @@ class AuthService {
 
       // Update user password
       user.password_hash = hashedPassword;
+      user.has_password = true;
       await user.save();
 
       // Mark OTP as used
@@ -671,10 +1156,12 @@ class AuthService {
       await otpRecord.save();
 
       // Revoke all refresh tokens for security
-      await RefreshToken.updateMany(
-        { user_id: user._id },
-        { is_revoked: true }
-      );
+      await this.revokeTokens({ user_id: user._id }, 'PASSWORD_RESET');
+
+      // Resetting the password proves email ownership: lift a login lock
+      if (user.locked_until) {
+        await loginProtectionService.unlock(user._id, 'PASSWORD_RESET');
+      }
 
       logger.info(`Password reset successfully: ${email}`);
 
@@ -692,14 +1179,16 @@ class AuthService {
     }
   }
 
-  async refreshToken(data: IRefreshTokenInput): Promise<RefreshTokenResponse> {
+  async refreshToken(
+    data: IRefreshTokenInput,
+    device: IDeviceInfo = {}
+  ): Promise<RefreshTokenResponse> {
     try {
       const { refresh_token } = data;
 
-      // Find refresh token
+      // Find refresh token, revoked ones included to detect reuse
       const refreshTokenDoc = await RefreshToken.findOne({
-        token: refresh_token,
-        is_revoked: false,
+        token: this.hashToken(refresh_token),
         expires_at: { $gt: new Date() },
       });
 
@@ -710,6 +1199,18 @@ class AuthService {
         };
       }
 
+      // An already rotated token is presented again: it was stolen or
+      // replayed, end the whole session
+      if (refreshTokenDoc.is_revoked) {
+        if (refreshTokenDoc.revoked_reason === 'ROTATED') {
+          await this.handleTokenReuse(refreshTokenDoc);
+        }
+        return {
+          success: false,
+          message: 'Refresh token không hợp lệ hoặc đã hết hạn',
+        };
+      }
+
       // Find user
       const user = await User.findById(refreshTokenDoc.user_id);
       if (!user || user.status !== UserStatus.ACTIVE) {
@@ -719,12 +1220,41 @@ class AuthService {
         };
       }
 
-      // Revoke old refresh token
-      refreshTokenDoc.is_revoked = true;
-      await refreshTokenDoc.save();
+      // Rotate: revoke the presented token atomically, a concurrent
+      // request with the same token counts as reuse
+      const nextTokenId = uuidv4();
+      const rotated = await RefreshToken.findOneAndUpdate(
+        { _id: refreshTokenDoc._id, is_revoked: false },
+        {
+          is_revoked: true,
+          revoked_at: new Date(),
+          revoked_reason: 'ROTATED',
+          replaced_by: nextTokenId,
+        }
+      );
+      if (!rotated) {
+        await this.handleTokenReuse(refreshTokenDoc);
+        return {
+          success: false,
+          message: 'Refresh token không hợp lệ hoặc đã hết hạn',
+        };
+      }
 
-      // Generate new tokens
-      const tokens = await this.createTokens(user._id, user.email);
+      // Generate new tokens in the same session
+      const tokens = await this.createTokens(
+        user._id,
+        user.email,
+        {
+          device_name: refreshTokenDoc.device_name,
+          ip_address: device.ip_address || refreshTokenDoc.ip_address,
+          user_agent: device.user_agent || refreshTokenDoc.user_agent,
+        },
+        {
+          tokenId: nextTokenId,
+          familyId: refreshTokenDoc.family_id,
+          startedAt: refreshTokenDoc.session_started_at,
+        }
+      );
 
       logger.info(`Token refreshed successfully: ${user.email}`);
 
@@ -744,11 +1274,16 @@ class AuthService {
 
   async logout(refreshToken: string): Promise<ResetPasswordResponse> {
     try {
-      // Revoke refresh token
-      await RefreshToken.updateOne(
-        { token: refreshToken },
-        { is_revoked: true }
-      );
+      // End the session of this refresh token
+      const refreshTokenDoc = await RefreshToken.findOne({
+        token: this.hashToken(refreshToken),
+      }).select('family_id');
+      if (refreshTokenDoc) {
+        await this.revokeTokens(
+          { family_id: refreshTokenDoc.family_id },
+          'LOGOUT'
+        );
+      }
 
       return {
         success: true,
@@ -762,6 +1297,253 @@ class AuthService {
       };
     }
   }
+
+  /**
+   * Send an OTP to unlock an account locked after failed logins
+   */
+  async requestAccountUnlock(email: string): Promise<ForgotPasswordResponse> {
+    try {
+      const user = await User.findOne({ email });
+      if (!user || loginProtectionService.getLockRemaining(user) === 0) {
+        return {
+          success: false,
+          message: 'Tài khoản này không bị khóa',
+        };
+      }
+
+      // Same 1 minute cooldown as password reset
+      const recentOTP = await OTP.findOne({
+        email,
+        otp_type: OTPType.ACCOUNT_UNLOCK,
+        created_at: { $gt: new Date(Date.now() - 60 * 1000) },
+      });
+      if (recentOTP) {
+        return {
+          success: false,
+          message: 'Vui lòng đợi 1 phút trước khi gửi lại mã OTP',
+        };
+      }
+
+      const otpCode = this.generateOTP();
+      await OTP.deleteMany({ email, otp_type: OTPType.ACCOUNT_UNLOCK });
+      await OTP.create({
+        email,
+        otp_code: otpCode,
+        otp_type: OTPType.ACCOUNT_UNLOCK,
+        reference_id: user._id,
+      });
+
+      const emailSent = await emailService.sendAccountUnlockOTP(
+        email,
+        otpCode,
+        user.full_name
+      );
+      if (!emailSent) {
+        return {
+          success: false,
+          message: 'Không thể gửi email. Vui lòng thử lại sau.',
+        };
+      }
+
+      logger.info(`Account unlock OTP sent: ${email}`);
+
+      return {
+        success: true,
+        message: 'Mã OTP mở khóa tài khoản đã được gửi đến email của bạn.',
+        data: {
+          email,
+          otpSent: true,
+        },
+      };
+    } catch (error) {
+      logger.error('Request account unlock failed:', error);
+      return {
+        success: false,
+        message: 'Gửi mã OTP thất bại. Vui lòng thử lại sau.',
+      };
+    }
+  }
+
+  /**
+   * Unlock the account with the emailed OTP
+   */
+  async verifyAccountUnlock(
+    email: string,
+    otpCode: string
+  ): Promise<ResetPasswordResponse> {
+    try {
+      const activeOTP = {
+        email,
+        is_used: false,
+        otp_type: OTPType.ACCOUNT_UNLOCK,
+        expires_at: { $gt: new Date() },
+        failed_attempts: { $not: { $gte: UNLOCK_OTP_MAX_ATTEMPTS } },
+      };
+
+      const otpRecord = await OTP.findOneAndUpdate(
+        { ...activeOTP, otp_code: otpCode },
+        { is_used: true }
+      );
+      if (!otpRecord) {
+        // Wrong code: count it against the active OTP, which stops working
+        // after too many attempts (a new code must be requested)
+        const attempted = await OTP.findOneAndUpdate(
+          activeOTP,
+          { $inc: { failed_attempts: 1 } },
+          { new: true }
+        );
+        if (
+          attempted &&
+          (attempted.failed_attempts || 0) >= UNLOCK_OTP_MAX_ATTEMPTS
+        ) {
+          await OTP.updateOne({ _id: attempted._id }, { is_used: true });
+          logger.warn(
+            `Account unlock OTP invalidated after ${UNLOCK_OTP_MAX_ATTEMPTS} wrong attempts: ${email}`
+          );
+          return {
+            success: false,
+            message:
+              'Bạn đã nhập sai mã OTP quá nhiều lần. Vui lòng yêu cầu mã mới.',
+          };
+        }
+
+        return {
+          success: false,
+          message: 'Mã OTP không hợp lệ hoặc đã hết hạn',
+        };
+      }
+
+      const user = await User.findOne({ email }).select('_id');
+      if (!user) {
+        return {
+          success: false,
+          message: 'Không tìm thấy tài khoản',
+        };
+      }
+
+      await loginProtectionService.unlock(user._id, 'OTP');
+      logger.info(`Account unlocked by OTP: ${email}`);
+
+      return {
+        success: true,
+        message: 'Mở khóa tài khoản thành công. Bạn có thể đăng nhập lại.',
+      };
+    } catch (error) {
+      logger.error('Verify account unlock failed:', error);
+      return {
+        success: false,
+        message: 'Mở khóa tài khoản thất bại. Vui lòng thử lại sau.',
+      };
+    }
+  }
+
+  /**
+   * Active sessions (devices) of a user, most recently used first
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<SessionsResponse> {
+    try {
+      const tokens = await RefreshToken.find({
+        user_id: userId,
+        is_revoked: false,
+        expires_at: { $gt: new Date() },
+      }).sort({ last_used_at: -1 });
+
+      return {
+        success: true,
+        message: 'Lấy danh sách phiên đăng nhập thành công',
+        data: tokens.map((token) => ({
+          id: token.family_id,
+          device_name: token.device_name,
+          ip_address: token.ip_address,
+          user_agent: token.user_agent,
+          started_at: token.session_started_at,
+          last_used_at: token.last_used_at,
+          expires_at: token.expires_at,
+          is_current: token.family_id === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      logger.error('Get sessions failed:', error);
+      return {
+        success: false,
+        message: 'Không thể lấy danh sách phiên đăng nhập',
+      };
+    }
+  }
+
+  /**
+   * Sign out one device
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string
+  ): Promise<ResetPasswordResponse> {
+    try {
+      const revoked = await this.revokeTokens(
+        { user_id: userId, family_id: sessionId },
+        'SESSION_REVOKED'
+      );
+      if (revoked === 0) {
+        return {
+          success: false,
+          message: 'Không tìm thấy phiên đăng nhập',
+        };
+      }
+
+      logger.info(`Session ${sessionId} revoked by user ${userId}`);
+      return {
+        success: true,
+        message: 'Đã đăng xuất thiết bị',
+      };
+    } catch (error) {
+      logger.error('Revoke session failed:', error);
+      return {
+        success: false,
+        message: 'Không thể đăng xuất thiết bị',
+      };
+    }
+  }
+
+  /**
+   * Sign out every device except the current one
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<ResetPasswordResponse> {
+    try {
+      const filter: Record<string, unknown> = { user_id: userId };
+      if (currentSessionId) {
+        filter.family_id = { $ne: currentSessionId };
+      }
+      const revoked = await this.revokeTokens(filter, 'SESSION_REVOKED');
+
+      logger.info(`User ${userId} revoked ${revoked} other sessions`);
+      return {
+        success: true,
+        message: 'Đã đăng xuất khỏi các thiết bị khác',
+      };
+    } catch (error) {
+      logger.error('Revoke other sessions failed:', error);
+      return {
+        success: false,
+        message: 'Không thể đăng xuất các thiết bị khác',
+      };
+    }
+  }
+
+  private async handleTokenReuse(token: IRefreshTokenDocument): Promise<void> {
+    const revoked = await this.revokeTokens(
+      { family_id: token.family_id },
+      'REUSE_DETECTED'
+    );
+    logger.warn(
+      `Refresh token reuse detected - User: ${token.user_id}, Session: ${token.family_id}, revoked ${revoked} tokens`
+    );
+  }
 }
 
 export const authService = new AuthService();
@@ -0,0 +1,195 @@
+import { google } from 'googleapis';
+import { AuthProvider, User } from '../../models';
+import { AuthProviderName, IAuthProvider } from '../../models/AuthProvider';
+import { IUserDocument } from '../../models/User';
+import { logger } from '../../utils/logger';
+
+/**
+ * Google Auth Service
+ * Verifies Google ID tokens (OpenID Connect) and manages the Google accounts
+ * linked to users. The sign-in flow itself lives in AuthService.
+ */
+
+export interface IGoogleProfile {
+  sub: string;
+  email: string;
+  full_name: string;
+  avatar_url?: string;
+}
+
+export interface IAuthProviderResponse {
+  provider: AuthProviderName;
+  email?: string;
+  linked_at: Date;
+  last_used_at?: Date;
+}
+
+class GoogleAuthService {
+  private client = new google.auth.OAuth2();
+
+  // Web, Android and iOS apps have different client IDs
+  private getClientIds(): string[] {
+    return (process.env.GOOGLE_CLIENT_ID || '')
+      .split(',')
+      .map((clientId) => clientId.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Verified profile from an ID token, null when the token is not usable
+   */
+  async verifyIdToken(idToken: string): Promise<IGoogleProfile | null> {
+    const audience = this.getClientIds();
+    if (audience.length === 0) {
+      logger.error('Google sign-in is not configured (GOOGLE_CLIENT_ID)');
+      return null;
+    }
+
+    try {
+      const ticket = await this.client.verifyIdToken({ idToken, audience });
+      const payload = ticket.getPayload();
+
+      // Only emails Google has verified can be matched to our accounts
+      if (!payload?.sub || !payload.email || !payload.email_verified) {
+        return null;
+      }
+
+      return {
+        sub: payload.sub,
+        email: payload.email.toLowerCase(),
+        full_name: (payload.name || payload.email.split('@')[0])
+          .trim()
+          .substring(0, 100),
+        avatar_url: payload.picture,
+      };
+    } catch (error: any) {
+      logger.warn(`Google ID token verification failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * User the Google account is linked to (updates last use)
+   */
+  async findLinkedUser(googleSub: string): Promise<IUserDocument | null> {
+    const link = await AuthProvider.findOneAndUpdate(
+      { provider: 'GOOGLE', provider_user_id: googleSub },
+      { $set: { last_used_at: new Date() } }
+    ).lean();
+    if (!link) return null;
+
+    return User.findById(link.user_id);
+  }
+
+  /**
+   * Link a Google account to a user
+   */
+  async link(
+    userId: string,
+    profile: IGoogleProfile
+  ): Promise<{ success: boolean; message: string }> {
+    const [linkedToOther, existingLink] = await Promise.all([
+      AuthProvider.findOne({
+        provider: 'GOOGLE',
+        provider_user_id: profile.sub,
+      }).lean(),
+      AuthProvider.findOne({ user_id: userId, provider: 'GOOGLE' }).lean(),
+    ]);
+
+    if (linkedToOther) {
+      return linkedToOther.user_id === userId
+        ? { success: true, message: 'Tài khoản Google đã được liên kết' }
+        : {
+            success: false,
+            message:
+              'Tài khoản Google này đã được liên kết với một tài khoản khác',
+          };
+    }
+    if (existingLink) {
+      return {
+        success: false,
+        message:
+          'Bạn đã liên kết một tài khoản Google khác. Vui lòng hủy liên kết trước.',
+      };
+    }
+
+    try {
+      await AuthProvider.create({
+        user_id: userId,
+        provider: 'GOOGLE',
+        provider_user_id: profile.sub,
+        email: profile.email,
+        linked_at: new Date(),
+        last_used_at: new Date(),
+      });
+    } catch (error: any) {
+      // Concurrent link of the same Google account
+      if (error.code === 11000) {
+        return {
+          success: false,
+          message:
+            'Tài khoản Google này đã được liên kết với một tài khoản khác',
+        };
+      }
+      throw error;
+    }
+
+    logger.info(`Google account linked - User: ${userId}`);
+    return { success: true, message: 'Liên kết tài khoản Google thành công' };
+  }
+
+  /**
+   * Unlink Google, only when the user can still sign in with a password
+   */
+  async unlink(userId: string): Promise<{ success: boolean; message: string }> {
+    const user = await User.findById(userId).select('has_password');
+    if (!user) {
+      return { success: false, message: 'Không tìm thấy tài khoản' };
+    }
+    if (user.has_password === false) {
+      return {
+        success: false,
+        message:
+          'Vui lòng đặt mật khẩu (qua chức năng quên mật khẩu) trước khi hủy liên kết Google',
+      };
+    }
+
+    const result = await AuthProvider.deleteOne({
+      user_id: userId,
+      provider: 'GOOGLE',
+    });
+    if (result.deletedCount === 0) {
+      return {
+        success: false,
+        message: 'Tài khoản chưa liên kết với Google',
+      };
+    }
+
+    logger.info(`Google account unlinked - User: ${userId}`);
+    return { success: true, message: 'Đã hủy liên kết tài khoản Google' };
+  }
+
+  /**
+   * Sign-in methods of a user (settings page)
+   */
+  async getProviders(
+    userId: string
+  ): Promise<{ has_password: boolean; providers: IAuthProviderResponse[] }> {
+    const [user, links] = await Promise.all([
+      User.findById(userId).select('has_password').lean(),
+      AuthProvider.find({ user_id: userId }).lean(),
+    ]);
+
+    return {
+      has_password: user?.has_password !== false,
+      providers: links.map((link: IAuthProvider) => ({
+        provider: link.provider,
+        email: link.email,
+        linked_at: link.linked_at,
+        last_used_at: link.last_used_at,
+      })),
+    };
+  }
+}
+
+export const googleAuthService = new GoogleAuthService();
@@ -0,0 +1,297 @@
+import { User, LoginThrottle, AccountLockout } from '../../models';
+import { AccountUnlockMethod } from '../../models/AccountLockout';
+import { IUserDocument } from '../../models/User';
+import { emailService } from '../email';
+import { NotificationService } from '../notification/notification.service';
+import { IDeviceInfo } from '../../types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Login Protection Service
+ * Counts failed logins per account and per client IP. After a few free
+ * attempts each new failure doubles the wait before the next attempt; too
+ * many failures on one account lock it temporarily (longer for repeated
+ * locks). The owner can unlock it early with an email OTP.
+ */
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+// Failures are forgotten after this much time without a new one
+const COUNTER_WINDOW_MS = 24 * HOUR;
+
+const ACCOUNT_FREE_ATTEMPTS = 3;
+const ACCOUNT_MAX_BACKOFF_MS = 15 * MINUTE;
+const IP_FREE_ATTEMPTS = 10;
+const IP_MAX_BACKOFF_MS = HOUR;
+
+const LOCK_THRESHOLD = parseInt(process.env.LOGIN_LOCK_THRESHOLD || '') || 10;
+const LOCK_BASE_MS =
+  (parseInt(process.env.LOGIN_LOCK_MINUTES || '') || 30) * MINUTE;
+const LOCK_MAX_MS = 24 * HOUR;
+
+const accountKey = (userId: string) => `account:${userId}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+export interface ILoginFailureResult {
+  locked: boolean;
+  lockedUntil?: Date;
+  retryAfterSeconds: number;
+}
+
+class LoginProtectionService {
+  /**
+   * Seconds the client has to wait before trying again (0 = allowed)
+   */
+  async getRetryAfter(ip?: string, userId?: string): Promise<number> {
+    const keys = [
+      ...(ip ? [ipKey(ip)] : []),
+      ...(userId ? [accountKey(userId)] : []),
+    ];
+    if (keys.length === 0) return 0;
+
+    const now = Date.now();
+    const throttles = await LoginThrottle.find({
+      _id: { $in: keys },
+      blocked_until: { $gt: new Date(now) },
+    }).lean();
+
+    return throttles.reduce(
+      (max, throttle) =>
+        Math.max(
+          max,
+          Math.ceil((throttle.blocked_until!.getTime() - now) / SECOND)
+        ),
+      0
+    );
+  }
+
+  /**
+   * Seconds left on the automatic lock of an account (0 = not locked)
+   */
+  getLockRemaining(user: IUserDocument): number {
+    if (!user.locked_until) return 0;
+    return Math.max(
+      0,
+      Math.ceil((user.locked_until.getTime() - Date.now()) / SECOND)
+    );
+  }
+
+  /**
+   * Record a wrong password (user) or an unknown email (no user)
+   */
+  async recordFailure(
+    user: IUserDocument | null,
+    device: IDeviceInfo
+  ): Promise<ILoginFailureResult> {
+    let retryAfterMs = 0;
+
+    if (device.ip_address) {
+      const failures = await this.increment(ipKey(device.ip_address));
+      retryAfterMs = await this.applyBackoff(
+        ipKey(device.ip_address),
+        failures,
+        IP_FREE_ATTEMPTS,
+        IP_MAX_BACKOFF_MS
+      );
+    }
+
+    if (!user) {
+      return {
+        locked: false,
+        retryAfterSeconds: Math.ceil(retryAfterMs / SECOND),
+      };
+    }
+
+    const failures = await this.increment(accountKey(user._id));
+    if (failures >= LOCK_THRESHOLD) {
+      const lockedUntil = await this.lockAccount(user, failures, device);
+      return {
+        locked: true,
+        lockedUntil,
+        retryAfterSeconds: Math.ceil(
+          (lockedUntil.getTime() - Date.now()) / SECOND
+        ),
+      };
+    }
+
+    retryAfterMs = Math.max(
+      retryAfterMs,
+      await this.applyBackoff(
+        accountKey(user._id),
+        failures,
+        ACCOUNT_FREE_ATTEMPTS,
+        ACCOUNT_MAX_BACKOFF_MS
+      )
+    );
+
+    return {
+      locked: false,
+      retryAfterSeconds: Math.ceil(retryAfterMs / SECOND),
+    };
+  }
+
+  /**
+   * Successful login: reset the account counter and close an elapsed lock
+   */
+  async recordSuccess(user: IUserDocument): Promise<void> {
+    await LoginThrottle.deleteOne({ _id: accountKey(user._id) });
+
+    if (user.locked_until) {
+      await this.unlock(user._id, 'EXPIRED', user.locked_until);
+    }
+  }
+
+  /**
+   * Lift the automatic lock and forget the account's failures
+   */
+  async unlock(
+    userId: string,
+    method: AccountUnlockMethod,
+    unlockedAt: Date = new Date()
+  ): Promise<void> {
+    await Promise.all([
+      User.updateOne({ _id: userId }, { $set: { locked_until: null } }),
+      LoginThrottle.deleteOne({ _id: accountKey(userId) }),
+      AccountLockout.updateMany(
+        { user_id: userId, unlocked_at: { $exists: false } },
+        { $set: { unlocked_at: unlockedAt, unlock_method: method } }
+      ),
+    ]);
+  }
+
+  /**
+   * Login security state of a user for admins
+   */
+  async getSecurityOverview(userId: string) {
+    const [user, throttle, lockouts] = await Promise.all([
+      User.findById(userId).select('locked_until').lean(),
+      LoginThrottle.findById(accountKey(userId)).lean(),
+      AccountLockout.find({ user_id: userId })
+        .sort({ locked_at: -1 })
+        .limit(20)
+        .lean(),
+    ]);
+
+    const lockedUntil =
+      user?.locked_until && user.locked_until > new Date()
+        ? user.locked_until
+        : null;
+
+    return {
+      is_locked: !!lockedUntil,
+      locked_until: lockedUntil,
+      failed_login_attempts: throttle?.failures || 0,
+      last_failed_login_at: throttle?.last_failure_at || null,
+      lockout_count: await AccountLockout.countDocuments({ user_id: userId }),
+      lockout_events: lockouts,
+    };
+  }
+
+  private async increment(key: string): Promise<number> {
+    const now = new Date();
+    const record = await LoginThrottle.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            failures: { $add: [{ $ifNull: ['$failures', 0] }, 1] },
+            last_failure_at: now,
+            expires_at: new Date(now.getTime() + COUNTER_WINDOW_MS),
+          },
+        },
+      ],
+      { upsert: true, new: true }
+    ).lean();
+    return record!.failures;
+  }
+
+  // 1s, 2s, 4s... after the free attempts, capped
+  private async applyBackoff(
+    key: string,
+    failures: number,
+    freeAttempts: number,
+    maxBackoffMs: number
+  ): Promise<number> {
+    if (failures <= freeAttempts) return 0;
+
+    const backoffMs = Math.min(
+      SECOND * 2 ** (failures - freeAttempts - 1),
+      maxBackoffMs
+    );
+    await LoginThrottle.updateOne(
+      { _id: key },
+      { $set: { blocked_until: new Date(Date.now() + backoffMs) } }
+    );
+    return backoffMs;
+  }
+
+  private async lockAccount(
+    user: IUserDocument,
+    failures: number,
+    device: IDeviceInfo
+  ): Promise<Date> {
+    const now = new Date();
+
+    // Each lock within the counter window doubles the next one
+    const recentLocks = await AccountLockout.countDocuments({
+      user_id: user._id,
+      locked_at: { $gte: new Date(now.getTime() - COUNTER_WINDOW_MS) },
+    });
+    const lockedUntil = new Date(
+      now.getTime() + Math.min(LOCK_BASE_MS * 2 ** recentLocks, LOCK_MAX_MS)
+    );
+
+    // Only the request that actually locks records and notifies
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [{ locked_until: null }, { locked_until: { $lte: now } }],
+      },
+      { $set: { locked_until: lockedUntil } }
+    );
+    await LoginThrottle.deleteOne({ _id: accountKey(user._id) });
+
+    if (result.modifiedCount === 0) {
+      const current = await User.findById(user._id).select('locked_until');
+      return current?.locked_until || lockedUntil;
+    }
+
+    await AccountLockout.create({
+      user_id: user._id,
+      failed_attempts: failures,
+      ip_address: device.ip_address,
+      user_agent: device.user_agent,
+      locked_at: now,
+      locked_until: lockedUntil,
+    });
+
+    logger.warn(
+      `Account locked after ${failures} failed logins - User: ${user._id}, IP: ${device.ip_address}, until ${lockedUntil.toISOString()}`
+    );
+
+    await Promise.allSettled([
+      emailService.sendAccountLockedEmail(
+        user.email,
+        user.full_name,
+        lockedUntil,
+        device.ip_address
+      ),
+      NotificationService.sendNotification({
+        type: 'socket',
+        userId: user._id,
+        notificationType: 'SECURITY_ALERT',
+        title: 'Tài khoản tạm thời bị khóa',
+        message:
+          'Tài khoản của bạn bị tạm khóa đăng nhập do nhập sai mật khẩu quá nhiều lần. Nếu không phải bạn, hãy đổi mật khẩu ngay.',
+        data: { lockedUntil, ipAddress: device.ip_address },
+        priority: 'critical',
+      }),
+    ]);
+
+    return lockedUntil;
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
@@ -0,0 +1,61 @@
+import { RefreshToken } from '../../models';
+
+/**
+ * Session Status Service
+ * Whether the session (refresh token family, the `sid` claim of access
+ * tokens) is still active, so logout / revoke / reuse detection also cut off
+ * access tokens already issued. Results are cached briefly per process;
+ * revocations made by this process evict their sessions right away.
+ */
+
+const SESSION_CACHE_TTL_MS =
+  parseInt(process.env.SESSION_CHECK_CACHE_SECONDS || '') * 1000 || 30 * 1000;
+const MAX_CACHED_SESSIONS = 10000;
+
+class SessionStatusService {
+  private cache = new Map<string, { active: boolean; expiresAt: number }>();
+
+  /**
+   * A session is active while its family has an unrevoked, unexpired token
+   */
+  async isActive(userId: string, sessionId: string): Promise<boolean> {
+    const key = `${userId}:${sessionId}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.active;
+    }
+
+    const active = !!(await RefreshToken.exists({
+      user_id: userId,
+      family_id: sessionId,
+      is_revoked: false,
+      expires_at: { $gt: new Date() },
+    }));
+
+    if (this.cache.size >= MAX_CACHED_SESSIONS) {
+      this.cache.clear();
+    }
+    this.cache.set(key, {
+      active,
+      expiresAt: Date.now() + SESSION_CACHE_TTL_MS,
+    });
+
+    return active;
+  }
+
+  /**
+   * Forget cached results of revoked sessions
+   */
+  invalidate(sessionIds: string[]): void {
+    if (sessionIds.length === 0) return;
+
+    const revoked = new Set(sessionIds);
+    for (const key of this.cache.keys()) {
+      if (revoked.has(key.substring(key.indexOf(':') + 1))) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
+
+export const sessionStatusService = new SessionStatusService();
@@ -0,0 +1,366 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { User, TwoFactorAuth } from '../../models';
+import { UserRole } from '../../types';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../utils/totp';
+import { logger } from '../../utils/logger';
+
+/**
+ * Two Factor Service
+ * Optional TOTP two-factor authentication: enrolment through an otpauth URI,
+ * one-time recovery codes, and the policy of roles that must use it
+ * (TWO_FACTOR_REQUIRED_ROLES, ADMIN by default).
+ */
+
+const RECOVERY_CODE_COUNT = 10;
+const PENDING_ENROLMENT_MS = 15 * 60 * 1000;
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'SkillBridge';
+
+export interface TwoFactorResponse<T = undefined> {
+  success: boolean;
+  message: string;
+  data?: T;
+}
+
+export interface ITwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabled_at: Date | null;
+  recovery_codes_remaining: number;
+}
+
+export interface ITwoFactorVerification {
+  valid: boolean;
+  method?: 'TOTP' | 'RECOVERY_CODE';
+  recovery_codes_remaining?: number;
+}
+
+class TwoFactorService {
+  /**
+   * Whether the 2FA policy makes it mandatory for a role
+   */
+  isRequiredFor(role: string): boolean {
+    const roles = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? UserRole.ADMIN)
+      .split(',')
+      .map((value) => value.trim().toUpperCase())
+      .filter(Boolean);
+    return roles.includes(role);
+  }
+
+  async getStatus(
+    userId: string,
+    role: string
+  ): Promise<TwoFactorResponse<ITwoFactorStatus>> {
+    const record = await TwoFactorAuth.findOne({ user_id: userId }).lean();
+    const enabled = !!record?.secret;
+
+    return {
+      success: true,
+      message: 'Lấy trạng thái xác thực hai lớp thành công',
+      data: {
+        enabled,
+        required: this.isRequiredFor(role),
+        enabled_at: enabled ? record!.enabled_at || null : null,
+        recovery_codes_remaining: enabled
+          ? record!.recovery_codes.filter((code) => !code.used_at).length
+          : 0,
+      },
+    };
+  }
+
+  /**
+   * Step 1 of enrolment: new secret, shown once as key + otpauth URI
+   */
+  async startEnrollment(
+    userId: string
+  ): Promise<TwoFactorResponse<{ secret: string; otpauth_uri: string }>> {
+    const user = await User.findById(userId).select('email two_factor_enabled');
+    if (!user) {
+      return { success: false, message: 'Không tìm thấy tài khoản' };
+    }
+    if (user.two_factor_enabled) {
+      return {
+        success: false,
+        message: 'Xác thực hai lớp đã được bật cho tài khoản này',
+      };
+    }
+
+    const secret = generateTotpSecret();
+    await TwoFactorAuth.updateOne(
+      { user_id: userId },
+      {
+        $set: {
+          pending_secret: this.encrypt(secret),
+          pending_created_at: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+
+    return {
+      success: true,
+      message:
+        'Quét mã QR bằng ứng dụng xác thực rồi nhập mã 6 số để hoàn tất bật xác thực hai lớp',
+      data: {
+        secret,
+        otpauth_uri: buildOtpauthUri(secret, user.email, ISSUER),
+      },
+    };
+  }
+
+  /**
+   * Step 2 of enrolment: first valid code turns 2FA on, recovery codes are
+   * returned in plain text only this once
+   */
+  async confirmEnrollment(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorResponse<{ recovery_codes: string[] }>> {
+    const record = await TwoFactorAuth.findOne({ user_id: userId });
+    if (
+      !record?.pending_secret ||
+      !record.pending_created_at ||
+      record.pending_created_at.getTime() < Date.now() - PENDING_ENROLMENT_MS
+    ) {
+      return {
+        success: false,
+        message:
+          'Phiên thiết lập đã hết hạn hoặc không tồn tại. Vui lòng bắt đầu lại.',
+      };
+    }
+
+    const secret = this.decrypt(record.pending_secret);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      return { success: false, message: 'Mã xác thực không chính xác' };
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    record.secret = record.pending_secret;
+    record.pending_secret = undefined;
+    record.pending_created_at = undefined;
+    record.last_used_step = step;
+    record.enabled_at = new Date();
+    record.recovery_codes = recoveryCodes.map((recoveryCode) => ({
+      hash: this.hashRecoveryCode(recoveryCode),
+      used_at: null,
+    }));
+    await record.save();
+
+    await User.updateOne(
+      { _id: userId },
+      { $set: { two_factor_enabled: true } }
+    );
+
+    logger.info(`Two-factor authentication enabled - User: ${userId}`);
+
+    return {
+      success: true,
+      message:
+        'Đã bật xác thực hai lớp. Hãy lưu các mã khôi phục ở nơi an toàn, mỗi mã chỉ dùng được một lần.',
+      data: { recovery_codes: recoveryCodes },
+    };
+  }
+
+  /**
+   * Turn 2FA off (password + current code), not allowed for required roles
+   */
+  async disable(
+    userId: string,
+    password: string,
+    code: string
+  ): Promise<TwoFactorResponse> {
+    const user = await User.findById(userId).select(
+      'role password_hash two_factor_enabled'
+    );
+    if (!user || !user.two_factor_enabled) {
+      return {
+        success: false,
+        message: 'Xác thực hai lớp chưa được bật',
+      };
+    }
+    if (this.isRequiredFor(user.role)) {
+      return {
+        success: false,
+        message: 'Tài khoản của bạn bắt buộc sử dụng xác thực hai lớp',
+      };
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    if (!isPasswordValid) {
+      return { success: false, message: 'Mật khẩu không chính xác' };
+    }
+
+    const verification = await this.verifyCode(userId, code);
+    if (!verification.valid) {
+      return { success: false, message: 'Mã xác thực không chính xác' };
+    }
+
+    await Promise.all([
+      TwoFactorAuth.deleteOne({ user_id: userId }),
+      User.updateOne({ _id: userId }, { $set: { two_factor_enabled: false } }),
+    ]);
+
+    logger.info(`Two-factor authentication disabled - User: ${userId}`);
+
+    return { success: true, message: 'Đã tắt xác thực hai lớp' };
+  }
+
+  /**
+   * Replace every recovery code (the old ones stop working)
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorResponse<{ recovery_codes: string[] }>> {
+    const verification = await this.verifyCode(userId, code);
+    if (!verification.valid) {
+      return { success: false, message: 'Mã xác thực không chính xác' };
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await TwoFactorAuth.updateOne(
+      { user_id: userId },
+      {
+        $set: {
+          recovery_codes: recoveryCodes.map((recoveryCode) => ({
+            hash: this.hashRecoveryCode(recoveryCode),
+            used_at: null,
+          })),
+        },
+      }
+    );
+
+    logger.info(`Two-factor recovery codes regenerated - User: ${userId}`);
+
+    return {
+      success: true,
+      message: 'Đã tạo mã khôi phục mới, các mã cũ không còn hiệu lực',
+      data: { recovery_codes: recoveryCodes },
+    };
+  }
+
+  /**
+   * Check a TOTP code (each step accepted once) or consume a recovery code
+   */
+  async verifyCode(
+    userId: string,
+    code: string
+  ): Promise<ITwoFactorVerification> {
+    const record = await TwoFactorAuth.findOne({ user_id: userId }).lean();
+    if (!record?.secret) {
+      return { valid: false };
+    }
+
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+    if (/^\d{6}$/.test(normalized)) {
+      const step = verifyTotp(this.decrypt(record.secret), normalized);
+      if (step === null) return { valid: false };
+
+      // Atomic: a code seen on the wire cannot be replayed within its window
+      const result = await TwoFactorAuth.updateOne(
+        {
+          user_id: userId,
+          $or: [
+            { last_used_step: { $exists: false } },
+            { last_used_step: { $lt: step } },
+          ],
+        },
+        { $set: { last_used_step: step } }
+      );
+      return result.modifiedCount > 0
+        ? { valid: true, method: 'TOTP' }
+        : { valid: false };
+    }
+
+    const hash = this.hashRecoveryCode(normalized);
+    const result = await TwoFactorAuth.findOneAndUpdate(
+      {
+        user_id: userId,
+        recovery_codes: { $elemMatch: { hash, used_at: null } },
+      },
+      { $set: { 'recovery_codes.$.used_at': new Date() } },
+      { new: true }
+    ).lean();
+    if (!result) return { valid: false };
+
+    const remaining = result.recovery_codes.filter(
+      (recoveryCode) => !recoveryCode.used_at
+    ).length;
+    logger.warn(
+      `Two-factor recovery code used - User: ${userId}, remaining: ${remaining}`
+    );
+
+    return {
+      valid: true,
+      method: 'RECOVERY_CODE',
+      recovery_codes_remaining: remaining,
+    };
+  }
+
+  // xxxxx-xxxxx, lowercase hex
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+
+  // AES-256-GCM, stored as iv.tag.ciphertext (base64)
+  private getEncryptionKey(): Buffer {
+    return crypto
+      .createHash('sha256')
+      .update(
+        process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+          process.env.JWT_SECRET ||
+          'your-secret-key'
+      )
+      .digest();
+  }
+
+  private encrypt(value: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv
+    );
+    const encrypted = Buffer.concat([
+      cipher.update(value, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join('.');
+  }
+
+  private decrypt(value: string): string {
+    const [iv, tag, encrypted] = value
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv
+    );
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
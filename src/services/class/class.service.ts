@@ -6,6 +6,8 @@ import { User } from '../../models/User';
 import { Subject } from '../../models/Subject';
 import { Contract } from '../../models/Contract';
 import { TutorProfile } from '../../models/TutorProfile';
+import { PaymentSchedule } from '../../models/PaymentSchedule';
+import { Payment } from '../../models/Payment';
 import { logger } from '../../utils/logger';
 import { buildJitsiModeratorUrl } from '../meeting/meeting.service';
 import {
@@ -14,9 +16,24 @@ import {
   notifyHomeworkGraded,
   notifyCancellationRequested,
   notifyCancellationResponded,
+  notifyRescheduleRequested,
+  notifyRescheduleResponded,
+  notifyMakeUpSessionScheduled,
 } from '../notification/notification.helpers';
 import { v4 as uuidv4 } from 'uuid';
 import { speechToTextService } from '../ai/speechToText.service';
+import {
+  generateLearningSessions,
+  listScheduleSlots,
+} from './sessionGenerator';
+import { findScheduleConflicts } from './scheduleConflict.service';
+import { refundService } from '../payment/refund.service';
+import {
+  getZonedParts,
+  parseTimeOfDay,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
 
 const LEGACY_ASSIGNMENT_PREFIX = 'legacy-session';
 
@@ -64,6 +81,17 @@ type AssignmentResolveResult =
   | { mode: 'legacy'; assignment: any }
   | null;
 
+export interface RescheduleSessionInput {
+  newDate: string; // "YYYY-MM-DD" in the class timezone
+  startTime: string; // "HH:mm" in the class timezone
+  reason?: string;
+}
+
+const formatTimeOfDay = (totalMinutes: number) =>
+  `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(
+    totalMinutes % 60
+  ).padStart(2, '0')}`;
+
 const toPlainObject = (value: any) => {
   if (!value) return value;
   return typeof value.toObject === 'function'
@@ -1673,6 +1701,7 @@ class ClassService {
               },
               homework: homeworkSummary,
               cancellationRequest: session.cancellationRequest || null,
+              rescheduleRequest: session.rescheduleRequest || null,
               // Payment information
               paymentStatus: session.paymentStatus || 'UNPAID',
               paymentRequired: session.paymentRequired !== false, // Default true if not specified
@@ -1866,8 +1895,22 @@ class ClassService {
           (session.notes || '') +
           `\nLý do huỷ: ${session.cancellationRequest.reason}`;
 
+        const makeUpSession = await this.appendMakeUpSession(
+          learningClass,
+          session
+        );
+
         await learningClass.save();
 
+        if (makeUpSession) {
+          await this.relinkInstallmentToMakeUpSession(
+            learningClass._id.toString(),
+            session.sessionNumber,
+            makeUpSession.sessionNumber
+          );
+          await this.notifyMakeUpSession(learningClass, makeUpSession);
+        }
+
         // Send notification to requester
         try {
           const responder = await User.findById(userId);
@@ -1896,10 +1939,18 @@ class ClassService {
 
         return {
           success: true,
-          message: 'Đã chấp nhận huỷ buổi học',
+          message: makeUpSession
+            ? 'Đã chấp nhận huỷ buổi học và xếp buổi học bù'
+            : 'Đã chấp nhận huỷ buổi học',
           data: {
             sessionNumber: session.sessionNumber,
             status: session.status,
+            makeUpSession: makeUpSession
+              ? {
+                  sessionNumber: makeUpSession.sessionNumber,
+                  scheduledDate: makeUpSession.scheduledDate,
+                }
+              : null,
           },
         };
       } else {
@@ -1952,6 +2003,584 @@ class ClassService {
     }
   }
 
+  /**
+   * Append a make-up session for a cancelled one at the next free slot
+   * of the weekly schedule. Does not save the class.
+   */
+  private async appendMakeUpSession(learningClass: any, cancelledSession: any) {
+    if (cancelledSession.makeUpSessionNumber) {
+      return null;
+    }
+
+    const lastSessionDate = learningClass.sessions.reduce(
+      (latest: Date, s: any) =>
+        new Date(s.scheduledDate) > latest ? new Date(s.scheduledDate) : latest,
+      new Date(learningClass.startDate)
+    );
+    const notBefore = new Date(
+      Math.max(lastSessionDate.getTime(), Date.now())
+    );
+
+    const candidates = listScheduleSlots(
+      learningClass.schedule,
+      notBefore,
+      8,
+      notBefore
+    );
+
+    let slot: Date | null = null;
+    for (const candidate of candidates) {
+      try {
+        await this.assertRescheduleSlotAvailable(
+          learningClass,
+          0,
+          candidate,
+          cancelledSession.duration
+        );
+        slot = candidate;
+        break;
+      } catch {
+        // Try the next slot of the weekly schedule
+      }
+    }
+
+    if (!slot) {
+      logger.warn(
+        `No free make-up slot found for class ${learningClass._id}, session ${cancelledSession.sessionNumber}`
+      );
+      return null;
+    }
+
+    const sessionNumber =
+      Math.max(...learningClass.sessions.map((s: any) => s.sessionNumber)) + 1;
+
+    learningClass.sessions.push({
+      sessionNumber,
+      scheduledDate: slot,
+      duration: cancelledSession.duration,
+      status: 'SCHEDULED',
+      // The student already paid (or still owes) for the cancelled slot
+      paymentStatus: cancelledSession.paymentStatus || 'UNPAID',
+      paymentRequired: cancelledSession.paymentRequired !== false,
+      attendance: {
+        tutorAttended: false,
+        studentAttended: false,
+      },
+      makeUpForSessionNumber: cancelledSession.sessionNumber,
+    });
+    cancelledSession.makeUpSessionNumber = sessionNumber;
+
+    this.extendExpectedEndDate(learningClass, slot, cancelledSession.duration);
+
+    logger.info(
+      `Make-up session ${sessionNumber} scheduled for class ${learningClass._id} (replaces session ${cancelledSession.sessionNumber})`
+    );
+
+    return learningClass.sessions.find(
+      (s: any) => s.sessionNumber === sessionNumber
+    );
+  }
+
+  private extendExpectedEndDate(
+    learningClass: any,
+    sessionStart: Date,
+    duration: number
+  ) {
+    const sessionEnd = new Date(sessionStart.getTime() + duration * 60000);
+    if (
+      !learningClass.expectedEndDate ||
+      sessionEnd > new Date(learningClass.expectedEndDate)
+    ) {
+      learningClass.expectedEndDate = sessionEnd;
+    }
+  }
+
+  /**
+   * Point the installment (and any in-flight payment) of a cancelled session
+   * to its make-up session so paying it unlocks the new session
+   */
+  private async relinkInstallmentToMakeUpSession(
+    classId: string,
+    cancelledSessionNumber: number,
+    makeUpSessionNumber: number
+  ) {
+    try {
+      const paymentSchedule = await PaymentSchedule.findOne({
+        learningClassId: classId,
+      });
+      if (!paymentSchedule) return;
+
+      const installment = paymentSchedule.installments.find(
+        (inst) => inst.sessionNumber === cancelledSessionNumber
+      );
+      if (!installment || installment.status === 'CANCELLED') return;
+
+      installment.sessionNumber = makeUpSessionNumber;
+      installment.notes = [
+        installment.notes,
+        `Chuyển sang buổi học bù ${makeUpSessionNumber} (buổi ${cancelledSessionNumber} đã huỷ)`,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      paymentSchedule.markModified('installments');
+      await paymentSchedule.save();
+
+      await Payment.updateMany(
+        {
+          paymentScheduleId: paymentSchedule._id,
+          status: 'PENDING',
+          sessionNumbers: cancelledSessionNumber,
+        },
+        { $set: { 'sessionNumbers.$[session]': makeUpSessionNumber } },
+        { arrayFilters: [{ session: cancelledSessionNumber }] }
+      );
+    } catch (error) {
+      logger.error('Relink installment to make-up session error:', error);
+    }
+  }
+
+  private async notifyMakeUpSession(
+    learningClass: any,
+    makeUpSession: any,
+    isUpdate: boolean = false
+  ) {
+    try {
+      const subject = await Subject.findById(learningClass.subject);
+      const className = subject?.name || learningClass.title || 'Lớp học';
+
+      for (const recipientId of [
+        learningClass.tutorId.toString(),
+        learningClass.studentId.toString(),
+      ]) {
+        await notifyMakeUpSessionScheduled(
+          recipientId,
+          className,
+          makeUpSession.makeUpForSessionNumber,
+          makeUpSession.sessionNumber,
+          makeUpSession.scheduledDate,
+          learningClass._id.toString(),
+          isUpdate
+        );
+      }
+    } catch (notifError) {
+      logger.error('Failed to send notification:', notifError);
+    }
+  }
+
+  /**
+   * Tutor overrides the automatically proposed slot of a make-up session
+   */
+  async updateMakeUpSessionSlot(
+    classId: string,
+    sessionNumber: number,
+    tutorId: string,
+    input: RescheduleSessionInput
+  ) {
+    try {
+      const learningClass = await LearningClass.findById(classId);
+      if (!learningClass) {
+        throw new Error('Không tìm thấy lớp học');
+      }
+
+      if (learningClass.tutorId.toString() !== tutorId) {
+        throw new Error('Chỉ gia sư của lớp mới có thể đổi lịch buổi học bù');
+      }
+
+      const session = learningClass.sessions.find(
+        (s) => s.sessionNumber === sessionNumber
+      );
+      if (!session || !session.makeUpForSessionNumber) {
+        throw new Error('Không tìm thấy buổi học bù');
+      }
+
+      if (session.status !== 'SCHEDULED') {
+        throw new Error('Chỉ có thể đổi lịch buổi học bù chưa diễn ra');
+      }
+
+      const [year, month, day] = input.newDate.split('-').map(Number);
+      const { hour, minute } = parseTimeOfDay(input.startTime);
+      const proposedDate = zonedTimeToUtc(
+        { year, month, day, hour, minute },
+        resolveTimezone(learningClass.schedule?.timezone)
+      );
+
+      if (Number.isNaN(proposedDate.getTime())) {
+        throw new Error('Thời gian đề xuất không hợp lệ');
+      }
+
+      await this.assertRescheduleSlotAvailable(
+        learningClass,
+        sessionNumber,
+        proposedDate,
+        session.duration
+      );
+
+      session.scheduledDate = proposedDate;
+      this.extendExpectedEndDate(learningClass, proposedDate, session.duration);
+
+      await learningClass.save();
+      await this.notifyMakeUpSession(learningClass, session, true);
+
+      return {
+        success: true,
+        message: 'Đã cập nhật lịch buổi học bù',
+        data: {
+          sessionNumber: session.sessionNumber,
+          scheduledDate: session.scheduledDate,
+          makeUpForSessionNumber: session.makeUpForSessionNumber,
+          expectedEndDate: learningClass.expectedEndDate,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Update make-up session slot error:', error);
+      throw new Error(error.message || 'Không thể cập nhật buổi học bù');
+    }
+  }
+
+  /**
+   * Make sure a proposed session slot is free for both tutor and student
+   */
+  private async assertRescheduleSlotAvailable(
+    learningClass: any,
+    sessionNumber: number,
+    proposedDate: Date,
+    duration: number
+  ) {
+    if (proposedDate.getTime() <= Date.now()) {
+      throw new Error('Thời gian đề xuất phải sau thời điểm hiện tại');
+    }
+
+    const timeZone = resolveTimezone(learningClass.schedule?.timezone);
+    const local = getZonedParts(proposedDate, timeZone);
+    const startMinutes = local.hour * 60 + local.minute;
+    const localDay = new Date(
+      Date.UTC(local.year, local.month - 1, local.day)
+    ).getUTCDay();
+
+    const conflicts = await findScheduleConflicts({
+      tutorId: learningClass.tutorId.toString(),
+      studentId: learningClass.studentId.toString(),
+      dayOfWeek: [localDay],
+      startTime: formatTimeOfDay(startMinutes),
+      endTime: formatTimeOfDay(startMinutes + duration),
+      startDate: proposedDate,
+      excludeClassId: learningClass._id.toString(),
+    });
+
+    if (conflicts.hasConflict) {
+      const conflict =
+        conflicts.tutorConflicts[0] || conflicts.studentConflicts[0];
+      const owner = conflicts.tutorConflicts.length ? 'gia sư' : 'học viên';
+      throw new Error(
+        `Lịch học bị trùng với lớp "${conflict.className}" của ${owner} (${conflict.existingTime}). Vui lòng chọn thời gian khác.`
+      );
+    }
+
+    // Sessions of this class must not overlap each other either
+    const proposedEnd = proposedDate.getTime() + duration * 60000;
+    const overlapping = learningClass.sessions.find(
+      (s: any) =>
+        s.sessionNumber !== sessionNumber &&
+        s.status !== 'CANCELLED' &&
+        new Date(s.scheduledDate).getTime() < proposedEnd &&
+        new Date(s.scheduledDate).getTime() + s.duration * 60000 >
+          proposedDate.getTime()
+    );
+
+    if (overlapping) {
+      throw new Error(
+        `Thời gian đề xuất trùng với buổi ${overlapping.sessionNumber} của lớp này`
+      );
+    }
+  }
+
+  /**
+   * Request to reschedule a session (the other party must accept)
+   */
+  async requestRescheduleSession(
+    classId: string,
+    sessionNumber: number,
+    userId: string,
+    input: RescheduleSessionInput
+  ) {
+    try {
+      const learningClass = await LearningClass.findById(classId);
+      if (!learningClass) {
+        throw new Error('Không tìm thấy lớp học');
+      }
+
+      const isTutor = learningClass.tutorId.toString() === userId;
+      const isStudent = learningClass.studentId.toString() === userId;
+
+      if (!isTutor && !isStudent) {
+        throw new Error('Bạn không có quyền đổi lịch buổi học này');
+      }
+
+      if (learningClass.status !== 'ACTIVE') {
+        throw new Error('Chỉ có thể đổi lịch buổi học của lớp đang hoạt động');
+      }
+
+      const session = learningClass.sessions.find(
+        (s) => s.sessionNumber === sessionNumber
+      );
+      if (!session) {
+        throw new Error('Không tìm thấy buổi học');
+      }
+
+      if (session.status !== 'SCHEDULED') {
+        throw new Error('Chỉ có thể đổi lịch buổi học chưa diễn ra');
+      }
+
+      if (session.rescheduleRequest?.status === 'PENDING') {
+        throw new Error('Đã có yêu cầu đổi lịch đang chờ phản hồi');
+      }
+
+      const [year, month, day] = input.newDate.split('-').map(Number);
+      const { hour, minute } = parseTimeOfDay(input.startTime);
+      const proposedDate = zonedTimeToUtc(
+        { year, month, day, hour, minute },
+        resolveTimezone(learningClass.schedule?.timezone)
+      );
+
+      if (
+        Number.isNaN(proposedDate.getTime()) ||
+        proposedDate.getTime() === new Date(session.scheduledDate).getTime()
+      ) {
+        throw new Error('Thời gian đề xuất không hợp lệ');
+      }
+
+      await this.assertRescheduleSlotAvailable(
+        learningClass,
+        sessionNumber,
+        proposedDate,
+        session.duration
+      );
+
+      session.rescheduleRequest = {
+        requestedBy: isTutor ? 'TUTOR' : 'STUDENT',
+        requestedByUserId: userId,
+        previousDate: session.scheduledDate,
+        proposedDate,
+        reason: input.reason?.trim(),
+        requestedAt: new Date(),
+        status: 'PENDING',
+      };
+
+      await learningClass.save();
+
+      // Send notification to the other party
+      try {
+        const requester = await User.findById(userId);
+        const requesterName =
+          requester?.full_name ||
+          requester?.email ||
+          (isTutor ? 'Gia sư' : 'Học viên');
+        const subject = await Subject.findById(learningClass.subject);
+        const className = subject?.name || learningClass.title || 'Lớp học';
+        const recipientId = isTutor
+          ? learningClass.studentId.toString()
+          : learningClass.tutorId.toString();
+
+        await notifyRescheduleRequested(
+          recipientId,
+          requesterName,
+          className,
+          sessionNumber,
+          proposedDate,
+          input.reason?.trim(),
+          learningClass._id.toString()
+        );
+      } catch (notifError) {
+        logger.error('Failed to send notification:', notifError);
+      }
+
+      return {
+        success: true,
+        message: 'Yêu cầu đổi lịch đã được gửi. Đang chờ phản hồi.',
+        data: {
+          sessionNumber: session.sessionNumber,
+          scheduledDate: session.scheduledDate,
+          rescheduleRequest: session.rescheduleRequest,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Request reschedule session error:', error);
+      throw new Error(error.message || 'Không thể gửi yêu cầu đổi lịch');
+    }
+  }
+
+  /**
+   * Respond to a reschedule request (accept or reject)
+   */
+  async respondToRescheduleRequest(
+    classId: string,
+    sessionNumber: number,
+    userId: string,
+    action: 'ACCEPT' | 'REJECT',
+    note?: string
+  ) {
+    try {
+      const learningClass = await LearningClass.findById(classId);
+      if (!learningClass) {
+        throw new Error('Không tìm thấy lớp học');
+      }
+
+      const isTutor = learningClass.tutorId.toString() === userId;
+      const isStudent = learningClass.studentId.toString() === userId;
+
+      if (!isTutor && !isStudent) {
+        throw new Error('Bạn không có quyền phản hồi yêu cầu này');
+      }
+
+      const session = learningClass.sessions.find(
+        (s) => s.sessionNumber === sessionNumber
+      );
+      if (!session) {
+        throw new Error('Không tìm thấy buổi học');
+      }
+
+      const request = session.rescheduleRequest;
+      if (!request || request.status !== 'PENDING') {
+        throw new Error('Không có yêu cầu đổi lịch nào đang chờ phản hồi');
+      }
+
+      const currentUserRole = isTutor ? 'TUTOR' : 'STUDENT';
+      if (request.requestedBy === currentUserRole) {
+        throw new Error('Bạn không thể phản hồi yêu cầu do chính mình tạo');
+      }
+
+      if (action === 'ACCEPT') {
+        if (session.status !== 'SCHEDULED') {
+          throw new Error('Buổi học không còn ở trạng thái có thể đổi lịch');
+        }
+
+        // Re-check: calendars may have changed since the request was made
+        await this.assertRescheduleSlotAvailable(
+          learningClass,
+          sessionNumber,
+          new Date(request.proposedDate),
+          session.duration
+        );
+
+        session.scheduledDate = request.proposedDate;
+        this.extendExpectedEndDate(
+          learningClass,
+          new Date(request.proposedDate),
+          session.duration
+        );
+      }
+
+      request.status = action === 'ACCEPT' ? 'ACCEPTED' : 'REJECTED';
+      request.respondedAt = new Date();
+      request.responseNote = note?.trim();
+
+      session.rescheduleHistory = [
+        ...(session.rescheduleHistory || []),
+        {
+          ...toPlainObject(request),
+          respondedBy: currentUserRole,
+        },
+      ];
+
+      learningClass.markModified('sessions');
+      await learningClass.save();
+
+      // Send notification to requester
+      try {
+        const responder = await User.findById(userId);
+        const responderName =
+          responder?.full_name ||
+          responder?.email ||
+          (isTutor ? 'Gia sư' : 'Học viên');
+        const subject = await Subject.findById(learningClass.subject);
+        const className = subject?.name || learningClass.title || 'Lớp học';
+
+        await notifyRescheduleResponded(
+          request.requestedByUserId,
+          responderName,
+          request.status as 'ACCEPTED' | 'REJECTED',
+          className,
+          sessionNumber,
+          request.proposedDate,
+          learningClass._id.toString()
+        );
+      } catch (notifError) {
+        logger.error('Failed to send notification:', notifError);
+      }
+
+      return {
+        success: true,
+        message:
+          action === 'ACCEPT'
+            ? 'Đã chấp nhận đổi lịch buổi học'
+            : 'Đã từ chối yêu cầu đổi lịch',
+        data: {
+          sessionNumber: session.sessionNumber,
+          scheduledDate: session.scheduledDate,
+          rescheduleRequest: session.rescheduleRequest,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Respond to reschedule request error:', error);
+      throw new Error(error.message || 'Không thể phản hồi yêu cầu đổi lịch');
+    }
+  }
+
+  /**
+   * Withdraw a pending reschedule request (requester only)
+   */
+  async withdrawRescheduleRequest(
+    classId: string,
+    sessionNumber: number,
+    userId: string
+  ) {
+    try {
+      const learningClass = await LearningClass.findById(classId);
+      if (!learningClass) {
+        throw new Error('Không tìm thấy lớp học');
+      }
+
+      const session = learningClass.sessions.find(
+        (s) => s.sessionNumber === sessionNumber
+      );
+      if (!session) {
+        throw new Error('Không tìm thấy buổi học');
+      }
+
+      const request = session.rescheduleRequest;
+      if (!request || request.status !== 'PENDING') {
+        throw new Error('Không có yêu cầu đổi lịch nào đang chờ phản hồi');
+      }
+
+      if (request.requestedByUserId !== userId) {
+        throw new Error('Chỉ người tạo yêu cầu mới có thể rút lại');
+      }
+
+      request.status = 'WITHDRAWN';
+      request.respondedAt = new Date();
+      session.rescheduleHistory = [
+        ...(session.rescheduleHistory || []),
+        toPlainObject(request),
+      ];
+
+      learningClass.markModified('sessions');
+      await learningClass.save();
+
+      return {
+        success: true,
+        message: 'Đã rút lại yêu cầu đổi lịch',
+        data: {
+          sessionNumber: session.sessionNumber,
+          rescheduleRequest: session.rescheduleRequest,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Withdraw reschedule request error:', error);
+      throw new Error(error.message || 'Không thể rút lại yêu cầu đổi lịch');
+    }
+  }
+
   /**
    * Class study materials
    */
@@ -2643,7 +3272,7 @@ class ClassService {
       await learningClass.save();
 
       // Generate sessions based on schedule
-      await this.generateLearningSessions(learningClass._id);
+      await generateLearningSessions(learningClass._id);
 
       logger.info(`Learning class created successfully: ${learningClass._id}`);
 
@@ -2671,62 +3300,6 @@ class ClassService {
     }
   }
 
-  /**
-   * Generate learning sessions based on schedule
-   */
-  private async generateLearningSessions(classId: string) {
-    try {
-      const learningClass = await LearningClass.findById(classId);
-      if (!learningClass) return;
-
-      const sessions = [];
-      let sessionNumber = 1;
-      let currentDate = new Date(learningClass.startDate);
-
-      // Parse startTime from schedule (format: "HH:mm")
-      const [startHour, startMinute] = learningClass.schedule.startTime
-        .split(':')
-        .map(Number);
-
-      while (sessionNumber <= learningClass.totalSessions) {
-        const dayOfWeek = currentDate.getDay();
-
-        if (learningClass.schedule.dayOfWeek.includes(dayOfWeek)) {
-          // Create scheduledDate with correct time
-          const scheduledDateTime = new Date(currentDate);
-          scheduledDateTime.setHours(startHour, startMinute, 0, 0);
-
-          sessions.push({
-            sessionNumber,
-            scheduledDate: scheduledDateTime,
-            duration: learningClass.sessionDuration,
-            status: 'SCHEDULED' as const,
-            paymentStatus: 'UNPAID' as const,
-            paymentRequired: true,
-            attendance: {
-              tutorAttended: false,
-              studentAttended: false,
-            },
-          });
-          sessionNumber++;
-        }
-
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-
-        // Safety check to prevent infinite loop
-        if (currentDate.getTime() > Date.now() + 365 * 24 * 60 * 60 * 1000) {
-          break;
-        }
-      }
-
-      learningClass.sessions = sessions;
-      await learningClass.save();
-    } catch (error) {
-      logger.error('Generate learning sessions error:', error);
-    }
-  }
-
   /**
    * Cancel learning class (used when contract is cancelled)
    */
@@ -2756,6 +3329,25 @@ class ClassService {
 
       logger.info(`Learning class ${classId} cancelled by user: ${userId}`);
 
+      // Refund paid sessions that will no longer be delivered
+      try {
+        const refunds = await refundService.processClassCancellation(
+          classId,
+          userId,
+          reason
+        );
+        if (refunds.length > 0) {
+          logger.info(
+            `Created ${refunds.length} refund(s) for cancelled class ${classId}`
+          );
+        }
+      } catch (refundError) {
+        logger.error(
+          `Failed to create refunds for cancelled class ${classId}:`,
+          refundError
+        );
+      }
+
       return learningClass;
     } catch (error: any) {
       logger.error('Cancel learning class error:', error);
@@ -3156,6 +3748,23 @@ class ClassService {
         };
       }
 
+      // Optionally block sessions whose installment is overdue
+      if (process.env.BLOCK_OVERDUE_SESSIONS === 'true') {
+        const overdueSchedule = await PaymentSchedule.exists({
+          learningClassId: classId,
+          installments: {
+            $elemMatch: { sessionNumber, status: 'OVERDUE' },
+          },
+        });
+
+        if (overdueSchedule) {
+          return {
+            canJoin: false,
+            reason: 'Học phí buổi học đã quá hạn. Vui lòng thanh toán (kèm phí trễ hạn) để tham gia.'
+          };
+        }
+      }
+
       // Check time: Allow joining 15 minutes before until session end
       const now = new Date();
       const scheduledDate = new Date(session.scheduledDate);
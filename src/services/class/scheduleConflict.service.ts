@@ -0,0 +1,158 @@
+import { LearningClass } from '../../models/LearningClass';
+
+const DAY_NAMES = [
+  'Chủ nhật',
+  'Thứ hai',
+  'Thứ ba',
+  'Thứ tư',
+  'Thứ năm',
+  'Thứ sáu',
+  'Thứ bảy',
+];
+
+export interface ScheduleConflictInput {
+  tutorId: string;
+  studentId: string;
+  dayOfWeek: number[];
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+  startDate: Date | string;
+  excludeClassId?: string;
+}
+
+export interface ScheduleConflictResult {
+  tutorConflicts: any[];
+  studentConflicts: any[];
+  hasConflict: boolean;
+}
+
+const checkTimeOverlap = (
+  start1: string,
+  end1: string,
+  start2: string,
+  end2: string
+): boolean => {
+  const [h1, m1] = start1.split(':').map(Number);
+  const [h2, m2] = end1.split(':').map(Number);
+  const [h3, m3] = start2.split(':').map(Number);
+  const [h4, m4] = end2.split(':').map(Number);
+
+  const start1Mins = h1 * 60 + m1;
+  const end1Mins = h2 * 60 + m2;
+  const start2Mins = h3 * 60 + m3;
+  const end2Mins = h4 * 60 + m4;
+
+  return start1Mins < end2Mins && end1Mins > start2Mins;
+};
+
+/**
+ * Check a weekly time slot against the active classes of both tutor and student
+ */
+export const findScheduleConflicts = async ({
+  tutorId,
+  studentId,
+  dayOfWeek,
+  startTime,
+  endTime,
+  startDate,
+  excludeClassId,
+}: ScheduleConflictInput): Promise<ScheduleConflictResult> => {
+  const conflicts: ScheduleConflictResult = {
+    tutorConflicts: [],
+    studentConflicts: [],
+    hasConflict: false,
+  };
+
+  // Build query for active classes
+  const baseQuery: any = {
+    status: { $in: ['ACTIVE', 'PAUSED'] },
+    $or: [
+      { actualEndDate: { $exists: false } },
+      { actualEndDate: { $gt: new Date(startDate) } },
+    ],
+  };
+
+  if (excludeClassId) {
+    baseQuery._id = { $ne: excludeClassId };
+  }
+
+  // Check tutor's schedule
+  const tutorClasses = await LearningClass.find({
+    ...baseQuery,
+    tutorId,
+  })
+    .select('title schedule startDate expectedEndDate actualEndDate studentId')
+    .populate('studentId', 'full_name')
+    .lean();
+
+  // Check student's schedule
+  const studentClasses = await LearningClass.find({
+    ...baseQuery,
+    studentId,
+  })
+    .select('title schedule startDate expectedEndDate actualEndDate tutorId')
+    .populate('tutorId', 'full_name')
+    .lean();
+
+  // Check tutor conflicts
+  for (const learningClass of tutorClasses) {
+    const existingSchedule = learningClass.schedule;
+
+    // Check if there's any common day
+    const commonDays = dayOfWeek.filter((day: number) =>
+      existingSchedule.dayOfWeek.includes(day)
+    );
+
+    if (
+      commonDays.length > 0 &&
+      checkTimeOverlap(
+        startTime,
+        endTime,
+        existingSchedule.startTime,
+        existingSchedule.endTime
+      )
+    ) {
+      conflicts.tutorConflicts.push({
+        classId: learningClass._id,
+        className: learningClass.title,
+        conflictingDays: commonDays.map((d) => DAY_NAMES[d]),
+        existingTime: `${existingSchedule.startTime} - ${existingSchedule.endTime}`,
+        studentName: (learningClass.studentId as any)?.full_name || 'N/A',
+      });
+    }
+  }
+
+  // Check student conflicts
+  for (const learningClass of studentClasses) {
+    const existingSchedule = learningClass.schedule;
+
+    // Check if there's any common day
+    const commonDays = dayOfWeek.filter((day: number) =>
+      existingSchedule.dayOfWeek.includes(day)
+    );
+
+    if (
+      commonDays.length > 0 &&
+      checkTimeOverlap(
+        startTime,
+        endTime,
+        existingSchedule.startTime,
+        existingSchedule.endTime
+      )
+    ) {
+      conflicts.studentConflicts.push({
+        classId: learningClass._id,
+        className: learningClass.title,
+        conflictingDays: commonDays.map((d) => DAY_NAMES[d]),
+        existingTime: `${existingSchedule.startTime} - ${existingSchedule.endTime}`,
+        tutorName: (learningClass.tutorId as any)?.full_name || 'N/A',
+      });
+    }
+  }
+
+  conflicts.hasConflict =
+    conflicts.tutorConflicts.length > 0 ||
+    conflicts.studentConflicts.length > 0;
+
+  return conflicts;
+};
@@ -0,0 +1,158 @@
+import { LearningClass, ILearningSession } from '../../models/LearningClass';
+import { logger } from '../../utils/logger';
+import {
+  getZonedParts,
+  parseTimeOfDay,
+  resolveTimezone,
+  startOfLocalDay,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionScheduleInput {
+  dayOfWeek: number[]; // 0 = Sunday ... 6 = Saturday, in the class timezone
+  startTime: string; // "HH:mm" wall-clock time in the class timezone
+  endTime?: string;
+  timezone?: string; // IANA name, defaults to Asia/Ho_Chi_Minh
+}
+
+export interface BuildSessionsOptions {
+  schedule: SessionScheduleInput;
+  startDate: Date;
+  totalSessions: number;
+  sessionDuration: number; // minutes
+  firstSessionNumber?: number;
+}
+
+export type GeneratedSession = Pick<
+  ILearningSession,
+  | 'sessionNumber'
+  | 'scheduledDate'
+  | 'duration'
+  | 'status'
+  | 'paymentStatus'
+  | 'paymentRequired'
+  | 'attendance'
+>;
+
+/**
+ * List the next `count` slot start instants matching the weekly schedule,
+ * beginning with the calendar day of `from` in the schedule's timezone.
+ * When `strictlyAfter` is set, slots at or before that instant are skipped.
+ */
+export const listScheduleSlots = (
+  schedule: SessionScheduleInput,
+  from: Date,
+  count: number,
+  strictlyAfter?: Date
+): Date[] => {
+  const days = Array.from(new Set(schedule.dayOfWeek || [])).filter(
+    (day) => day >= 0 && day <= 6
+  );
+  if (count <= 0 || days.length === 0) {
+    return [];
+  }
+
+  const timeZone = resolveTimezone(schedule.timezone);
+  const { hour, minute } = parseTimeOfDay(schedule.startTime);
+  const localStart = getZonedParts(from, timeZone);
+
+  // Walk calendar days (not instants) so DST changes never skip or repeat a day
+  let cursor = Date.UTC(localStart.year, localStart.month - 1, localStart.day);
+
+  // Enough weeks to fit `count` slots plus one spare week for `strictlyAfter`
+  const maxDays = (Math.ceil(count / days.length) + 2) * 7;
+  const slots: Date[] = [];
+
+  for (let i = 0; i < maxDays && slots.length < count; i++, cursor += DAY_MS) {
+    const calendarDay = new Date(cursor);
+    if (!days.includes(calendarDay.getUTCDay())) {
+      continue;
+    }
+
+    const slot = zonedTimeToUtc(
+      {
+        year: calendarDay.getUTCFullYear(),
+        month: calendarDay.getUTCMonth() + 1,
+        day: calendarDay.getUTCDate(),
+        hour,
+        minute,
+      },
+      timeZone
+    );
+
+    if (strictlyAfter && slot.getTime() <= strictlyAfter.getTime()) {
+      continue;
+    }
+
+    slots.push(slot);
+  }
+
+  return slots;
+};
+
+/**
+ * Build the session list for a class from its weekly schedule.
+ * Times are interpreted in `schedule.timezone`, independent of the server TZ,
+ * and sessions start on the local calendar day `startDate` stands for.
+ */
+export const buildLearningSessions = ({
+  schedule,
+  startDate,
+  totalSessions,
+  sessionDuration,
+  firstSessionNumber = 1,
+}: BuildSessionsOptions): GeneratedSession[] => {
+  const firstDay = startOfLocalDay(
+    new Date(startDate),
+    resolveTimezone(schedule.timezone)
+  );
+
+  return listScheduleSlots(schedule, firstDay, totalSessions).map(
+    (scheduledDate, index) => ({
+      sessionNumber: firstSessionNumber + index,
+      scheduledDate,
+      duration: sessionDuration,
+      status: 'SCHEDULED' as const,
+      paymentStatus: 'UNPAID' as const,
+      paymentRequired: true,
+      attendance: {
+        tutorAttended: false,
+        studentAttended: false,
+      },
+    })
+  );
+};
+
+/**
+ * Generate and persist sessions for a newly created learning class.
+ * Shared by contract-based and contact-request-based class creation.
+ */
+export const generateLearningSessions = async (classId: string) => {
+  try {
+    const learningClass = await LearningClass.findById(classId);
+    if (!learningClass) return [];
+
+    const sessions = buildLearningSessions({
+      schedule: learningClass.schedule,
+      startDate: learningClass.startDate,
+      totalSessions: learningClass.totalSessions,
+      sessionDuration: learningClass.sessionDuration,
+    });
+
+    if (sessions.length < learningClass.totalSessions) {
+      logger.warn(
+        `Generated ${sessions.length}/${learningClass.totalSessions} sessions for class ${classId}: schedule has no valid days`
+      );
+    }
+
+    learningClass.sessions = sessions as ILearningSession[];
+    await learningClass.save();
+
+    return sessions;
+  } catch (error) {
+    logger.error('Generate learning sessions error:', error);
+    return [];
+  }
+};
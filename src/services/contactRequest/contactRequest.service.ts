@@ -3,19 +3,25 @@ import { TutorPost } from '../../models/TutorPost';
 import { User } from '../../models/User';
 import { Subject } from '../../models/Subject';
 import { LearningClass } from '../../models/LearningClass';
+import { Contract } from '../../models/Contract';
 import { logger } from '../../utils/logger';
 import {
   CreateContactRequestInput,
   TutorResponseInput,
   CreateLearningClassInput,
   ContactRequestFilters,
+  SubmitOfferInput,
+  RespondToOfferInput,
 } from '../../types/contactRequest.types';
 import {
   notifyContactRequestSent,
   notifyContactRequestResponded,
+  notifyOfferReceived,
+  notifyOfferResponded,
 } from '../notification/notification.helpers';
 import { mapContactRequestToResponse } from '../../utils/mappers/contactRequest.mapper';
 import { Post } from '../../models/Post';
+import { generateLearningSessions } from '../class/sessionGenerator';
 
 class ContactRequestService {
   /**
@@ -518,6 +524,31 @@ class ContactRequestService {
           acceptedAt: new Date(),
           counterOffer: responseData.counterOffer,
         };
+
+        // Keep the counter-offer in the negotiation thread so the student can answer it
+        const counterOffer = responseData.counterOffer;
+        if (counterOffer?.pricePerSession || counterOffer?.sessionDuration) {
+          const offers = contactRequest.offers || [];
+          const previous = offers[offers.length - 1];
+          if (previous?.status === 'PENDING') {
+            previous.status = 'SUPERSEDED';
+            previous.respondedAt = new Date();
+          }
+          contactRequest.offers.push({
+            offerNumber: offers.length + 1,
+            proposedBy: tutorId,
+            proposedByRole: 'TUTOR',
+            pricePerSession:
+              counterOffer.pricePerSession ?? contactRequest.expectedPrice,
+            sessionDuration:
+              counterOffer.sessionDuration ?? contactRequest.sessionDuration,
+            message: [counterOffer.schedule, counterOffer.conditions]
+              .filter(Boolean)
+              .join('\n'),
+            status: 'PENDING',
+            createdAt: new Date(),
+          });
+        }
       } else {
         contactRequest.status = 'REJECTED';
         contactRequest.tutorResponse = {
@@ -696,7 +727,7 @@ class ContactRequestService {
       await learningClass.save();
 
       // Generate initial sessions
-      await this.generateLearningSessions(learningClass._id); // ✅ Fix tên hàm
+      await generateLearningSessions(learningClass._id);
 
       // Create conversation for chat communication
       try {
@@ -751,63 +782,6 @@ class ContactRequestService {
     }
   }
 
-  /**
-   * ✅ Fix: Generate learning sessions with correct time
-   */
-  private async generateLearningSessions(classId: string) {
-    try {
-      const learningClass = await LearningClass.findById(classId);
-      if (!learningClass) return;
-
-      const sessions = [];
-      let sessionNumber = 1;
-      let currentDate = new Date(learningClass.startDate);
-
-      // Parse startTime from schedule (format: "HH:mm")
-      const [startHour, startMinute] = learningClass.schedule.startTime
-        .split(':')
-        .map(Number);
-
-      while (sessionNumber <= learningClass.totalSessions) {
-        const dayOfWeek = currentDate.getDay();
-
-        if (learningClass.schedule.dayOfWeek.includes(dayOfWeek)) {
-          // Create scheduledDate with correct time
-          const scheduledDateTime = new Date(currentDate);
-          scheduledDateTime.setHours(startHour, startMinute, 0, 0);
-
-          sessions.push({
-            sessionNumber,
-            scheduledDate: scheduledDateTime,
-            duration: learningClass.sessionDuration,
-            status: 'SCHEDULED' as const,
-            paymentStatus: 'UNPAID' as const,
-            paymentRequired: true,
-            attendance: {
-              checkedIn: false,
-              tutorAttended: false,
-              studentAttended: false,
-            },
-          });
-          sessionNumber++;
-        }
-
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-
-        // Safety check to prevent infinite loop
-        if (currentDate.getTime() > Date.now() + 365 * 24 * 60 * 60 * 1000) {
-          break;
-        }
-      }
-
-      learningClass.sessions = sessions;
-      await learningClass.save();
-    } catch (error) {
-      logger.error('Generate learning sessions error:', error);
-    }
-  }
-
   /**
    * Build a map of contactRequestId -> learningClass info to enrich responses
    */
@@ -894,6 +868,259 @@ class ContactRequestService {
     }
   }
 
+  /**
+   * Get the negotiation thread of a request (both parties)
+   */
+  async getOffers(userId: string, requestId: string) {
+    try {
+      const contactRequest = await ContactRequest.findOne({
+        _id: requestId,
+        $or: [{ studentId: userId }, { tutorId: userId }],
+      }).select('status offers acceptedOfferNumber expiresAt');
+
+      if (!contactRequest) {
+        throw new Error('Không tìm thấy yêu cầu');
+      }
+
+      return {
+        success: true,
+        message: 'Lấy lịch sử đề nghị thành công',
+        data: {
+          status: contactRequest.status,
+          offers: contactRequest.offers,
+          acceptedOfferNumber: contactRequest.acceptedOfferNumber,
+          expiresAt: contactRequest.expiresAt,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Get offers error:', error);
+      throw new Error(error.message || 'Không thể lấy lịch sử đề nghị');
+    }
+  }
+
+  /**
+   * Submit an offer (or counter-offer) on a request - tutor or student.
+   * The offer is a full snapshot: missing fields are taken from the previous
+   * offer, then from the request itself.
+   */
+  async submitOffer(
+    userId: string,
+    requestId: string,
+    offerData: SubmitOfferInput
+  ) {
+    try {
+      const contactRequest = await ContactRequest.findOne({
+        _id: requestId,
+        $or: [{ studentId: userId }, { tutorId: userId }],
+      });
+
+      if (!contactRequest) {
+        throw new Error('Không tìm thấy yêu cầu');
+      }
+
+      await this.assertNegotiable(contactRequest);
+
+      const role: 'STUDENT' | 'TUTOR' =
+        contactRequest.tutorId.toString() === userId ? 'TUTOR' : 'STUDENT';
+      const offers = contactRequest.offers || [];
+      const previous = offers[offers.length - 1];
+
+      const offer = {
+        offerNumber: offers.length + 1,
+        proposedBy: userId,
+        proposedByRole: role,
+        pricePerSession:
+          offerData.pricePerSession ??
+          previous?.pricePerSession ??
+          contactRequest.expectedPrice,
+        totalSessions: offerData.totalSessions ?? previous?.totalSessions,
+        sessionDuration:
+          offerData.sessionDuration ??
+          previous?.sessionDuration ??
+          contactRequest.sessionDuration,
+        learningMode:
+          offerData.learningMode ??
+          previous?.learningMode ??
+          (contactRequest.learningMode !== 'FLEXIBLE'
+            ? contactRequest.learningMode
+            : undefined),
+        schedule:
+          offerData.schedule ??
+          (previous?.schedule?.dayOfWeek?.length
+            ? previous.schedule
+            : undefined),
+        message: offerData.message,
+        status: 'PENDING' as const,
+        createdAt: new Date(),
+      };
+
+      if (offer.schedule) {
+        await this.validateScheduleConflict(
+          contactRequest.tutorId.toString(),
+          offer.schedule,
+          new Date()
+        );
+      }
+
+      // A counter-offer replaces the offer still waiting for an answer
+      if (previous?.status === 'PENDING') {
+        previous.status = 'SUPERSEDED';
+        previous.respondedAt = new Date();
+      }
+      contactRequest.offers.push(offer);
+
+      // Ongoing negotiation restarts the response window
+      if (contactRequest.status === 'PENDING') {
+        contactRequest.expiresAt = new Date(
+          Date.now() + 7 * 24 * 60 * 60 * 1000
+        );
+        contactRequest.expiryReminderSentAt = undefined;
+      }
+
+      await contactRequest.save();
+
+      try {
+        const proposer = await User.findById(userId);
+        await notifyOfferReceived(
+          role === 'TUTOR'
+            ? contactRequest.studentId.toString()
+            : contactRequest.tutorId.toString(),
+          role === 'TUTOR' ? 'STUDENT' : 'TUTOR',
+          proposer?.full_name || proposer?.email || '',
+          contactRequest._id,
+          offer.offerNumber
+        );
+      } catch (notifError) {
+        logger.error('Failed to send offer notification:', notifError);
+      }
+
+      return {
+        success: true,
+        message: 'Gửi đề nghị thành công',
+        data: offer,
+      };
+    } catch (error: any) {
+      logger.error('Submit offer error:', error);
+      throw new Error(error.message || 'Không thể gửi đề nghị');
+    }
+  }
+
+  /**
+   * Accept or decline the latest offer of the other party.
+   * Accepting agrees on the terms (and accepts a pending request).
+   */
+  async respondToOffer(
+    userId: string,
+    requestId: string,
+    offerNumber: number,
+    responseData: RespondToOfferInput
+  ) {
+    try {
+      const contactRequest = await ContactRequest.findOne({
+        _id: requestId,
+        $or: [{ studentId: userId }, { tutorId: userId }],
+      });
+
+      if (!contactRequest) {
+        throw new Error('Không tìm thấy yêu cầu');
+      }
+
+      await this.assertNegotiable(contactRequest);
+
+      const offers = contactRequest.offers || [];
+      const offer = offers[offers.length - 1];
+      if (!offer || offer.offerNumber !== offerNumber) {
+        throw new Error('Chỉ có thể phản hồi đề nghị mới nhất');
+      }
+      if (offer.status !== 'PENDING') {
+        throw new Error('Đề nghị đã được phản hồi');
+      }
+      if (offer.proposedBy === userId) {
+        throw new Error('Không thể tự phản hồi đề nghị của mình');
+      }
+
+      const now = new Date();
+      if (responseData.action === 'ACCEPT') {
+        if (offer.schedule?.dayOfWeek?.length) {
+          await this.validateScheduleConflict(
+            contactRequest.tutorId.toString(),
+            offer.schedule,
+            now
+          );
+        }
+
+        offer.status = 'ACCEPTED';
+        contactRequest.acceptedOfferNumber = offer.offerNumber;
+
+        if (contactRequest.status === 'PENDING') {
+          contactRequest.status = 'ACCEPTED';
+          contactRequest.tutorResponse = {
+            ...(responseData.message ? { message: responseData.message } : {}),
+            acceptedAt: now,
+          };
+        }
+      } else {
+        offer.status = 'DECLINED';
+      }
+      offer.respondedAt = now;
+
+      await contactRequest.save();
+
+      try {
+        const responder = await User.findById(userId);
+        await notifyOfferResponded(
+          offer.proposedBy,
+          offer.proposedByRole,
+          responder?.full_name || responder?.email || '',
+          responseData.action,
+          contactRequest._id,
+          offer.offerNumber
+        );
+      } catch (notifError) {
+        logger.error('Failed to send offer response notification:', notifError);
+      }
+
+      return {
+        success: true,
+        message:
+          responseData.action === 'ACCEPT'
+            ? 'Đã chấp nhận đề nghị. Điều khoản sẽ được dùng khi tạo hợp đồng.'
+            : 'Đã từ chối đề nghị',
+        data: {
+          status: contactRequest.status,
+          offer,
+          acceptedOfferNumber: contactRequest.acceptedOfferNumber,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Respond to offer error:', error);
+      throw new Error(error.message || 'Không thể phản hồi đề nghị');
+    }
+  }
+
+  /**
+   * Terms can be negotiated until a contract is created for the request
+   */
+  private async assertNegotiable(contactRequest: IContactRequest) {
+    if (!['PENDING', 'ACCEPTED'].includes(contactRequest.status)) {
+      throw new Error('Yêu cầu đã kết thúc, không thể thương lượng');
+    }
+    if (
+      contactRequest.status === 'PENDING' &&
+      contactRequest.expiresAt < new Date()
+    ) {
+      throw new Error('Yêu cầu đã hết hạn');
+    }
+
+    const existingContract = await Contract.exists({
+      contactRequestId: contactRequest._id,
+      status: { $nin: ['REJECTED', 'EXPIRED', 'CANCELLED'] },
+    });
+    if (existingContract) {
+      throw new Error('Hợp đồng đã được tạo, không thể thương lượng thêm');
+    }
+  }
+
   /**
    * ✅ Validate schedule conflict - Kiểm tra trùng lịch học
    */
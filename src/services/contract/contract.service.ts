@@ -6,6 +6,7 @@ import {
   Subject,
   TutorPost,
 } from '../../models';
+import { IContract } from '../../models/Contract';
 import {
   CreateContractInput,
   StudentContractResponse,
@@ -15,6 +16,7 @@ import {
 import { PaymentService } from './payment.service';
 import { NotificationService } from '../notification/notification.service';
 import { classService } from '../class/class.service';
+import { contractAmendmentService } from './contractAmendment.service';
 import { logger } from '../../utils/logger';
 
 export class ContractService {
@@ -51,9 +53,31 @@ export class ContractService {
         throw new Error('Contract already exists for this contact request');
       }
 
+      // Terms agreed in the negotiation thread are the defaults
+      const acceptedOffer = contactRequest.offers?.find(
+        (offer) => offer.offerNumber === contactRequest.acceptedOfferNumber
+      );
+      contractData = {
+        ...contractData,
+        totalSessions:
+          contractData.totalSessions || acceptedOffer?.totalSessions,
+        schedule: contractData.schedule?.dayOfWeek?.length
+          ? contractData.schedule
+          : acceptedOffer?.schedule,
+        learningMode: contractData.learningMode || acceptedOffer?.learningMode,
+      };
+
+      if (!contractData.totalSessions) {
+        throw new Error('Total sessions not specified');
+      }
+      if (!contractData.schedule?.dayOfWeek?.length) {
+        throw new Error('Schedule not specified');
+      }
+
       // Get pricing from contact request or tutor post
       const pricePerSession =
         contractData.pricePerSession ||
+        acceptedOffer?.pricePerSession ||
         contactRequest.expectedPrice ||
         (contactRequest.tutorPostId as any)?.pricePerSession;
 
@@ -63,7 +87,10 @@ export class ContractService {
 
       // Get session duration
       const sessionDuration =
-        contractData.sessionDuration || contactRequest.sessionDuration || 90; // Default 90 minutes
+        contractData.sessionDuration ||
+        acceptedOffer?.sessionDuration ||
+        contactRequest.sessionDuration ||
+        90; // Default 90 minutes
 
       // Calculate expected end date
       const startDate = new Date(contractData.startDate);
@@ -690,8 +717,13 @@ export class ContractService {
       sessionDuration: contract.sessionDuration,
       learningMode: contract.learningMode,
       schedule: contract.schedule,
-      startDate: contract.startDate?.toISOString(),
-      expectedEndDate: contract.expectedEndDate?.toISOString(),
+      // Dates are strings when hashing the JSON snapshot (originalContent)
+      startDate: contract.startDate
+        ? new Date(contract.startDate).toISOString()
+        : undefined,
+      expectedEndDate: contract.expectedEndDate
+        ? new Date(contract.expectedEndDate).toISOString()
+        : undefined,
       location: contract.location,
       onlineInfo: contract.onlineInfo,
     };
@@ -734,16 +766,18 @@ export class ContractService {
         throw new Error('Only the tutor can sign as tutor');
       }
 
-      // Check contract status - Remove strict approval requirement
-      if (contract.status === 'REJECTED') {
-        throw new Error('Cannot sign rejected contracts');
-      }
-      // Allow signing for any non-rejected contract (PENDING_STUDENT_APPROVAL, APPROVED, etc.)
+      // Allow signing for any open contract (PENDING_STUDENT_APPROVAL, APPROVED, etc.)
+      this.assertContractOpenForSigning(contract);
 
       if (contract.isLocked) {
         throw new Error('Contract is already locked after signing');
       }
 
+      // Amendments can only be signed while the version they amend is current
+      if (contract.previousContractId) {
+        await contractAmendmentService.assertAmendmentSignable(contract);
+      }
+
       // Check if already signed by this role
       if (role === 'student' && contract.studentSignedAt) {
         throw new Error('Student has already signed this contract');
@@ -809,6 +843,9 @@ export class ContractService {
         throw new Error('User mismatch');
       }
 
+      // Status may have changed (e.g. expiry job) since the OTP was sent
+      this.assertContractOpenForSigning(contract);
+
       // Check if already signed
       if (role === 'student' && contract.studentSignedAt) {
         throw new Error('Already signed by student');
@@ -817,6 +854,16 @@ export class ContractService {
         throw new Error('Already signed by tutor');
       }
 
+      // The last signature applies the amendment: the version it amends may
+      // have changed since signing started (OTP step), so check again
+      const completesSigning =
+        role === 'student'
+          ? !!contract.tutorSignedAt
+          : !!contract.studentSignedAt;
+      if (completesSigning && contract.previousContractId) {
+        await contractAmendmentService.assertAmendmentSignable(contract);
+      }
+
       // Record signature timestamp
       const signedAt = new Date();
       if (role === 'student') {
@@ -838,8 +885,28 @@ export class ContractService {
 
       logger.info(`Contract ${contractId} signed by ${role}: ${userId}`);
 
-      // If fully signed, create learning class
-      if (fullySignedNow) {
+      // If fully signed, apply the amendment or create learning class
+      if (fullySignedNow && contract.previousContractId) {
+        try {
+          await contractAmendmentService.applyAmendment(contract);
+        } catch (applyError) {
+          // Unlock and drop this signature so the amendment is not left
+          // signed and locked without having been applied
+          if (role === 'student') {
+            contract.studentSignedAt = undefined;
+          } else {
+            contract.tutorSignedAt = undefined;
+          }
+          contract.isSigned = false;
+          contract.isLocked = false;
+          contract.lockedAt = undefined;
+          await contract.save();
+          throw applyError;
+        }
+        logger.info(
+          `Contract ${contractId} fully signed and amendment applied`
+        );
+      } else if (fullySignedNow) {
         await this.createLearningClassFromContract(contract);
         logger.info(
           `Contract ${contractId} fully signed and learning class created`
@@ -857,6 +924,27 @@ export class ContractService {
     }
   }
 
+  /**
+   * Closed (rejected, expired, cancelled, superseded) contracts and unsigned
+   * contracts past their expiresAt (not yet picked up by the expiry job)
+   * cannot be signed
+   */
+  private assertContractOpenForSigning(contract: IContract): void {
+    if (contract.status === 'REJECTED') {
+      throw new Error('Cannot sign rejected contracts');
+    }
+    if (['EXPIRED', 'CANCELLED', 'SUPERSEDED'].includes(contract.status)) {
+      throw new Error(`Cannot sign ${contract.status.toLowerCase()} contracts`);
+    }
+    if (
+      !contract.isSigned &&
+      contract.expiresAt &&
+      contract.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new Error('Contract has expired');
+    }
+  }
+
   /**
    * Validate contract integrity by comparing hash
    */
@@ -879,6 +967,92 @@ export class ContractService {
     }
   }
 
+  /**
+   * Public verification by contract code (HĐ-xxxxx) or SHA-256 hash
+   * Returns a redacted summary only: no contact data, names shortened
+   */
+  async verifyContractPublic(query: { code?: string; hash?: string }) {
+    try {
+      const filter: any = {};
+      if (query.hash) {
+        filter.contractHash = query.hash.trim().toLowerCase();
+      } else {
+        filter.title = query.code!.trim().toUpperCase().replace(/^HD-/, 'HĐ-');
+      }
+
+      const contract = await Contract.findOne(filter).populate([
+        { path: 'studentId', select: 'full_name' },
+        { path: 'tutorId', select: 'full_name' },
+        { path: 'subject', select: 'name' },
+      ]);
+
+      if (!contract) {
+        return { exists: false };
+      }
+
+      let integrityValid = contract.contractHash
+        ? await this.validateContractIntegrity(contract._id)
+        : false;
+
+      // Summary shows the terms that were hashed (snapshot taken when signing
+      // started), not live fields that may have been edited afterwards
+      let terms: any = contract;
+      if (contract.originalContent) {
+        try {
+          terms = JSON.parse(contract.originalContent);
+        } catch {
+          integrityValid = false;
+        }
+      }
+      const toDate = (value?: Date | string) =>
+        value ? new Date(value) : undefined;
+
+      // "Nguyễn Văn An" -> "Nguyễn V. A."
+      const shortenName = (fullName?: string) => {
+        const [familyName, ...rest] = (fullName || '').trim().split(/\s+/);
+        return [familyName, ...rest.map((part) => `${part.charAt(0)}.`)]
+          .join(' ')
+          .trim();
+      };
+
+      return {
+        exists: true,
+        contractCode: contract.title,
+        contractVersion: contract.contractVersion,
+        status: contract.status,
+        isSigned: contract.isSigned,
+        integrityValid,
+        verified: contract.isSigned && integrityValid,
+        supersededByAmendment: contract.status === 'SUPERSEDED',
+        contractHash: contract.contractHash,
+        summary: {
+          tutorName: shortenName((contract.tutorId as any)?.full_name),
+          studentName: shortenName((contract.studentId as any)?.full_name),
+          subject: (contract.subject as any)?.name,
+          classTitle: terms.classTitle,
+          learningMode: terms.learningMode,
+          totalSessions: terms.totalSessions,
+          pricePerSession: terms.pricePerSession,
+          totalAmount: terms.totalAmount,
+          sessionDuration: terms.sessionDuration,
+          schedule: {
+            dayOfWeek: terms.schedule?.dayOfWeek,
+            startTime: terms.schedule?.startTime,
+            endTime: terms.schedule?.endTime,
+          },
+          startDate: toDate(terms.startDate),
+          expectedEndDate: toDate(terms.expectedEndDate),
+          studentSignedAt: contract.studentSignedAt,
+          tutorSignedAt: contract.tutorSignedAt,
+          lockedAt: contract.lockedAt,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Error verifying contract publicly:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get contract audit trail (signatures)
    */
@@ -0,0 +1,761 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Contract, LearningClass } from '../../models';
+import { PaymentSchedule } from '../../models/PaymentSchedule';
+import { IContract, IContractFieldChange } from '../../models/Contract';
+import { AmendContractInput } from '../../types/contract.types';
+import { NotificationService } from '../notification/notification.service';
+import { listScheduleSlots } from '../class/sessionGenerator';
+import { logger } from '../../utils/logger';
+
+/**
+ * Contract Amendment Service
+ * An amendment is a new contract version (previousContractId → signed
+ * version) signed through the usual OTP flow. Once both parties have signed,
+ * the existing learning class and payment schedule are migrated in place:
+ * delivered or paid sessions are kept, upcoming unpaid sessions are
+ * rescheduled, repriced, added or removed.
+ */
+
+const AMENDABLE_FIELDS: { field: string; label: string }[] = [
+  { field: 'pricePerSession', label: 'Học phí mỗi buổi' },
+  { field: 'totalSessions', label: 'Tổng số buổi học' },
+  { field: 'totalAmount', label: 'Tổng chi phí' },
+  { field: 'sessionDuration', label: 'Thời lượng mỗi buổi (phút)' },
+  { field: 'learningMode', label: 'Hình thức học' },
+  { field: 'schedule.dayOfWeek', label: 'Các ngày học trong tuần' },
+  { field: 'schedule.startTime', label: 'Giờ bắt đầu' },
+  { field: 'schedule.endTime', label: 'Giờ kết thúc' },
+  { field: 'expectedEndDate', label: 'Ngày kết thúc dự kiến' },
+  { field: 'location.address', label: 'Địa điểm học' },
+  { field: 'onlineInfo.platform', label: 'Nền tảng học trực tuyến' },
+  { field: 'onlineInfo.meetingLink', label: 'Link phòng học' },
+];
+
+// Unsigned amendment versions still waiting for signatures
+const OPEN_AMENDMENT_STATUSES = ['PENDING_STUDENT_APPROVAL', 'APPROVED'];
+
+const getPath = (source: any, path: string): any =>
+  path
+    .split('.')
+    .reduce((value, key) => (value == null ? undefined : value[key]), source);
+
+const normalizeValue = (value: any): any => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return [...value];
+  return value ?? null;
+};
+
+/**
+ * Field-level diff of the amendable terms of two contract versions
+ */
+export const diffContractTerms = (
+  before: any,
+  after: any
+): IContractFieldChange[] => {
+  const changes: IContractFieldChange[] = [];
+
+  for (const { field, label } of AMENDABLE_FIELDS) {
+    const previousValue = normalizeValue(getPath(before, field));
+    const nextValue = normalizeValue(getPath(after, field));
+
+    if (JSON.stringify(previousValue) !== JSON.stringify(nextValue)) {
+      changes.push({ field, label, before: previousValue, after: nextValue });
+    }
+  }
+
+  return changes;
+};
+
+interface IAmendedTerms {
+  pricePerSession: number;
+  totalSessions: number;
+  sessionDuration: number;
+  schedule: {
+    dayOfWeek: number[];
+    startTime: string;
+    endTime: string;
+    timezone: string;
+  };
+}
+
+interface ISessionMigrationPlan {
+  lockedCount: number; // Sessions delivered, started or (being) paid
+  lockedAmount: number; // Installment amounts of locked sessions
+  keepOpen: number[]; // Upcoming unpaid sessions kept (repriced)
+  reschedule: Map<number, Date>; // Upcoming unpaid sessions moved to a new slot
+  remove: number[]; // Upcoming unpaid sessions dropped
+  append: Date[]; // New sessions to add
+  totalAmount: number;
+  expectedEndDate: Date;
+}
+
+class ContractAmendmentService {
+  /**
+   * Propose an amendment of a signed contract (tutor or student)
+   */
+  async proposeAmendment(
+    contractId: string,
+    userId: string,
+    input: AmendContractInput
+  ): Promise<IContract> {
+    const current = await Contract.findOne({
+      _id: contractId,
+      $or: [{ studentId: userId }, { tutorId: userId }],
+    });
+
+    if (!current) {
+      throw new Error('Contract not found or access denied');
+    }
+
+    if (current.status !== 'APPROVED' || !current.isSigned) {
+      throw new Error('Chỉ có thể sửa đổi hợp đồng đã được hai bên ký kết');
+    }
+
+    const pendingAmendment = await Contract.exists({
+      previousContractId: current._id,
+      status: { $in: OPEN_AMENDMENT_STATUSES },
+      isSigned: false,
+    });
+    if (pendingAmendment) {
+      throw new Error('Hợp đồng đang có một bản sửa đổi chờ ký');
+    }
+
+    const { learningClass, paymentSchedule } =
+      await this.findClassAndSchedule(current._id);
+
+    const terms: IAmendedTerms = {
+      pricePerSession: input.pricePerSession ?? current.pricePerSession,
+      totalSessions: input.totalSessions ?? current.totalSessions,
+      sessionDuration: input.sessionDuration ?? current.sessionDuration,
+      schedule: {
+        dayOfWeek: input.schedule?.dayOfWeek ?? current.schedule.dayOfWeek,
+        startTime: input.schedule?.startTime ?? current.schedule.startTime,
+        endTime: input.schedule?.endTime ?? current.schedule.endTime,
+        timezone: current.schedule.timezone,
+      },
+    };
+
+    // Validates the new terms against the class (throws if not applicable)
+    const plan = this.planSessionMigration(
+      learningClass,
+      paymentSchedule,
+      terms
+    );
+
+    const learningMode = input.learningMode ?? current.learningMode;
+    const version = (current.contractVersion || 1) + 1;
+    const baseCode = current.title.replace(/-PL\d+$/, '');
+
+    const amended = new Contract({
+      contactRequestId: current.contactRequestId,
+      studentId: current.studentId,
+      tutorId: current.tutorId,
+      tutorPostId: current.tutorPostId,
+      studentPostId: current.studentPostId,
+      subject: current.subject,
+      classTitle: current.classTitle,
+      classDescription: current.classDescription,
+
+      title: `${baseCode}-PL${version - 1}`,
+      totalSessions: terms.totalSessions,
+      pricePerSession: terms.pricePerSession,
+      totalAmount: plan.totalAmount,
+      sessionDuration: terms.sessionDuration,
+      learningMode,
+      schedule: terms.schedule,
+      startDate: current.startDate,
+      expectedEndDate: plan.expectedEndDate,
+      location:
+        learningMode === 'OFFLINE'
+          ? (input.location ?? current.location)
+          : undefined,
+      onlineInfo:
+        learningMode === 'ONLINE'
+          ? (input.onlineInfo ?? current.onlineInfo)
+          : undefined,
+
+      status: 'PENDING_STUDENT_APPROVAL',
+      contractVersion: version,
+      previousContractId: current._id,
+    });
+
+    const changes = diffContractTerms(current.toObject(), amended.toObject());
+    if (changes.length === 0) {
+      throw new Error('Bản sửa đổi không thay đổi điều khoản nào');
+    }
+
+    const isTutor = current.tutorId.toString() === userId;
+    amended.amendment = {
+      reason: input.reason,
+      proposedBy: userId,
+      proposedByRole: isTutor ? 'TUTOR' : 'STUDENT',
+      changes,
+    };
+    amended.description = this.buildAmendedTerms(
+      current,
+      version - 1,
+      input.reason,
+      changes
+    );
+
+    await amended.save();
+
+    await NotificationService.sendNotification({
+      type: 'socket',
+      userId: (isTutor ? current.studentId : current.tutorId) as string,
+      notificationType: 'CONTRACT_AMENDED',
+      title: 'Đề xuất sửa đổi hợp đồng',
+      message: `${isTutor ? 'Gia sư' : 'Học viên'} đề xuất sửa đổi hợp đồng "${current.title}" (${changes.length} điều khoản). Vui lòng xem và ký phụ lục.`,
+      data: {
+        contractId: amended._id,
+        previousContractId: current._id,
+        changes,
+      },
+      actionUrl: isTutor
+        ? `/student/contracts/${amended._id}`
+        : `/tutor/contracts/${amended._id}`,
+      priority: 'high',
+    });
+
+    logger.info(
+      `Contract amendment ${amended._id} (v${version}) proposed for ${current._id} by ${userId}`
+    );
+
+    return amended;
+  }
+
+  /**
+   * Re-check an amendment right before it is signed: the signed version
+   * must still be current and the class must still accept the new terms
+   */
+  async assertAmendmentSignable(amendment: IContract): Promise<void> {
+    const previous = await Contract.findById(amendment.previousContractId);
+    if (!previous || previous.status !== 'APPROVED') {
+      throw new Error('Hợp đồng gốc đã thay đổi, bản sửa đổi không còn hiệu lực');
+    }
+
+    const { learningClass, paymentSchedule } =
+      await this.findClassAndSchedule(previous._id);
+    const plan = this.planSessionMigration(
+      learningClass,
+      paymentSchedule,
+      this.getTerms(amendment)
+    );
+    this.assertPlanMatchesAmendment(amendment, plan);
+  }
+
+  /**
+   * Migrate the class and payment schedule to a fully signed amendment
+   * All writes run in one transaction: a failure leaves the class, payment
+   * schedule and both contract versions untouched
+   */
+  async applyAmendment(amendment: IContract): Promise<void> {
+    const now = new Date();
+    const dbSession = await mongoose.startSession();
+    let migration!: Awaited<ReturnType<typeof this.migrateToAmendment>>;
+    try {
+      // The callback may be retried, so it reloads everything it writes
+      await dbSession.withTransaction(async () => {
+        migration = await this.migrateToAmendment(amendment, now, dbSession);
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+    const { previous, learningClass, plan } = migration;
+
+    amendment.status = 'APPROVED';
+    amendment.approvedAt = amendment.approvedAt || now;
+    if (amendment.amendment) {
+      amendment.amendment.appliedAt = now;
+    }
+
+    await Promise.allSettled(
+      [amendment.tutorId, amendment.studentId].map((recipientId) =>
+        NotificationService.sendNotification({
+          type: 'socket',
+          userId: recipientId as string,
+          notificationType: 'CONTRACT_AMENDED',
+          title: 'Phụ lục hợp đồng có hiệu lực',
+          message: `Phụ lục "${amendment.title}" đã được hai bên ký. Lịch học và học phí các buổi chưa thanh toán đã được cập nhật.`,
+          data: {
+            contractId: amendment._id,
+            previousContractId: previous._id,
+            learningClassId: learningClass._id,
+          },
+          actionUrl: `/schedule/calendar`,
+          priority: 'high',
+        })
+      )
+    );
+
+    logger.info(
+      `Contract amendment ${amendment._id} applied: class ${learningClass._id}, kept ${plan.keepOpen.length}, added ${plan.append.length}, removed ${plan.remove.length} upcoming sessions`
+    );
+  }
+
+  /**
+   * All versions of the contract chain the given version belongs to
+   */
+  async getAmendmentHistory(contractId: string, userId: string) {
+    let contract = await Contract.findOne({
+      _id: contractId,
+      $or: [{ studentId: userId }, { tutorId: userId }],
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found or access denied');
+    }
+
+    // Walk back to the original version
+    while (contract.previousContractId) {
+      const previous = await Contract.findById(contract.previousContractId);
+      if (!previous) break;
+      contract = previous;
+    }
+
+    const versions: IContract[] = [contract];
+    let frontier = [contract._id];
+    while (frontier.length > 0) {
+      const next = await Contract.find({
+        previousContractId: { $in: frontier },
+      });
+      versions.push(...next);
+      frontier = next.map((c) => c._id);
+    }
+
+    return versions
+      .sort(
+        (a, b) =>
+          a.contractVersion - b.contractVersion ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+      )
+      .map((version) => ({
+        id: version._id,
+        title: version.title,
+        contractVersion: version.contractVersion,
+        previousContractId: version.previousContractId,
+        status: version.status,
+        amendment: version.amendment,
+        isSigned: version.isSigned,
+        studentSignedAt: version.studentSignedAt,
+        tutorSignedAt: version.tutorSignedAt,
+        supersededAt: version.supersededAt,
+        createdAt: version.createdAt,
+      }));
+  }
+
+  /**
+   * Field-level diff between a contract version and the one it amends
+   */
+  async getContractDiff(contractId: string, userId: string) {
+    const contract = await Contract.findOne({
+      _id: contractId,
+      $or: [{ studentId: userId }, { tutorId: userId }],
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found or access denied');
+    }
+    if (!contract.previousContractId) {
+      throw new Error('Hợp đồng này không phải là bản sửa đổi');
+    }
+
+    const previous = await Contract.findById(contract.previousContractId);
+    if (!previous) {
+      throw new Error('Previous contract version not found');
+    }
+
+    return {
+      from: {
+        id: previous._id,
+        title: previous.title,
+        contractVersion: previous.contractVersion,
+      },
+      to: {
+        id: contract._id,
+        title: contract.title,
+        contractVersion: contract.contractVersion,
+        status: contract.status,
+      },
+      reason: contract.amendment?.reason,
+      changes: diffContractTerms(previous.toObject(), contract.toObject()),
+    };
+  }
+
+  /**
+   * Writes of applyAmendment, run inside its transaction
+   */
+  private async migrateToAmendment(
+    amendment: IContract,
+    now: Date,
+    dbSession: ClientSession
+  ) {
+    const previous = await Contract.findById(
+      amendment.previousContractId
+    ).session(dbSession);
+    if (!previous) {
+      throw new Error('Previous contract version not found');
+    }
+
+    const { learningClass, paymentSchedule } = await this.findClassAndSchedule(
+      previous._id,
+      dbSession
+    );
+    const terms = this.getTerms(amendment);
+    const plan = this.planSessionMigration(
+      learningClass,
+      paymentSchedule,
+      terms
+    );
+    this.assertPlanMatchesAmendment(amendment, plan);
+    const note = `Sửa đổi theo phụ lục ${amendment.title}`;
+
+    // Sessions
+    learningClass.sessions = learningClass.sessions.filter(
+      (s) => !plan.remove.includes(s.sessionNumber)
+    ) as any;
+
+    learningClass.sessions.forEach((session) => {
+      if (!plan.keepOpen.includes(session.sessionNumber)) return;
+      session.duration = terms.sessionDuration;
+      const newDate = plan.reschedule.get(session.sessionNumber);
+      if (newDate) {
+        session.scheduledDate = newDate;
+      }
+    });
+
+    let nextSessionNumber =
+      Math.max(0, ...learningClass.sessions.map((s) => s.sessionNumber)) + 1;
+    let nextInstallmentNumber =
+      Math.max(
+        0,
+        ...paymentSchedule.installments.map((inst) => inst.installmentNumber)
+      ) + 1;
+
+    for (const scheduledDate of plan.append) {
+      const sessionNumber = nextSessionNumber++;
+      learningClass.sessions.push({
+        sessionNumber,
+        scheduledDate,
+        duration: terms.sessionDuration,
+        status: 'SCHEDULED',
+        paymentStatus: 'UNPAID',
+        paymentRequired: true,
+        attendance: {
+          tutorAttended: false,
+          studentAttended: false,
+        },
+      } as any);
+
+      paymentSchedule.installments.push({
+        installmentNumber: nextInstallmentNumber++,
+        sessionNumber,
+        amount: terms.pricePerSession,
+        dueDate: scheduledDate,
+        status: 'UNPAID',
+        notes: note,
+      });
+    }
+
+    // Installments of upcoming unpaid sessions
+    paymentSchedule.installments.forEach((inst) => {
+      if (plan.remove.includes(inst.sessionNumber)) {
+        inst.status = 'CANCELLED';
+        inst.notes = [inst.notes, note].filter(Boolean).join('\n');
+      } else if (
+        plan.keepOpen.includes(inst.sessionNumber) &&
+        inst.amount !== terms.pricePerSession
+      ) {
+        inst.amount = terms.pricePerSession;
+        inst.notes = [inst.notes, note].filter(Boolean).join('\n');
+      }
+    });
+
+    paymentSchedule.contractId = amendment._id;
+    paymentSchedule.totalAmount = paymentSchedule.installments
+      .filter((inst) => inst.status !== 'CANCELLED')
+      .reduce((sum, inst) => sum + inst.amount, 0);
+    paymentSchedule.remainingAmount =
+      paymentSchedule.totalAmount - (paymentSchedule.paidAmount || 0);
+    if (
+      paymentSchedule.status === 'COMPLETED' &&
+      paymentSchedule.remainingAmount > 0
+    ) {
+      paymentSchedule.status = 'ACTIVE';
+      paymentSchedule.completedAt = undefined;
+    }
+    paymentSchedule.markModified('installments');
+    (paymentSchedule as any).checkOverduePayments();
+    await paymentSchedule.save({ session: dbSession });
+
+    // Class terms
+    learningClass.pricePerSession = terms.pricePerSession;
+    learningClass.totalSessions = terms.totalSessions;
+    learningClass.sessionDuration = terms.sessionDuration;
+    learningClass.schedule = terms.schedule;
+    learningClass.learningMode = amendment.learningMode;
+    learningClass.location = amendment.location;
+    learningClass.onlineInfo = amendment.onlineInfo;
+    learningClass.expectedEndDate = plan.expectedEndDate;
+    learningClass.totalAmount = paymentSchedule.totalAmount;
+
+    const billable = learningClass.sessions.filter(
+      (s) => s.status !== 'CANCELLED'
+    );
+    const paidCount = billable.filter((s) => s.paymentStatus === 'PAID').length;
+    learningClass.paymentStatus =
+      paidCount === billable.length
+        ? 'COMPLETED'
+        : paidCount > 0
+          ? 'PARTIAL'
+          : 'PENDING';
+    learningClass.markModified('sessions');
+    await learningClass.save({ session: dbSession });
+
+    // Contract versions
+    previous.status = 'SUPERSEDED';
+    previous.supersededAt = now;
+    previous.supersededByContractId = amendment._id;
+    await previous.save({ session: dbSession });
+
+    await Contract.updateOne(
+      { _id: amendment._id },
+      {
+        $set: {
+          status: 'APPROVED',
+          approvedAt: amendment.approvedAt || now,
+          ...(amendment.amendment && { 'amendment.appliedAt': now }),
+        },
+      },
+      { session: dbSession }
+    );
+
+    return { previous, learningClass, plan };
+  }
+
+  /**
+   * The class may have moved on since the amendment was proposed (sessions
+   * paid, completed or rescheduled): the signed total and end date must
+   * still be what the migration would produce
+   */
+  private assertPlanMatchesAmendment(
+    amendment: IContract,
+    plan: ISessionMigrationPlan
+  ): void {
+    if (
+      plan.totalAmount !== amendment.totalAmount ||
+      plan.expectedEndDate.getTime() !==
+        new Date(amendment.expectedEndDate).getTime()
+    ) {
+      throw new Error(
+        'Lớp học đã thay đổi kể từ khi đề xuất, tổng chi phí hoặc ngày kết thúc của bản sửa đổi không còn đúng. Vui lòng đề xuất lại'
+      );
+    }
+  }
+
+  private getTerms(contract: IContract): IAmendedTerms {
+    return {
+      pricePerSession: contract.pricePerSession,
+      totalSessions: contract.totalSessions,
+      sessionDuration: contract.sessionDuration,
+      schedule: {
+        dayOfWeek: [...contract.schedule.dayOfWeek],
+        startTime: contract.schedule.startTime,
+        endTime: contract.schedule.endTime,
+        timezone: contract.schedule.timezone,
+      },
+    };
+  }
+
+  private async findClassAndSchedule(
+    contractId: string,
+    dbSession: ClientSession | null = null
+  ) {
+    const paymentSchedule = await PaymentSchedule.findOne({
+      contractId,
+    }).session(dbSession);
+    const learningClass = paymentSchedule?.learningClassId
+      ? await LearningClass.findById(paymentSchedule.learningClassId).session(
+          dbSession
+        )
+      : null;
+
+    if (!paymentSchedule || !learningClass) {
+      throw new Error('Không tìm thấy lớp học hoặc lịch thanh toán của hợp đồng');
+    }
+    if (!['ACTIVE', 'PAUSED'].includes(learningClass.status)) {
+      throw new Error('Lớp học đã kết thúc hoặc bị hủy, không thể sửa đổi hợp đồng');
+    }
+
+    return { learningClass, paymentSchedule };
+  }
+
+  /**
+   * Decide what happens to every session of the class under the new terms.
+   * Only upcoming SCHEDULED sessions whose installment is still unpaid may
+   * change; everything else is kept as is.
+   */
+  private planSessionMigration(
+    learningClass: any,
+    paymentSchedule: any,
+    terms: IAmendedTerms
+  ): ISessionMigrationPlan {
+    const now = new Date();
+    const installmentBySession = new Map<number, any>(
+      paymentSchedule.installments
+        .filter((inst: any) => inst.status !== 'CANCELLED')
+        .map((inst: any) => [inst.sessionNumber, inst])
+    );
+
+    const billable = learningClass.sessions
+      .filter((s: any) => s.status !== 'CANCELLED')
+      .sort((a: any, b: any) => a.sessionNumber - b.sessionNumber);
+
+    const isOpen = (session: any) => {
+      const installment = installmentBySession.get(session.sessionNumber);
+      return (
+        session.status === 'SCHEDULED' &&
+        new Date(session.scheduledDate) > now &&
+        session.paymentStatus !== 'PAID' &&
+        (!installment || ['UNPAID', 'OVERDUE'].includes(installment.status))
+      );
+    };
+
+    const locked = billable.filter((s: any) => !isOpen(s));
+    const open = billable.filter((s: any) => isOpen(s));
+
+    if (terms.totalSessions < locked.length) {
+      throw new Error(
+        `Số buổi học mới không được ít hơn ${locked.length} buổi đã diễn ra hoặc đã thanh toán`
+      );
+    }
+
+    const lockedAmount = locked.reduce(
+      (sum: number, s: any) =>
+        sum + (installmentBySession.get(s.sessionNumber)?.amount || 0),
+      0
+    );
+    const openCount = terms.totalSessions - locked.length;
+
+    const scheduleChanged =
+      JSON.stringify([...terms.schedule.dayOfWeek].sort()) !==
+        JSON.stringify([...learningClass.schedule.dayOfWeek].sort()) ||
+      terms.schedule.startTime !== learningClass.schedule.startTime;
+
+    const keepOpen = open.slice(0, openCount).map((s: any) => s.sessionNumber);
+    const remove = open.slice(openCount).map((s: any) => s.sessionNumber);
+    const reschedule = new Map<number, Date>();
+    let append: Date[] = [];
+
+    const lastLockedDate = locked.reduce(
+      (latest: Date, s: any) =>
+        new Date(s.scheduledDate) > latest ? new Date(s.scheduledDate) : latest,
+      now
+    );
+
+    if (scheduleChanged) {
+      // Re-slot every upcoming unpaid session on the new weekly schedule
+      const slots = listScheduleSlots(
+        terms.schedule,
+        lastLockedDate,
+        openCount,
+        lastLockedDate
+      );
+      if (slots.length < openCount) {
+        throw new Error('Lịch học mới không hợp lệ');
+      }
+      keepOpen.forEach((sessionNumber: number, index: number) =>
+        reschedule.set(sessionNumber, slots[index])
+      );
+      append = slots.slice(keepOpen.length);
+    } else if (openCount > open.length) {
+      const lastDate = billable.reduce(
+        (latest: Date, s: any) =>
+          new Date(s.scheduledDate) > latest
+            ? new Date(s.scheduledDate)
+            : latest,
+        now
+      );
+      append = listScheduleSlots(
+        terms.schedule,
+        lastDate,
+        openCount - open.length,
+        lastDate
+      );
+      if (append.length < openCount - open.length) {
+        throw new Error('Lịch học mới không hợp lệ');
+      }
+    }
+
+    const sessionEnds: number[] = [
+      ...locked.map(
+        (s: any) => new Date(s.scheduledDate).getTime() + s.duration * 60000
+      ),
+      ...open
+        .filter((s: any) => keepOpen.includes(s.sessionNumber))
+        .map(
+          (s: any) =>
+            (
+              reschedule.get(s.sessionNumber) || new Date(s.scheduledDate)
+            ).getTime() +
+            terms.sessionDuration * 60000
+        ),
+      ...append.map(
+        (date) => date.getTime() + terms.sessionDuration * 60000
+      ),
+    ];
+
+    return {
+      lockedCount: locked.length,
+      lockedAmount,
+      keepOpen,
+      reschedule,
+      remove,
+      append,
+      totalAmount: lockedAmount + openCount * terms.pricePerSession,
+      expectedEndDate: new Date(
+        Math.max(
+          new Date(learningClass.expectedEndDate).getTime(),
+          ...sessionEnds
+        )
+      ),
+    };
+  }
+
+  private buildAmendedTerms(
+    current: IContract,
+    appendixNumber: number,
+    reason: string,
+    changes: IContractFieldChange[]
+  ): string {
+    const format = (value: any) => {
+      if (value === null || value === undefined || value === '') return '—';
+      if (Array.isArray(value)) {
+        return value
+          .map(
+            (d: number) =>
+              ['Chủ nhật', 'Thứ 2', 'Thứ 3', 'Thứ 4', 'Thứ 5', 'Thứ 6', 'Thứ 7'][
+                d
+              ] ?? d
+          )
+          .join(', ');
+      }
+      if (typeof value === 'number') return value.toLocaleString('vi-VN');
+      return String(value);
+    };
+
+    const lines = changes.map(
+      (change) =>
+        `- ${change.label}: ${format(change.before)} → ${format(change.after)}`
+    );
+
+    return `${current.description || ''}
+
+PHỤ LỤC SỬA ĐỔI SỐ ${appendixNumber} (hợp đồng ${current.title})
+Lý do: ${reason}
+${lines.join('\n')}
+- Các buổi học đã diễn ra hoặc đã thanh toán giữ nguyên điều khoản cũ; điều khoản mới áp dụng cho các buổi chưa thanh toán.`;
+  }
+}
+
+export const contractAmendmentService = new ContractAmendmentService();
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { Contract } from '../../models';
+import {
+  ContractSignature,
+  SignatureStatus,
+} from '../../models/ContractSignature';
+import { ContractService } from './contract.service';
+import { DEFAULT_TIMEZONE } from '../../utils/timezone';
+import { logger } from '../../utils/logger';
+
+/**
+ * Contract Document Service
+ * Renders a signed contract (terms, parties, schedule, pricing and the
+ * signature audit trail) into a PDF the parties can keep.
+ *
+ * PDF built-in fonts have no Vietnamese glyphs: set CONTRACT_PDF_FONT and
+ * CONTRACT_PDF_FONT_BOLD to Unicode TTF files (e.g. Roboto, Noto Sans).
+ * Without them the text is printed without diacritics.
+ */
+
+const DAY_NAMES = [
+  'Chủ nhật',
+  'Thứ 2',
+  'Thứ 3',
+  'Thứ 4',
+  'Thứ 5',
+  'Thứ 6',
+  'Thứ 7',
+];
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ZOOM: 'Zoom',
+  GOOGLE_MEET: 'Google Meet',
+  MICROSOFT_TEAMS: 'Microsoft Teams',
+  OTHER: 'Khác',
+};
+
+const formatMoney = (amount: number) =>
+  `${(amount || 0).toLocaleString('vi-VN')} VNĐ`;
+
+const formatDateTime = (date?: Date | string) =>
+  date
+    ? new Date(date).toLocaleString('vi-VN', { timeZone: DEFAULT_TIMEZONE })
+    : '—';
+
+const formatDate = (date?: Date | string) =>
+  date
+    ? new Date(date).toLocaleDateString('vi-VN', { timeZone: DEFAULT_TIMEZONE })
+    : '—';
+
+const stripDiacritics = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D');
+
+const resolveFont = (path: string | undefined, fallback: string) =>
+  path && fs.existsSync(path) ? path : fallback;
+
+class ContractDocumentService {
+  private contractService = new ContractService();
+
+  /**
+   * Verification URL printed on the document
+   */
+  getVerificationUrl(contractHash: string): string {
+    const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+    return `${baseUrl}/api/v1/contracts/verify?hash=${contractHash}`;
+  }
+
+  /**
+   * Render the PDF of a signed contract for one of its parties
+   */
+  async renderContractPdf(
+    contractId: string,
+    userId: string
+  ): Promise<{ fileName: string; buffer: Buffer }> {
+    const contract = await Contract.findOne({
+      _id: contractId,
+      $or: [{ studentId: userId }, { tutorId: userId }],
+    }).populate([
+      { path: 'studentId', select: 'full_name email phone_number' },
+      { path: 'tutorId', select: 'full_name email phone_number' },
+      { path: 'subject', select: 'name' },
+    ]);
+
+    if (!contract) {
+      throw new Error('Contract not found or access denied');
+    }
+    if (!contract.isSigned || !contract.contractHash) {
+      throw new Error('Hợp đồng chưa được hai bên ký, chưa thể xuất PDF');
+    }
+
+    const signatures = await ContractSignature.find({
+      contract_id: contract._id,
+      status: SignatureStatus.VERIFIED,
+    }).sort({ signed_at: 1 });
+
+    const integrityValid =
+      await this.contractService.validateContractIntegrity(contract._id);
+
+    const regularFont = resolveFont(process.env.CONTRACT_PDF_FONT, 'Helvetica');
+    const boldFont = resolveFont(
+      process.env.CONTRACT_PDF_FONT_BOLD,
+      'Helvetica-Bold'
+    );
+    const unicode = regularFont !== 'Helvetica';
+    const t = (text: string) => (unicode ? text : stripDiacritics(text));
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: contract.title,
+        Author: 'SkillBridge',
+        Subject: 'Hợp đồng học tập',
+        Keywords: `sha256:${contract.contractHash}`,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const heading = (text: string) => {
+      doc.moveDown(0.8).font(boldFont).fontSize(12).text(t(text));
+      doc.moveDown(0.3).font(regularFont).fontSize(10);
+    };
+    const row = (label: string, value: string) => {
+      doc
+        .font(boldFont)
+        .text(t(`${label}: `), { continued: true })
+        .font(regularFont)
+        .text(t(value));
+    };
+
+    const student = contract.studentId as any;
+    const tutor = contract.tutorId as any;
+    const subject = contract.subject as any;
+
+    // Title
+    doc
+      .font(boldFont)
+      .fontSize(16)
+      .text(t('HỢP ĐỒNG HỌC TẬP'), { align: 'center' })
+      .font(regularFont)
+      .fontSize(10)
+      .text(
+        t(
+          `Số: ${contract.title} — Phiên bản ${contract.contractVersion || 1}`
+        ),
+        { align: 'center' }
+      );
+    if (contract.status === 'SUPERSEDED') {
+      doc.text(t('(Đã được thay thế bởi phụ lục sửa đổi)'), {
+        align: 'center',
+      });
+    }
+
+    // Parties
+    heading('1. Các bên');
+    row('Gia sư (Bên A)', tutor?.full_name || '—');
+    row('Email', tutor?.email || '—');
+    row('Số điện thoại', tutor?.phone_number || '—');
+    doc.moveDown(0.4);
+    row('Học viên (Bên B)', student?.full_name || '—');
+    row('Email', student?.email || '—');
+    row('Số điện thoại', student?.phone_number || '—');
+
+    // Class and schedule
+    heading('2. Nội dung và lịch học');
+    row('Lớp học', contract.classTitle || '—');
+    row('Môn học', subject?.name || '—');
+    row(
+      'Hình thức',
+      contract.learningMode === 'ONLINE' ? 'Trực tuyến' : 'Trực tiếp'
+    );
+    row(
+      'Ngày học',
+      contract.schedule.dayOfWeek.map((d) => DAY_NAMES[d]).join(', ')
+    );
+    row(
+      'Giờ học',
+      `${contract.schedule.startTime} - ${contract.schedule.endTime} (${contract.schedule.timezone})`
+    );
+    row('Thời lượng mỗi buổi', `${contract.sessionDuration} phút`);
+    row('Ngày bắt đầu', formatDate(contract.startDate));
+    row('Ngày kết thúc dự kiến', formatDate(contract.expectedEndDate));
+    if (contract.learningMode === 'OFFLINE') {
+      row('Địa điểm', contract.location?.address || '—');
+    } else if (contract.onlineInfo) {
+      row(
+        'Nền tảng',
+        PLATFORM_NAMES[contract.onlineInfo.platform] ||
+          contract.onlineInfo.platform
+      );
+    }
+
+    // Pricing
+    heading('3. Học phí');
+    row('Số buổi học', `${contract.totalSessions}`);
+    row('Học phí mỗi buổi', formatMoney(contract.pricePerSession));
+    row('Tổng chi phí', formatMoney(contract.totalAmount));
+    row('Thanh toán', 'Theo từng buổi học qua VNPay');
+
+    // Terms
+    if (contract.description) {
+      heading('4. Điều khoản');
+      doc.text(t(contract.description), { align: 'justify' });
+    }
+
+    // Signatures
+    heading('5. Chữ ký điện tử (xác thực OTP qua email)');
+    if (signatures.length === 0) {
+      doc.text(t('Không có bản ghi chữ ký.'));
+    }
+    signatures.forEach((signature) => {
+      const signer = signature.signer_role === 'tutor' ? tutor : student;
+      row(
+        signature.signer_role === 'tutor' ? 'Gia sư ký' : 'Học viên ký',
+        signer?.full_name || signature.signer_id
+      );
+      row('Email xác thực', signature.email);
+      row('Thời điểm ký', formatDateTime(signature.signed_at));
+      row('Địa chỉ IP', signature.ip_address || '—');
+      row('Thiết bị', signature.user_agent || '—');
+      row('Nội dung đồng ý', signature.consent_text);
+      doc.moveDown(0.4);
+    });
+    row('Khóa hợp đồng lúc', formatDateTime(contract.lockedAt));
+
+    // Integrity
+    heading('6. Xác thực tính toàn vẹn');
+    row('Mã băm SHA-256', contract.contractHash);
+    row(
+      'Tình trạng khi xuất',
+      integrityValid ? 'Hợp lệ, chưa bị sửa đổi' : 'KHÔNG HỢP LỆ'
+    );
+    row('Kiểm tra tại', this.getVerificationUrl(contract.contractHash));
+
+    doc
+      .moveDown(1.5)
+      .fontSize(8)
+      .fillColor('gray')
+      .text(
+        t(
+          `Tài liệu được tạo bởi SkillBridge lúc ${formatDateTime(new Date())}.`
+        ),
+        { align: 'center' }
+      );
+
+    doc.end();
+    const buffer = await finished;
+
+    logger.info(`Contract PDF rendered for ${contract._id} by ${userId}`);
+
+    return {
+      fileName: `${stripDiacritics(contract.title).replace(/[^\w-]/g, '_')}.pdf`,
+      buffer,
+    };
+  }
+}
+
+export const contractDocumentService = new ContractDocumentService();
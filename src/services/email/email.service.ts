@@ -191,6 +191,135 @@ class EmailService {
     return this.sendEmail({ to: email, subject, html, text });
   }
 
+  async sendAccountLockedEmail(
+    email: string,
+    fullName: string,
+    lockedUntil: Date,
+    ipAddress?: string
+  ): Promise<boolean> {
+    const subject = 'SkillBridge - Tài khoản tạm thời bị khóa';
+    const until = lockedUntil.toLocaleString('vi-VN', {
+      timeZone: 'Asia/Ho_Chi_Minh',
+    });
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Cảnh báo bảo mật SkillBridge</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #DC2626; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+          .warning { background: #FEF2F2; border: 1px solid #FECACA; border-radius: 8px; padding: 15px; margin: 20px 0; color: #991B1B; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>SkillBridge</h1>
+            <p>Cảnh báo bảo mật</p>
+          </div>
+          <div class="content">
+            <p>Xin chào <strong>${fullName}</strong>,</p>
+            <p>Tài khoản của bạn đã bị tạm khóa đăng nhập do nhập sai mật khẩu quá nhiều lần${ipAddress ? ` (lần thử cuối từ địa chỉ IP ${ipAddress})` : ''}.</p>
+            <p>Khóa sẽ tự động hết hạn lúc <strong>${until}</strong>. Bạn có thể mở khóa ngay bằng chức năng "Mở khóa tài khoản" với mã OTP gửi qua email.</p>
+
+            <div class="warning">
+              <p><strong>⚠️ Nếu không phải bạn:</strong></p>
+              <ul>
+                <li>Có thể ai đó đang cố đoán mật khẩu của bạn</li>
+                <li>Hãy đặt lại mật khẩu ngay sau khi mở khóa</li>
+                <li>Kiểm tra các thiết bị đang đăng nhập và đăng xuất thiết bị lạ</li>
+              </ul>
+            </div>
+
+            <p>Trân trọng,<br>Đội ngũ SkillBridge</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 SkillBridge. Tất cả quyền được bảo lưu.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Xin chào ${fullName},
+
+      Tài khoản của bạn đã bị tạm khóa đăng nhập do nhập sai mật khẩu quá nhiều lần.
+      Khóa sẽ tự động hết hạn lúc ${until}. Bạn có thể mở khóa ngay bằng mã OTP gửi qua email.
+
+      Nếu không phải bạn, hãy đặt lại mật khẩu ngay sau khi mở khóa.
+
+      Trân trọng,
+      Đội ngũ SkillBridge
+    `;
+
+    return this.sendEmail({ to: email, subject, html, text });
+  }
+
+  async sendAccountUnlockOTP(
+    email: string,
+    otpCode: string,
+    fullName: string
+  ): Promise<boolean> {
+    const subject = 'SkillBridge - Mã xác thực mở khóa tài khoản';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Mở khóa tài khoản SkillBridge</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9f9f9; padding: 20px; border-radius: 0 0 8px 8px; }
+          .otp-code { font-size: 24px; font-weight: bold; color: #4F46E5; text-align: center; padding: 15px; background: white; border-radius: 8px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>SkillBridge</h1>
+            <p>Mở khóa tài khoản</p>
+          </div>
+          <div class="content">
+            <p>Xin chào <strong>${fullName}</strong>,</p>
+            <p>Sử dụng mã OTP dưới đây để mở khóa đăng nhập cho tài khoản của bạn:</p>
+
+            <div class="otp-code">${otpCode}</div>
+
+            <p>Mã có hiệu lực trong 5 phút. Không chia sẻ mã này với bất kỳ ai.</p>
+            <p>Trân trọng,<br>Đội ngũ SkillBridge</p>
+          </div>
+          <div class="footer">
+            <p>© 2025 SkillBridge. Tất cả quyền được bảo lưu.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Xin chào ${fullName},
+
+      Mã OTP mở khóa tài khoản của bạn là: ${otpCode}
+      Mã có hiệu lực trong 5 phút.
+
+      Trân trọng,
+      Đội ngũ SkillBridge
+    `;
+
+    return this.sendEmail({ to: email, subject, html, text });
+  }
+
   async verifyConnection(): Promise<boolean> {
     try {
       await this.transporter.verify();
@@ -0,0 +1,335 @@
+import {
+  Contract,
+  ContactRequest,
+  Conversation,
+  LearningClass,
+} from '../../models';
+import { PaymentSchedule } from '../../models/PaymentSchedule';
+import { NotificationService } from '../notification/notification.service';
+import {
+  notifyContactRequestExpired,
+  notifyContactRequestExpiring,
+} from '../notification/notification.helpers';
+import { logger } from '../../utils/logger';
+
+/**
+ * Expiry Service
+ * Moves contracts waiting for approval and contact requests waiting for a
+ * response to EXPIRED once `expiresAt` has passed, and reminds the party
+ * that has to act 24h before.
+ */
+
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Contracts that can still expire (not yet signed by both parties)
+const EXPIRABLE_CONTRACT_STATUSES = ['DRAFT', 'PENDING_STUDENT_APPROVAL'];
+
+export interface IExpiryRunStats {
+  ranAt: Date;
+  remindersSent: number;
+  contractsExpired: number;
+  contactRequestsExpired: number;
+  paymentSchedulesCancelled: number;
+  conversationsClosed: number;
+}
+
+class ExpiryService {
+  private lastRun: IExpiryRunStats | null = null;
+  private totals = {
+    remindersSent: 0,
+    contractsExpired: 0,
+    contactRequestsExpired: 0,
+    paymentSchedulesCancelled: 0,
+    conversationsClosed: 0,
+  };
+
+  /**
+   * Run reminders and expiry for contracts and contact requests
+   */
+  async processExpirations(now: Date = new Date()): Promise<IExpiryRunStats> {
+    const stats: IExpiryRunStats = {
+      ranAt: now,
+      remindersSent: 0,
+      contractsExpired: 0,
+      contactRequestsExpired: 0,
+      paymentSchedulesCancelled: 0,
+      conversationsClosed: 0,
+    };
+
+    stats.remindersSent += await this.sendContractReminders(now);
+    stats.remindersSent += await this.sendContactRequestReminders(now);
+    await this.expireContracts(now, stats);
+    await this.expireContactRequests(now, stats);
+
+    this.lastRun = stats;
+    (Object.keys(this.totals) as (keyof typeof this.totals)[]).forEach(
+      (key) => (this.totals[key] += stats[key])
+    );
+
+    if (stats.contractsExpired > 0 || stats.contactRequestsExpired > 0) {
+      logger.info(
+        `Expiry: ${stats.contractsExpired} contracts, ${stats.contactRequestsExpired} contact requests expired, ${stats.paymentSchedulesCancelled} payment schedules cancelled, ${stats.conversationsClosed} conversations closed`
+      );
+    }
+
+    return stats;
+  }
+
+  /**
+   * Counts of the last run and since the process started
+   */
+  getStats() {
+    return { lastRun: this.lastRun, totals: { ...this.totals } };
+  }
+
+  /**
+   * Earlier versions deleted documents through TTL indexes on expiresAt,
+   * so they never reached EXPIRED. Drop those indexes if still present.
+   */
+  async dropLegacyTtlIndexes(): Promise<void> {
+    for (const model of [Contract, ContactRequest] as any[]) {
+      const indexes = await model.collection.indexes();
+      const ttlIndex = indexes.find(
+        (index: any) =>
+          index.expireAfterSeconds !== undefined &&
+          Object.keys(index.key).join() === 'expiresAt'
+      );
+
+      if (ttlIndex) {
+        await model.collection.dropIndex(ttlIndex.name);
+        logger.info(
+          `Dropped TTL index ${ttlIndex.name} on ${model.collection.collectionName}`
+        );
+      }
+    }
+  }
+
+  private async sendContractReminders(now: Date): Promise<number> {
+    const contracts = await Contract.find({
+      status: { $in: EXPIRABLE_CONTRACT_STATUSES },
+      isSigned: { $ne: true },
+      expiresAt: { $gt: now, $lte: new Date(now.getTime() + REMINDER_WINDOW_MS) },
+      expiryReminderSentAt: { $exists: false },
+    }).select('title studentId tutorId expiresAt previousContractId');
+
+    let sent = 0;
+    for (const contract of contracts) {
+      // Claim the reminder first so parallel runs never send it twice
+      const claimed = await Contract.updateOne(
+        { _id: contract._id, expiryReminderSentAt: { $exists: false } },
+        { $set: { expiryReminderSentAt: now } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const hoursLeft = Math.max(
+        1,
+        Math.round((contract.expiresAt.getTime() - now.getTime()) / 3600000)
+      );
+
+      await Promise.allSettled(
+        [
+          { userId: contract.studentId, role: 'student' },
+          { userId: contract.tutorId, role: 'tutor' },
+        ].map(({ userId, role }) =>
+          NotificationService.sendNotification({
+            type: 'socket',
+            userId: userId as string,
+            notificationType: 'CONTRACT_EXPIRING',
+            title: 'Hợp đồng sắp hết hạn',
+            message: `Hợp đồng "${contract.title}" sẽ hết hạn sau khoảng ${hoursLeft} giờ nếu chưa được hai bên ký.`,
+            data: { contractId: contract._id, expiresAt: contract.expiresAt },
+            actionUrl: `/${role}/contracts/${contract._id}`,
+            priority: 'high',
+          })
+        )
+      );
+      sent++;
+    }
+
+    return sent;
+  }
+
+  private async sendContactRequestReminders(now: Date): Promise<number> {
+    const requests = await ContactRequest.find({
+      status: 'PENDING',
+      expiresAt: { $gt: now, $lte: new Date(now.getTime() + REMINDER_WINDOW_MS) },
+      expiryReminderSentAt: { $exists: false },
+    })
+      .select('studentId tutorId initiatedBy expiresAt')
+      .populate([
+        { path: 'studentId', select: 'full_name' },
+        { path: 'tutorId', select: 'full_name' },
+      ]);
+
+    let sent = 0;
+    for (const request of requests) {
+      const claimed = await ContactRequest.updateOne(
+        { _id: request._id, expiryReminderSentAt: { $exists: false } },
+        { $set: { expiryReminderSentAt: now } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      // Remind the party that has to respond
+      const student = request.studentId as any;
+      const tutor = request.tutorId as any;
+      try {
+        if (request.initiatedBy === 'TUTOR') {
+          await notifyContactRequestExpiring(
+            student._id,
+            'STUDENT',
+            tutor?.full_name || 'Gia sư',
+            request._id
+          );
+        } else {
+          await notifyContactRequestExpiring(
+            tutor._id,
+            'TUTOR',
+            student?.full_name || 'Học viên',
+            request._id
+          );
+        }
+        sent++;
+      } catch (error) {
+        logger.error(
+          `Failed to send expiry reminder for contact request ${request._id}:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  }
+
+  private async expireContracts(now: Date, stats: IExpiryRunStats) {
+    const candidates = await Contract.find({
+      status: { $in: EXPIRABLE_CONTRACT_STATUSES },
+      isSigned: { $ne: true },
+      expiresAt: { $lte: now },
+    }).select('_id');
+
+    for (const { _id } of candidates) {
+      try {
+        // Status guard: skip contracts approved or signed meanwhile
+        const contract = await Contract.findOneAndUpdate(
+          {
+            _id,
+            status: { $in: EXPIRABLE_CONTRACT_STATUSES },
+            isSigned: { $ne: true },
+          },
+          { $set: { status: 'EXPIRED' } },
+          { new: true }
+        );
+        if (!contract) continue;
+        stats.contractsExpired++;
+
+        const cancelled = await PaymentSchedule.updateMany(
+          { contractId: contract._id, status: 'PENDING' },
+          { $set: { status: 'CANCELLED', cancelledAt: now } }
+        );
+        stats.paymentSchedulesCancelled += cancelled.modifiedCount;
+
+        // An expired amendment leaves the signed version and its chat intact
+        if (!contract.previousContractId) {
+          stats.conversationsClosed += await this.closeConversationIfIdle(
+            contract.contactRequestId,
+            now
+          );
+        }
+
+        await Promise.allSettled(
+          [
+            { userId: contract.tutorId, role: 'tutor' },
+            { userId: contract.studentId, role: 'student' },
+          ].map(({ userId, role }) =>
+            NotificationService.sendNotification({
+              type: 'socket',
+              userId: userId as string,
+              notificationType: 'CONTRACT_EXPIRED',
+              title: 'Hợp đồng đã hết hạn',
+              message: `Hợp đồng "${contract.title}" đã hết hạn do không được phê duyệt trong thời gian quy định.`,
+              data: { contractId: contract._id },
+              actionUrl: `/${role}/contracts/${contract._id}`,
+              priority: 'normal',
+            })
+          )
+        );
+      } catch (error) {
+        logger.error(`Failed to expire contract ${_id}:`, error);
+      }
+    }
+  }
+
+  private async expireContactRequests(now: Date, stats: IExpiryRunStats) {
+    const candidates = await ContactRequest.find({
+      status: 'PENDING',
+      expiresAt: { $lte: now },
+    }).select('_id');
+
+    for (const { _id } of candidates) {
+      try {
+        const request = await ContactRequest.findOneAndUpdate(
+          { _id, status: 'PENDING' },
+          { $set: { status: 'EXPIRED' } },
+          { new: true }
+        ).populate([
+          { path: 'studentId', select: 'full_name' },
+          { path: 'tutorId', select: 'full_name' },
+        ]);
+        if (!request) continue;
+        stats.contactRequestsExpired++;
+
+        stats.conversationsClosed += await this.closeConversationIfIdle(
+          request._id,
+          now
+        );
+
+        const student = request.studentId as any;
+        const tutor = request.tutorId as any;
+        await Promise.allSettled([
+          notifyContactRequestExpired(
+            student._id,
+            'STUDENT',
+            tutor?.full_name || 'Gia sư',
+            request._id
+          ),
+          notifyContactRequestExpired(
+            tutor._id,
+            'TUTOR',
+            student?.full_name || 'Học viên',
+            request._id
+          ),
+        ]);
+      } catch (error) {
+        logger.error(`Failed to expire contact request ${_id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Close the chat of a contact request that led nowhere: no learning class
+   * and no other contract still pending or signed
+   */
+  private async closeConversationIfIdle(
+    contactRequestId: string,
+    now: Date
+  ): Promise<number> {
+    const [learningClass, liveContract] = await Promise.all([
+      LearningClass.exists({ contactRequestId }),
+      Contract.exists({
+        contactRequestId,
+        status: { $in: [...EXPIRABLE_CONTRACT_STATUSES, 'APPROVED'] },
+      }),
+    ]);
+    if (learningClass || liveContract) {
+      return 0;
+    }
+
+    const result = await Conversation.updateOne(
+      { contactRequestId, status: 'ACTIVE' },
+      { $set: { status: 'CLOSED', closedAt: now } }
+    );
+    return result.modifiedCount;
+  }
+}
+
+export const expiryService = new ExpiryService();
@@ -1,26 +1,39 @@
-import { Message, IMessage } from '../../models/Message';
+import { Message, IMessage, MessageType } from '../../models/Message';
 import { Conversation, IConversation } from '../../models/Conversation';
 import { ContactRequest } from '../../models/ContactRequest';
 import { User } from '../../models/User';
+import { VoiceNoteUpload } from '../../models/VoiceNoteUpload';
+import cloudinary, { uploadAudioToCloudinary } from '../../config/cloudinary';
 import { getSocketInstance } from '../../config/socket';
 import { notifyNewMessage } from '../notification/notification.helpers';
+import { speechToTextService } from '../ai/speechToText.service';
+import { presenceService } from '../presence/presence.service';
+import { getFilterErrorMessage } from '../../utils/contentFilter';
 import {
-  filterSensitiveContent,
-  getFilterErrorMessage,
-} from '../../utils/contentFilter';
+  IModerationDecision,
+  IRecordFlagInput,
+  MessageModerationService,
+} from './messageModeration.service';
+import {
+  createVietnameseSearchRegex,
+  removeVietnameseAccents,
+} from '../../utils/vietnameseSearch';
 
 export interface ICreateMessageInput {
   conversationId: string;
   senderId: string;
   content: string;
-  messageType?: 'TEXT' | 'IMAGE' | 'FILE';
+  messageType?: MessageType;
   fileMetadata?: {
     originalName: string;
     fileName: string;
     fileSize: number;
     mimeType: string;
     fileUrl: string;
+    duration?: number; // Seconds, for AUDIO
   };
+  voiceNoteId?: string; // AUDIO: public id returned by the attachment upload
+  transcribe?: boolean; // AUDIO: request automatic transcript (default true)
   replyTo?: {
     messageId: string;
     content: string;
@@ -30,8 +43,27 @@ export interface ICreateMessageInput {
 export interface IMessagePaginationOptions {
   page?: number;
   limit?: number;
+  before?: string; // Cursor: message ID, load older messages
+  after?: string; // Cursor: message ID, load newer messages
+}
+
+export interface IMessageSearchOptions {
+  query: string;
+  conversationId?: string;
+  limit?: number;
+  before?: string; // Cursor: message ID of the last result already loaded
 }
 
+// Messages can be edited / deleted for everyone within this window
+const MESSAGE_EDIT_WINDOW_MS =
+  (parseInt(process.env.MESSAGE_EDIT_WINDOW_MINUTES || '') || 15) * 60 * 1000;
+
+// Voice notes (AUDIO messages) limits
+export const VOICE_NOTE_MAX_DURATION_SECONDS =
+  parseInt(process.env.VOICE_NOTE_MAX_DURATION_SECONDS || '') || 120;
+export const VOICE_NOTE_MAX_SIZE_BYTES =
+  (parseInt(process.env.VOICE_NOTE_MAX_SIZE_MB || '') || 5) * 1024 * 1024;
+
 export class MessageService {
   // Get or create conversation by class ID (more reliable than contactRequestId)
   static async getOrCreateConversationByClass(classId: string): Promise<any> {
@@ -363,16 +395,68 @@ export class MessageService {
           ? conversation.tutorId
           : conversation.studentId;
 
+      const messageType = (messageData.messageType || 'TEXT').toUpperCase() as
+        MessageType;
+
+      // Voice note: the file and its metadata come from our own upload record,
+      // never from the client
+      let fileMetadata = messageData.fileMetadata;
+      if (messageType === 'AUDIO') {
+        const voiceNote = messageData.voiceNoteId
+          ? await VoiceNoteUpload.findOneAndUpdate(
+              {
+                _id: messageData.voiceNoteId,
+                conversationId: messageData.conversationId,
+                uploaderId: messageData.senderId,
+                used_at: { $exists: false },
+              },
+              { $set: { used_at: new Date() } },
+              { new: true }
+            )
+          : null;
+        if (!voiceNote) {
+          return {
+            success: false,
+            message: 'Không tìm thấy tệp tin nhắn thoại, vui lòng tải lên lại',
+          };
+        }
+        fileMetadata = {
+          originalName: voiceNote.fileName,
+          fileName: voiceNote.fileName,
+          fileSize: voiceNote.fileSize,
+          mimeType: voiceNote.mimeType,
+          fileUrl: voiceNote.fileUrl,
+          duration: voiceNote.duration,
+        };
+      }
+      const transcribe =
+        messageType === 'AUDIO' &&
+        messageData.transcribe !== false &&
+        process.env.VOICE_NOTE_TRANSCRIPTION !== 'false' &&
+        speechToTextService.isAvailable();
+
       // Kiểm tra và lọc nội dung nhạy cảm (chỉ áp dụng cho tin nhắn TEXT)
-      if (messageData.messageType === 'TEXT' || !messageData.messageType) {
-        const filterResult = filterSensitiveContent(messageData.content, true);
+      let content = messageData.content;
+      let moderation: IModerationDecision | null = null;
+      if (messageType === 'TEXT') {
+        moderation = await MessageModerationService.moderate(
+          messageData.senderId,
+          messageData.content
+        );
 
-        if (!filterResult.isValid) {
+        if (moderation.action === 'BLOCK') {
+          await this.recordModerationFlag(moderation, {
+            conversationId: messageData.conversationId,
+            senderId: messageData.senderId,
+            receiverId,
+            originalContent: messageData.content,
+          });
           return {
             success: false,
-            message: getFilterErrorMessage(filterResult.violations),
+            message: getFilterErrorMessage(moderation.violations),
           };
         }
+        content = moderation.content;
       }
 
       // Create message
@@ -380,29 +464,35 @@ export class MessageService {
         conversationId: messageData.conversationId,
         senderId: messageData.senderId,
         receiverId,
-        content: messageData.content,
-        messageType: (messageData.messageType || 'TEXT').toUpperCase() as
-          | 'TEXT'
-          | 'IMAGE'
-          | 'FILE',
-        fileMetadata: messageData.fileMetadata,
+        content,
+        messageType,
+        fileMetadata,
+        transcript: transcribe ? { status: 'PENDING' } : undefined,
         replyTo: messageData.replyTo,
         status: 'SENT',
       });
 
       await message.save();
 
+      // Masked or flagged: delivered, but queued for admin review
+      if (moderation && moderation.action !== 'ALLOW') {
+        await this.recordModerationFlag(moderation, {
+          conversationId: messageData.conversationId,
+          senderId: messageData.senderId,
+          receiverId,
+          originalContent: messageData.content,
+          messageId: message._id,
+        });
+      }
+
       // Update conversation's last message and unread count
       const isStudentSender = conversation.studentId === messageData.senderId;
       const updateData: any = {
         lastMessage: {
-          content: messageData.content,
+          content,
           senderId: messageData.senderId,
           sentAt: message.sentAt,
-          messageType: (messageData.messageType || 'TEXT').toUpperCase() as
-            | 'TEXT'
-            | 'IMAGE'
-            | 'FILE',
+          messageType,
         },
       };
 
@@ -444,9 +534,7 @@ export class MessageService {
         const sender = await User.findById(messageData.senderId);
         const senderName = sender?.full_name || sender?.email || 'Người dùng';
         const messagePreview =
-          messageData.content.length > 50
-            ? messageData.content.substring(0, 50) + '...'
-            : messageData.content;
+          content.length > 50 ? content.substring(0, 50) + '...' : content;
 
         await notifyNewMessage(
           receiverId.toString(),
@@ -459,9 +547,17 @@ export class MessageService {
         // Don't throw error, just log it
       }
 
+      // Transcribe in the background, clients get 'message-transcript'
+      if (transcribe) {
+        void this.transcribeVoiceNote(message);
+      }
+
       return {
         success: true,
-        message: 'Gửi tin nhắn thành công',
+        message:
+          moderation?.action === 'MASK'
+            ? 'Tin nhắn đã được gửi, thông tin liên lạc đã bị ẩn'
+            : 'Gửi tin nhắn thành công',
         data: populatedMessage,
       };
     } catch (error: any) {
@@ -501,6 +597,11 @@ export class MessageService {
         };
       }
 
+      // Cursor pagination (before / after a message)
+      if (options.before || options.after) {
+        return await this.getMessagesByCursor(conversationId, options);
+      }
+
       // Get messages with pagination
       const skip = (page - 1) * limit;
       const messages = await Message.find({
@@ -544,6 +645,508 @@ export class MessageService {
     }
   }
 
+  // Page through messages relative to a cursor message (stable while new messages arrive)
+  private static async getMessagesByCursor(
+    conversationId: string,
+    options: IMessagePaginationOptions
+  ): Promise<any> {
+    const limit = Math.min(options.limit || 50, 100);
+    const cursorId = (options.before || options.after)!;
+    const older = Boolean(options.before);
+
+    const cursor = await Message.findOne({ _id: cursorId, conversationId });
+    if (!cursor) {
+      return {
+        success: false,
+        message: 'Không tìm thấy tin nhắn làm mốc phân trang',
+      };
+    }
+
+    // Order by (sentAt, _id) so messages sent in the same millisecond are not skipped
+    const op = older ? '$lt' : '$gt';
+    const messages = await Message.find({
+      conversationId,
+      isDeleted: false,
+      $or: [
+        { sentAt: { [op]: cursor.sentAt } },
+        { sentAt: cursor.sentAt, _id: { [op]: cursor._id } },
+      ],
+    })
+      .populate('senderId', 'full_name avatar_url')
+      .populate('receiverId', 'full_name avatar_url')
+      .sort(older ? { sentAt: -1, _id: -1 } : { sentAt: 1, _id: 1 })
+      .limit(limit + 1);
+
+    const hasMore = messages.length > limit;
+    const page = messages.slice(0, limit);
+    if (older) {
+      page.reverse(); // Oldest first
+    }
+
+    return {
+      success: true,
+      message: 'Lấy tin nhắn thành công',
+      data: {
+        messages: page,
+        pagination: {
+          limit,
+          hasMore,
+          // Pass as `before` to load older / `after` to load newer messages
+          oldestId: page[0]?._id ?? null,
+          newestId: page[page.length - 1]?._id ?? null,
+        },
+      },
+    };
+  }
+
+  // Search messages across the user's conversations (accent-insensitive)
+  static async searchMessages(
+    userId: string,
+    options: IMessageSearchOptions
+  ): Promise<any> {
+    try {
+      const limit = Math.min(options.limit || 20, 50);
+      const normalizedQuery = removeVietnameseAccents(
+        options.query.trim().toLowerCase()
+      );
+      if (!normalizedQuery) {
+        return {
+          success: false,
+          message: 'Vui lòng nhập từ khóa tìm kiếm',
+        };
+      }
+
+      const conversationFilter: any = {
+        $or: [{ studentId: userId }, { tutorId: userId }],
+      };
+      if (options.conversationId) {
+        conversationFilter._id = options.conversationId;
+      }
+      const conversationIds = (
+        await Conversation.find(conversationFilter).select('_id').lean()
+      ).map((conversation) => conversation._id);
+
+      const escaped = normalizedQuery.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const filter: any = {
+        conversationId: { $in: conversationIds },
+        isDeleted: false,
+        messageType: 'TEXT',
+        $or: [
+          { searchText: { $regex: escaped } },
+          // Messages sent before searchText existed
+          {
+            searchText: { $exists: false },
+            content: createVietnameseSearchRegex(options.query),
+          },
+        ],
+      };
+
+      if (options.before) {
+        const cursor = await Message.findOne({
+          _id: options.before,
+          conversationId: { $in: conversationIds },
+        });
+        if (cursor) {
+          filter.$and = [
+            {
+              $or: [
+                { sentAt: { $lt: cursor.sentAt } },
+                { sentAt: cursor.sentAt, _id: { $lt: cursor._id } },
+              ],
+            },
+          ];
+        }
+      }
+
+      const messages = await Message.find(filter)
+        .populate('senderId', 'full_name avatar_url')
+        .populate({
+          path: 'conversationId',
+          select: 'studentId tutorId subject',
+          populate: [
+            { path: 'studentId', select: 'full_name avatar_url' },
+            { path: 'tutorId', select: 'full_name avatar_url' },
+            { path: 'subject', select: 'name' },
+          ],
+        })
+        .sort({ sentAt: -1, _id: -1 })
+        .limit(limit + 1);
+
+      const hasMore = messages.length > limit;
+      const results = messages.slice(0, limit);
+
+      return {
+        success: true,
+        message: 'Tìm kiếm tin nhắn thành công',
+        data: {
+          messages: results,
+          pagination: {
+            limit,
+            hasMore,
+            nextBefore: hasMore ? results[results.length - 1]._id : null,
+          },
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ Search messages error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi tìm kiếm tin nhắn',
+      };
+    }
+  }
+
+  // Edit own text message within the edit window
+  static async editMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    content: string
+  ): Promise<any> {
+    try {
+      const message = await Message.findOne({
+        _id: messageId,
+        conversationId,
+        isDeleted: false,
+      });
+      if (!message) {
+        return { success: false, message: 'Không tìm thấy tin nhắn' };
+      }
+
+      const check = this.checkOwnMessageWindow(message, userId);
+      if (check) return check;
+
+      if (message.messageType !== 'TEXT') {
+        return {
+          success: false,
+          message: 'Chỉ có thể chỉnh sửa tin nhắn văn bản',
+        };
+      }
+
+      const moderation = await MessageModerationService.moderate(
+        userId,
+        content
+      );
+      const flagInput = {
+        conversationId,
+        senderId: userId,
+        receiverId: message.receiverId,
+        originalContent: content,
+        source: 'EDIT' as const,
+      };
+      if (moderation.action === 'BLOCK') {
+        await this.recordModerationFlag(moderation, flagInput);
+        return {
+          success: false,
+          message: getFilterErrorMessage(moderation.violations),
+        };
+      }
+      content = moderation.content;
+
+      message.content = content;
+      message.editedAt = new Date();
+      await message.save();
+
+      if (moderation.action !== 'ALLOW') {
+        await this.recordModerationFlag(moderation, {
+          ...flagInput,
+          messageId: message._id,
+        });
+      }
+
+      // Keep the conversation preview in sync
+      await Conversation.updateOne(
+        {
+          _id: conversationId,
+          'lastMessage.senderId': message.senderId,
+          'lastMessage.sentAt': message.sentAt,
+        },
+        { $set: { 'lastMessage.content': content } }
+      );
+
+      const populatedMessage = await Message.findById(message._id)
+        .populate('senderId', 'full_name avatar_url')
+        .populate('receiverId', 'full_name avatar_url');
+
+      const io = getSocketInstance();
+      if (io) {
+        io.to(`conversation-${conversationId}`).emit(
+          'message-updated',
+          populatedMessage
+        );
+      }
+
+      return {
+        success: true,
+        message: 'Chỉnh sửa tin nhắn thành công',
+        data: populatedMessage,
+      };
+    } catch (error: any) {
+      console.error('❌ Edit message error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi chỉnh sửa tin nhắn',
+      };
+    }
+  }
+
+  // Delete own message for everyone within the edit window
+  static async deleteMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string
+  ): Promise<any> {
+    try {
+      const message = await Message.findOne({
+        _id: messageId,
+        conversationId,
+        isDeleted: false,
+      });
+      if (!message) {
+        return { success: false, message: 'Không tìm thấy tin nhắn' };
+      }
+
+      const check = this.checkOwnMessageWindow(message, userId);
+      if (check) return check;
+
+      message.isDeleted = true;
+      message.deletedAt = new Date();
+      await message.save();
+
+      const conversation = await Conversation.findById(conversationId);
+      if (conversation) {
+        const update: any = {};
+
+        // Unread message removed: decrease receiver's unread count
+        if (message.status !== 'READ') {
+          const unreadKey =
+            conversation.studentId === message.receiverId
+              ? 'student'
+              : 'tutor';
+          update[`unreadCount.${unreadKey}`] = Math.max(
+            0,
+            conversation.unreadCount[unreadKey] - 1
+          );
+        }
+
+        // Deleted message was the preview: fall back to the previous one
+        if (
+          conversation.lastMessage?.sentAt?.getTime() ===
+            message.sentAt.getTime() &&
+          conversation.lastMessage?.senderId === message.senderId
+        ) {
+          const previous = await Message.findOne({
+            conversationId,
+            isDeleted: false,
+          }).sort({ sentAt: -1 });
+          if (previous) {
+            update.lastMessage = {
+              content: previous.content,
+              senderId: previous.senderId,
+              sentAt: previous.sentAt,
+              messageType: previous.messageType,
+            };
+          } else {
+            update.$unset = { lastMessage: 1 };
+          }
+        }
+
+        if (Object.keys(update).length > 0) {
+          await Conversation.updateOne({ _id: conversationId }, update);
+        }
+      }
+
+      const io = getSocketInstance();
+      if (io) {
+        io.to(`conversation-${conversationId}`).emit('message-deleted', {
+          messageId,
+          conversationId,
+          deletedBy: userId,
+        });
+      }
+
+      return {
+        success: true,
+        message: 'Đã thu hồi tin nhắn',
+      };
+    } catch (error: any) {
+      console.error('❌ Delete message error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi thu hồi tin nhắn',
+      };
+    }
+  }
+
+  // Upload a voice note to the conversation and record it for sendMessage
+  static async uploadVoiceNote(
+    conversationId: string,
+    userId: string,
+    file: { buffer: Buffer; mimetype: string; size: number },
+    fileName: string
+  ): Promise<any> {
+    try {
+      const conversation = await Conversation.findById(conversationId)
+        .select('studentId tutorId')
+        .lean();
+      if (
+        !conversation ||
+        (conversation.studentId !== userId && conversation.tutorId !== userId)
+      ) {
+        return {
+          success: false,
+          message: 'Không tìm thấy cuộc trò chuyện',
+        };
+      }
+
+      if (file.size > VOICE_NOTE_MAX_SIZE_BYTES) {
+        return {
+          success: false,
+          message: `Tin nhắn thoại không được vượt quá ${VOICE_NOTE_MAX_SIZE_BYTES / (1024 * 1024)}MB`,
+        };
+      }
+
+      const audio = await uploadAudioToCloudinary(
+        file.buffer,
+        `conversations/${conversationId}/voice`,
+        `${Date.now()}-${fileName.replace(/\.[^/.]+$/, '')}`
+      );
+
+      if (
+        !audio.duration ||
+        audio.duration > VOICE_NOTE_MAX_DURATION_SECONDS ||
+        audio.bytes > VOICE_NOTE_MAX_SIZE_BYTES
+      ) {
+        await cloudinary.uploader
+          .destroy(audio.publicId, { resource_type: 'video' })
+          .catch((err) =>
+            console.error('❌ Remove oversized voice note error:', err)
+          );
+        return {
+          success: false,
+          message: `Tin nhắn thoại phải dài tối đa ${VOICE_NOTE_MAX_DURATION_SECONDS} giây`,
+        };
+      }
+
+      const voiceNote = await VoiceNoteUpload.create({
+        _id: audio.publicId,
+        conversationId,
+        uploaderId: userId,
+        fileUrl: audio.url,
+        fileName,
+        mimeType: file.mimetype,
+        fileSize: audio.bytes,
+        duration: audio.duration,
+      });
+
+      return {
+        success: true,
+        message: 'Upload tin nhắn thoại thành công',
+        data: {
+          voiceNoteId: voiceNote._id,
+          url: voiceNote.fileUrl,
+          fileName: voiceNote.fileName,
+          fileType: voiceNote.mimeType,
+          fileSize: voiceNote.fileSize,
+          duration: voiceNote.duration,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ Upload voice note error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi upload tin nhắn thoại',
+      };
+    }
+  }
+
+  private static async transcribeVoiceNote(message: IMessage): Promise<void> {
+    let transcript: NonNullable<IMessage['transcript']>;
+    try {
+      const text = await speechToTextService.transcribeFromUrl(
+        message.fileMetadata!.fileUrl
+      );
+
+      // Same content rules as text messages
+      const moderation = await MessageModerationService.moderate(
+        message.senderId,
+        text
+      );
+      if (moderation.action !== 'ALLOW') {
+        await this.recordModerationFlag(moderation, {
+          conversationId: message.conversationId,
+          senderId: message.senderId,
+          receiverId: message.receiverId,
+          originalContent: text,
+          messageId: message._id,
+          source: 'TRANSCRIPT',
+        });
+      }
+
+      transcript =
+        moderation.action === 'BLOCK'
+          ? { status: 'BLOCKED', completedAt: new Date() }
+          : {
+              status: 'COMPLETED',
+              text: moderation.content,
+              completedAt: new Date(),
+            };
+    } catch (error) {
+      console.error('❌ Voice note transcription error:', error);
+      transcript = { status: 'FAILED', completedAt: new Date() };
+    }
+
+    try {
+      await Message.updateOne({ _id: message._id }, { transcript });
+
+      const io = getSocketInstance();
+      if (io) {
+        io.to([
+          `conversation-${message.conversationId}`,
+          `notifications-${message.senderId}`,
+          `notifications-${message.receiverId}`,
+        ]).emit('message-transcript', {
+          conversationId: message.conversationId,
+          messageId: message._id,
+          transcript,
+        });
+      }
+    } catch (error) {
+      console.error('❌ Save voice note transcript error:', error);
+    }
+  }
+
+  // A failure to queue the flag must not fail the message itself
+  private static async recordModerationFlag(
+    decision: IModerationDecision,
+    input: Omit<IRecordFlagInput, 'decision'>
+  ): Promise<void> {
+    try {
+      await MessageModerationService.recordFlag({ decision, ...input });
+    } catch (error) {
+      console.error('❌ Record moderation flag error:', error);
+    }
+  }
+
+  private static checkOwnMessageWindow(
+    message: IMessage,
+    userId: string
+  ): { success: false; message: string } | null {
+    if (message.senderId !== userId) {
+      return {
+        success: false,
+        message: 'Bạn chỉ có thể thay đổi tin nhắn của mình',
+      };
+    }
+    if (Date.now() - message.sentAt.getTime() > MESSAGE_EDIT_WINDOW_MS) {
+      return {
+        success: false,
+        message: `Chỉ có thể chỉnh sửa hoặc thu hồi tin nhắn trong vòng ${MESSAGE_EDIT_WINDOW_MS / 60000} phút sau khi gửi`,
+      };
+    }
+    return null;
+  }
+
   // Get user's conversations
   static async getUserConversations(userId: string): Promise<any> {
     try {
@@ -584,10 +1187,26 @@ export class MessageService {
         .populate('subject', 'name')
         .sort({ updatedAt: -1 });
 
+      // Online status of the other party of each conversation
+      const partnerIds = conversations.map((conversation) => {
+        const student = conversation.studentId as any;
+        const tutor = conversation.tutorId as any;
+        return (student?._id || student) === userId
+          ? tutor?._id || tutor
+          : student?._id || student;
+      });
+      const presence = await presenceService.getPresence(partnerIds);
+
       return {
         success: true,
         message: 'Lấy danh sách cuộc trò chuyện thành công',
-        data: conversations,
+        data: conversations.map((conversation, index) => ({
+          ...conversation.toJSON(),
+          partnerPresence: presence[partnerIds[index]] || {
+            isOnline: false,
+            lastSeenAt: null,
+          },
+        })),
       };
     } catch (error: any) {
       console.error('❌ Get user conversations error:', error);
@@ -624,16 +1243,23 @@ export class MessageService {
       }
 
       // Mark unread messages as read
+      const unread = await Message.find({
+        conversationId,
+        receiverId: userId,
+        status: { $ne: 'READ' },
+      }).select('_id');
+      const readAt = new Date();
       await Message.updateMany(
-        {
-          conversationId,
-          receiverId: userId,
-          status: { $ne: 'READ' },
-        },
-        {
-          status: 'READ',
-          readAt: new Date(),
-        }
+        { _id: { $in: unread.map((m) => m._id) } },
+        [
+          {
+            $set: {
+              status: 'READ',
+              readAt,
+              deliveredAt: { $ifNull: ['$deliveredAt', readAt] },
+            },
+          },
+        ]
       );
 
       // Reset unread count for this user
@@ -655,6 +1281,12 @@ export class MessageService {
           readBy: userId,
         });
       }
+      this.emitMessageStatus(conversationId, conversation, {
+        messageIds: unread.map((m) => m._id),
+        status: 'READ',
+        at: readAt,
+        userId,
+      });
 
       return {
         success: true,
@@ -669,6 +1301,274 @@ export class MessageService {
     }
   }
 
+  // Mark one message (and every earlier unread one) as read
+  static async markMessageAsRead(
+    conversationId: string,
+    messageId: string,
+    userId: string
+  ): Promise<any> {
+    try {
+      const conversation = await Conversation.findById(conversationId);
+      if (!conversation) {
+        return {
+          success: false,
+          message: 'Không tìm thấy cuộc trò chuyện',
+        };
+      }
+
+      const target = await Message.findOne({
+        _id: messageId,
+        conversationId,
+        receiverId: userId,
+      }).select('sentAt');
+      if (!target) {
+        return { success: false, message: 'Không tìm thấy tin nhắn' };
+      }
+
+      const unread = await Message.find({
+        conversationId,
+        receiverId: userId,
+        status: { $ne: 'READ' },
+        sentAt: { $lte: target.sentAt },
+      }).select('_id');
+
+      const readAt = new Date();
+      if (unread.length > 0) {
+        await Message.updateMany(
+          { _id: { $in: unread.map((m) => m._id) } },
+          [
+            {
+              $set: {
+                status: 'READ',
+                readAt,
+                deliveredAt: { $ifNull: ['$deliveredAt', readAt] },
+              },
+            },
+          ]
+        );
+      }
+
+      // Recount instead of reset: newer messages may still be unread
+      const remaining = await Message.countDocuments({
+        conversationId,
+        receiverId: userId,
+        status: { $ne: 'READ' },
+        isDeleted: false,
+      });
+      const unreadKey =
+        conversation.studentId === userId ? 'student' : 'tutor';
+      await Conversation.updateOne(
+        { _id: conversationId },
+        { [`unreadCount.${unreadKey}`]: remaining }
+      );
+
+      this.emitMessageStatus(conversationId, conversation, {
+        messageIds: unread.map((m) => m._id),
+        status: 'READ',
+        at: readAt,
+        userId,
+      });
+
+      return {
+        success: true,
+        message: 'Đánh dấu tin nhắn đã đọc thành công',
+        data: {
+          messageIds: unread.map((m) => m._id),
+          unreadCount: remaining,
+        },
+      };
+    } catch (error: any) {
+      console.error('❌ Mark message as read error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi đánh dấu tin nhắn đã đọc',
+      };
+    }
+  }
+
+  // Delivery acknowledgement from the receiver's client (socket 'message:delivered')
+  static async markMessagesAsDelivered(
+    messageIds: string[],
+    userId: string
+  ): Promise<any> {
+    try {
+      const pending = await Message.find({
+        _id: { $in: messageIds },
+        receiverId: userId,
+        status: 'SENT',
+      }).select('conversationId');
+
+      if (pending.length === 0) {
+        return {
+          success: true,
+          message: 'Không có tin nhắn cần cập nhật',
+          data: { messageIds: [] },
+        };
+      }
+
+      const deliveredAt = new Date();
+      await Message.updateMany(
+        { _id: { $in: pending.map((m) => m._id) }, status: 'SENT' },
+        { status: 'DELIVERED', deliveredAt }
+      );
+
+      // Group per conversation so each room gets its own status event
+      const byConversation = new Map<string, string[]>();
+      pending.forEach((message) => {
+        const ids = byConversation.get(message.conversationId) || [];
+        ids.push(message._id);
+        byConversation.set(message.conversationId, ids);
+      });
+
+      const conversations = await Conversation.find({
+        _id: { $in: Array.from(byConversation.keys()) },
+      }).select('studentId tutorId');
+      conversations.forEach((conversation) => {
+        this.emitMessageStatus(conversation._id, conversation, {
+          messageIds: byConversation.get(conversation._id) || [],
+          status: 'DELIVERED',
+          at: deliveredAt,
+          userId,
+        });
+      });
+
+      return {
+        success: true,
+        message: 'Cập nhật trạng thái tin nhắn thành công',
+        data: { messageIds: pending.map((m) => m._id) },
+      };
+    } catch (error: any) {
+      console.error('❌ Mark messages as delivered error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi cập nhật trạng thái tin nhắn',
+      };
+    }
+  }
+
+  // Add or replace the user's reaction on a message
+  static async reactToMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<any> {
+    try {
+      const filter = {
+        _id: messageId,
+        conversationId,
+        isDeleted: false,
+        $or: [{ senderId: userId }, { receiverId: userId }],
+      };
+
+      // Single atomic update so concurrent reactions are never lost
+      const result = await Message.updateOne(filter, [
+        {
+          $set: {
+            reactions: {
+              $concatArrays: [
+                {
+                  $filter: {
+                    input: { $ifNull: ['$reactions', []] },
+                    cond: { $ne: ['$$this.userId', userId] },
+                  },
+                },
+                [{ userId, emoji, reactedAt: new Date() }],
+              ],
+            },
+          },
+        },
+      ]);
+      if (result.matchedCount === 0) {
+        return { success: false, message: 'Không tìm thấy tin nhắn' };
+      }
+
+      return this.emitReactions(conversationId, messageId);
+    } catch (error: any) {
+      console.error('❌ React to message error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi thả cảm xúc',
+      };
+    }
+  }
+
+  // Remove the user's reaction from a message
+  static async removeReaction(
+    conversationId: string,
+    messageId: string,
+    userId: string
+  ): Promise<any> {
+    try {
+      const result = await Message.updateOne(
+        {
+          _id: messageId,
+          conversationId,
+          isDeleted: false,
+          $or: [{ senderId: userId }, { receiverId: userId }],
+        },
+        { $pull: { reactions: { userId } } }
+      );
+      if (result.matchedCount === 0) {
+        return { success: false, message: 'Không tìm thấy tin nhắn' };
+      }
+
+      return this.emitReactions(conversationId, messageId);
+    } catch (error: any) {
+      console.error('❌ Remove reaction error:', error);
+      return {
+        success: false,
+        message: error.message || 'Lỗi khi gỡ cảm xúc',
+      };
+    }
+  }
+
+  private static async emitReactions(
+    conversationId: string,
+    messageId: string
+  ): Promise<any> {
+    const message = await Message.findById(messageId).select(
+      'senderId receiverId reactions'
+    );
+    const reactions = message?.reactions || [];
+
+    const io = getSocketInstance();
+    if (io && message) {
+      io.to([
+        `conversation-${conversationId}`,
+        `notifications-${message.senderId}`,
+        `notifications-${message.receiverId}`,
+      ]).emit('message-reaction', { conversationId, messageId, reactions });
+    }
+
+    return {
+      success: true,
+      message: 'Cập nhật cảm xúc thành công',
+      data: { messageId, reactions },
+    };
+  }
+
+  // 'message-status' lets both sides update the ticks of each message
+  private static emitMessageStatus(
+    conversationId: string,
+    conversation: Pick<IConversation, 'studentId' | 'tutorId'>,
+    payload: {
+      messageIds: string[];
+      status: 'DELIVERED' | 'READ';
+      at: Date;
+      userId: string;
+    }
+  ): void {
+    const io = getSocketInstance();
+    if (!io || payload.messageIds.length === 0) return;
+
+    io.to([
+      `conversation-${conversationId}`,
+      `notifications-${conversation.studentId}`,
+      `notifications-${conversation.tutorId}`,
+    ]).emit('message-status', { conversationId, ...payload });
+  }
+
   // Close conversation
   static async closeConversation(
     conversationId: string,
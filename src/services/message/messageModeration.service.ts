@@ -0,0 +1,243 @@
+import {
+  FlaggedMessage,
+  IFlaggedMessage,
+  ModerationAction,
+} from '../../models/FlaggedMessage';
+import { Message } from '../../models/Message';
+import { User } from '../../models/User';
+import { filterSensitiveContent } from '../../utils/contentFilter';
+
+/**
+ * Message Moderation Service
+ * Runs chat messages through the content filter and applies the configured
+ * action:
+ * - MASK:  deliver with phone numbers, emails and links replaced by ***
+ * - BLOCK: reject the message
+ * - FLAG:  deliver unchanged
+ * Every filtered message lands in the admin moderation queue. Senders with
+ * too many flags in a short window are always blocked.
+ */
+
+const ACTIONS: ModerationAction[] = ['MASK', 'BLOCK', 'FLAG'];
+
+const CONTEXT_SIZE = 5;
+
+export interface IModerationDecision {
+  action: 'ALLOW' | ModerationAction;
+  content: string; // Content to deliver (masked for MASK)
+  violations: string[];
+  escalated: boolean;
+}
+
+export interface IRecordFlagInput {
+  decision: IModerationDecision;
+  conversationId: string;
+  senderId: string;
+  receiverId: string;
+  originalContent: string;
+  messageId?: string;
+  source?: 'SEND' | 'EDIT' | 'TRANSCRIPT';
+}
+
+export interface IModerationQueueOptions {
+  status?: 'PENDING' | 'CONFIRMED' | 'DISMISSED';
+  action?: ModerationAction;
+  senderId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export class MessageModerationService {
+  static getConfiguredAction(): ModerationAction {
+    const action = (process.env.MESSAGE_FILTER_ACTION || '').toUpperCase();
+    return ACTIONS.includes(action as ModerationAction)
+      ? (action as ModerationAction)
+      : 'BLOCK';
+  }
+
+  /**
+   * Check message content and decide what to do with it
+   */
+  static async moderate(
+    senderId: string,
+    content: string
+  ): Promise<IModerationDecision> {
+    const result = filterSensitiveContent(content, false);
+    if (result.isValid) {
+      return { action: 'ALLOW', content, violations: [], escalated: false };
+    }
+
+    let action = this.getConfiguredAction();
+    let escalated = false;
+    if (action !== 'BLOCK' && (await this.isRepeatOffender(senderId))) {
+      action = 'BLOCK';
+      escalated = true;
+    }
+
+    return {
+      action,
+      content:
+        action === 'MASK' ? result.sanitizedContent || content : content,
+      violations: result.violations,
+      escalated,
+    };
+  }
+
+  /**
+   * Store a filtered message in the moderation queue with its context
+   */
+  static async recordFlag(input: IRecordFlagInput): Promise<IFlaggedMessage> {
+    const { decision } = input;
+
+    const previous = await Message.find({
+      conversationId: input.conversationId,
+      isDeleted: false,
+      ...(input.messageId ? { _id: { $ne: input.messageId } } : {}),
+    })
+      .sort({ sentAt: -1 })
+      .limit(CONTEXT_SIZE)
+      .select('senderId content messageType sentAt')
+      .lean();
+
+    return FlaggedMessage.create({
+      messageId: input.messageId,
+      conversationId: input.conversationId,
+      senderId: input.senderId,
+      receiverId: input.receiverId,
+      source: input.source || 'SEND',
+      originalContent: input.originalContent,
+      deliveredContent:
+        decision.action === 'BLOCK' ? undefined : decision.content,
+      violations: decision.violations,
+      action: decision.action,
+      escalated: decision.escalated,
+      context: previous.reverse().map((message) => ({
+        messageId: message._id,
+        senderId: message.senderId,
+        content: message.content,
+        messageType: message.messageType,
+        sentAt: message.sentAt,
+      })),
+    });
+  }
+
+  /**
+   * Flags in the recent window (dismissed ones excluded) reached the threshold
+   */
+  static async isRepeatOffender(senderId: string): Promise<boolean> {
+    const threshold =
+      parseInt(process.env.MESSAGE_FILTER_REPEAT_THRESHOLD || '') || 3;
+    const windowHours =
+      parseInt(process.env.MESSAGE_FILTER_REPEAT_WINDOW_HOURS || '') || 24;
+
+    const recentFlags = await FlaggedMessage.countDocuments({
+      senderId,
+      status: { $ne: 'DISMISSED' },
+      createdAt: { $gte: new Date(Date.now() - windowHours * 3600000) },
+    });
+    return recentFlags >= threshold;
+  }
+
+  /**
+   * Admin moderation queue
+   */
+  static async getQueue(options: IModerationQueueOptions = {}) {
+    const { status = 'PENDING', action, senderId } = options;
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+
+    const query: any = { status };
+    if (action) query.action = action;
+    if (senderId) query.senderId = senderId;
+
+    const [items, total, pendingCount] = await Promise.all([
+      FlaggedMessage.find(query)
+        .populate('senderId', 'full_name email role avatar_url')
+        .populate('receiverId', 'full_name email role avatar_url')
+        .select('-context')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      FlaggedMessage.countDocuments(query),
+      FlaggedMessage.countDocuments({ status: 'PENDING' }),
+    ]);
+
+    return {
+      items,
+      pendingCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Flagged message with its conversation context and sender history
+   */
+  static async getFlagById(flagId: string) {
+    const flag = await FlaggedMessage.findById(flagId)
+      .populate('senderId', 'full_name email role avatar_url')
+      .populate('receiverId', 'full_name email role avatar_url')
+      .lean();
+    if (!flag) {
+      return null;
+    }
+
+    const senderId = (flag.senderId as any)?._id || flag.senderId;
+    const [totalFlags, confirmedFlags] = await Promise.all([
+      FlaggedMessage.countDocuments({ senderId }),
+      FlaggedMessage.countDocuments({ senderId, status: 'CONFIRMED' }),
+    ]);
+
+    return {
+      ...flag,
+      senderHistory: { totalFlags, confirmedFlags },
+    };
+  }
+
+  /**
+   * Confirm (counts as a violation of the sender) or dismiss a flag
+   */
+  static async reviewFlag(
+    flagId: string,
+    adminId: string,
+    decision: 'CONFIRMED' | 'DISMISSED',
+    note?: string
+  ): Promise<IFlaggedMessage> {
+    const admin = await User.findById(adminId).select('full_name');
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    const flag = await FlaggedMessage.findOneAndUpdate(
+      { _id: flagId, status: 'PENDING' },
+      {
+        $set: {
+          status: decision,
+          review: {
+            reviewedBy: adminId,
+            reviewerName: admin.full_name,
+            note,
+            reviewedAt: new Date(),
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!flag) {
+      const exists = await FlaggedMessage.exists({ _id: flagId });
+      throw new Error(
+        exists
+          ? 'Tin nhắn này đã được xử lý'
+          : 'Không tìm thấy tin nhắn bị gắn cờ'
+      );
+    }
+
+    return flag;
+  }
+}
@@ -86,6 +86,96 @@ export const notifyTeachRequestResponded = async (
   });
 };
 
+export const notifyOfferReceived = async (
+  recipientId: string,
+  recipientRole: 'STUDENT' | 'TUTOR',
+  proposerName: string,
+  requestId: string,
+  offerNumber: number
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'CONTACT_REQUEST',
+    title: 'Đề nghị mới về điều khoản học',
+    message: `${proposerName} đã gửi đề nghị #${offerNumber} về học phí và lịch học`,
+    priority: 'high',
+    actionUrl:
+      recipientRole === 'TUTOR'
+        ? `/tutor/contact-requests`
+        : `/student/contact-requests`,
+    data: { requestId, offerNumber, proposerName },
+  });
+};
+
+export const notifyOfferResponded = async (
+  proposerId: string,
+  proposerRole: 'STUDENT' | 'TUTOR',
+  responderName: string,
+  action: 'ACCEPT' | 'DECLINE',
+  requestId: string,
+  offerNumber: number
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: proposerId,
+    notificationType: 'CONTACT_REQUEST',
+    title: action === 'ACCEPT' ? 'Đề nghị được chấp nhận' : 'Đề nghị bị từ chối',
+    message:
+      action === 'ACCEPT'
+        ? `${responderName} đã chấp nhận đề nghị #${offerNumber} của bạn`
+        : `${responderName} đã từ chối đề nghị #${offerNumber} của bạn`,
+    priority: 'high',
+    actionUrl:
+      proposerRole === 'TUTOR'
+        ? `/tutor/contact-requests`
+        : `/student/contact-requests`,
+    data: { requestId, offerNumber, responderName, action },
+  });
+};
+
+export const notifyContactRequestExpiring = async (
+  recipientId: string,
+  recipientRole: 'STUDENT' | 'TUTOR',
+  senderName: string,
+  requestId: string
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'CONTACT_REQUEST',
+    title: 'Yêu cầu sắp hết hạn',
+    message: `Yêu cầu từ ${senderName} sẽ hết hạn trong 24 giờ nếu bạn không phản hồi`,
+    priority: 'normal',
+    actionUrl:
+      recipientRole === 'TUTOR'
+        ? `/tutor/contact-requests`
+        : `/student/contact-requests`,
+    data: { requestId, senderName, expiring: true },
+  });
+};
+
+export const notifyContactRequestExpired = async (
+  recipientId: string,
+  recipientRole: 'STUDENT' | 'TUTOR',
+  otherPartyName: string,
+  requestId: string
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'CONTACT_REQUEST',
+    title: 'Yêu cầu đã hết hạn',
+    message: `Yêu cầu giữa bạn và ${otherPartyName} đã hết hạn do không được phản hồi`,
+    priority: 'normal',
+    actionUrl:
+      recipientRole === 'TUTOR'
+        ? `/tutor/contact-requests`
+        : `/student/contact-requests`,
+    data: { requestId, otherPartyName, status: 'EXPIRED' },
+  });
+};
+
 export const notifyClassCreated = async (
   studentId: string,
   tutorName: string,
@@ -231,6 +321,165 @@ export const notifyCancellationResponded = async (
   });
 };
 
+const formatSessionDateTime = (date: Date) =>
+  new Date(date).toLocaleString('vi-VN', {
+    timeZone: 'Asia/Ho_Chi_Minh',
+    hour: '2-digit',
+    minute: '2-digit',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+
+export const notifyRescheduleRequested = async (
+  recipientId: string,
+  requesterName: string,
+  className: string,
+  sessionNumber: number,
+  proposedDate: Date,
+  reason: string | undefined,
+  classId: string
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'RESCHEDULE_REQUESTED',
+    title: 'Yêu cầu đổi lịch buổi học',
+    message: `${requesterName} đề xuất dời buổi ${sessionNumber} - ${className} sang ${formatSessionDateTime(proposedDate)}`,
+    priority: 'high',
+    actionUrl: `/schedule/calendar`,
+    data: { classId, sessionNumber, className, proposedDate, reason },
+  });
+};
+
+export const notifyRescheduleResponded = async (
+  requesterId: string,
+  responderName: string,
+  action: 'ACCEPTED' | 'REJECTED',
+  className: string,
+  sessionNumber: number,
+  proposedDate: Date,
+  classId: string
+) => {
+  const message =
+    action === 'ACCEPTED'
+      ? `${responderName} đã đồng ý dời buổi ${sessionNumber} - ${className} sang ${formatSessionDateTime(proposedDate)}`
+      : `${responderName} đã từ chối đổi lịch buổi ${sessionNumber} - ${className}`;
+
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: requesterId,
+    notificationType: 'RESCHEDULE_RESPONDED',
+    title:
+      action === 'ACCEPTED' ? 'Đổi lịch được chấp nhận' : 'Đổi lịch bị từ chối',
+    message,
+    priority: 'high',
+    actionUrl: `/schedule/calendar`,
+    data: { classId, sessionNumber, className, action, proposedDate },
+  });
+};
+
+export const notifyMakeUpSessionScheduled = async (
+  recipientId: string,
+  className: string,
+  cancelledSessionNumber: number,
+  makeUpSessionNumber: number,
+  scheduledDate: Date,
+  classId: string,
+  isUpdate: boolean = false
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'MAKEUP_SESSION_SCHEDULED',
+    title: isUpdate ? 'Buổi học bù đã đổi lịch' : 'Đã xếp buổi học bù',
+    message: `Buổi ${makeUpSessionNumber} (học bù cho buổi ${cancelledSessionNumber}) - ${className} vào ${formatSessionDateTime(scheduledDate)}`,
+    priority: 'normal',
+    actionUrl: `/schedule/calendar`,
+    data: {
+      classId,
+      className,
+      cancelledSessionNumber,
+      sessionNumber: makeUpSessionNumber,
+      scheduledDate,
+    },
+  });
+};
+
+export const notifyRefundUpdated = async (
+  studentId: string,
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'REJECTED',
+  amount: number,
+  className: string,
+  refundId: string,
+  classId: string
+) => {
+  const formattedAmount = amount.toLocaleString('vi-VN');
+  const content: Record<string, { title: string; message: string }> = {
+    PENDING: {
+      title: 'Yêu cầu hoàn tiền đã được tạo',
+      message: `Khoản hoàn ${formattedAmount} VNĐ cho lớp ${className} đang chờ admin xử lý`,
+    },
+    PROCESSING: {
+      title: 'Đang hoàn tiền',
+      message: `Khoản hoàn ${formattedAmount} VNĐ cho lớp ${className} đang được VNPay xử lý`,
+    },
+    COMPLETED: {
+      title: 'Hoàn tiền thành công',
+      message: `Bạn đã được hoàn ${formattedAmount} VNĐ cho lớp ${className}`,
+    },
+    FAILED: {
+      title: 'Hoàn tiền thất bại',
+      message: `Khoản hoàn ${formattedAmount} VNĐ cho lớp ${className} chưa thực hiện được, admin sẽ liên hệ với bạn`,
+    },
+    REJECTED: {
+      title: 'Yêu cầu hoàn tiền bị từ chối',
+      message: `Khoản hoàn ${formattedAmount} VNĐ cho lớp ${className} đã bị từ chối`,
+    },
+  };
+
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: studentId,
+    notificationType: 'REFUND_UPDATED',
+    title: content[status].title,
+    message: content[status].message,
+    priority: status === 'COMPLETED' ? 'normal' : 'high',
+    actionUrl: `/student/classes/${classId}/payment`,
+    data: { refundId, classId, className, amount, status },
+  });
+};
+
+export const notifyPaymentOverdue = async (
+  recipientId: string,
+  recipientRole: 'STUDENT' | 'TUTOR',
+  className: string,
+  sessionNumbers: number[],
+  amountDue: number,
+  lateFee: number,
+  classId: string
+) => {
+  const sessions = sessionNumbers.join(', ');
+  const isStudent = recipientRole === 'STUDENT';
+  const feeText =
+    lateFee > 0 ? ` (gồm phí trễ hạn ${lateFee.toLocaleString('vi-VN')} VNĐ)` : '';
+
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: recipientId,
+    notificationType: 'PAYMENT_OVERDUE',
+    title: isStudent ? 'Học phí quá hạn thanh toán' : 'Học viên chậm thanh toán',
+    message: isStudent
+      ? `Buổi ${sessions} - ${className} đã quá hạn thanh toán. Số tiền cần thanh toán: ${amountDue.toLocaleString('vi-VN')} VNĐ${feeText}`
+      : `Học viên chưa thanh toán buổi ${sessions} - ${className} sau thời gian gia hạn`,
+    priority: 'high',
+    actionUrl: isStudent
+      ? `/student/classes/${classId}/payment`
+      : `/schedule/calendar`,
+    data: { classId, className, sessionNumbers, amountDue, lateFee },
+  });
+};
+
 export const notifyNewMessage = async (
   recipientId: string,
   senderName: string,
@@ -311,3 +560,40 @@ export const notifySessionReportResolved = async (
     data: { classId, sessionNumber, reportId, decision },
   });
 };
+
+export const notifyParentLinkRequested = async (
+  studentId: string,
+  parentName: string,
+  linkId: string
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: studentId,
+    notificationType: 'PARENT_LINK_REQUESTED',
+    title: 'Lời mời liên kết phụ huynh',
+    message: `${parentName} muốn liên kết tài khoản phụ huynh với bạn`,
+    priority: 'high',
+    actionUrl: `/student/parents`,
+    data: { linkId, parentName },
+  });
+};
+
+export const notifyParentLinkResponded = async (
+  parentId: string,
+  studentName: string,
+  linkId: string,
+  accepted: boolean
+) => {
+  await NotificationService.sendNotification({
+    type: 'socket',
+    userId: parentId,
+    notificationType: 'PARENT_LINK_RESPONDED',
+    title: accepted ? 'Liên kết đã được chấp nhận' : 'Liên kết bị từ chối',
+    message: accepted
+      ? `${studentName} đã chấp nhận lời mời liên kết của bạn`
+      : `${studentName} đã từ chối lời mời liên kết của bạn`,
+    priority: 'normal',
+    actionUrl: `/parent/children`,
+    data: { linkId, studentName, accepted },
+  });
+};
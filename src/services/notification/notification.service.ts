@@ -1,6 +1,8 @@
 import { getSocketInstance } from '../../config/socket';
 import { logger } from '../../utils/logger';
 import { Notification } from '../../models/Notification';
+import { ParentStudentLink } from '../../models/ParentStudentLink';
+import { User } from '../../models/User';
 
 // Define notification types
 export interface NotificationData {
@@ -15,17 +17,27 @@ export interface NotificationData {
     | 'ATTENDANCE_MARKED'
     | 'CANCELLATION_REQUESTED'
     | 'CANCELLATION_RESPONDED'
+    | 'RESCHEDULE_REQUESTED'
+    | 'RESCHEDULE_RESPONDED'
+    | 'MAKEUP_SESSION_SCHEDULED'
+    | 'REFUND_UPDATED'
+    | 'PAYMENT_OVERDUE'
     | 'MESSAGE'
     | 'SYSTEM'
     | 'ASSIGNMENT_DEADLINE_REMINDER'
     | 'CONTRACT_CREATED'
     | 'CONTRACT_APPROVED'
     | 'CONTRACT_REJECTED'
+    | 'CONTRACT_EXPIRING'
     | 'CONTRACT_EXPIRED'
     | 'CONTRACT_CANCELLED'
+    | 'CONTRACT_AMENDED'
     | 'SESSION_REPORT_CREATED'
     | 'SESSION_REPORT_UNDER_REVIEW'
-    | 'SESSION_REPORT_RESOLVED';
+    | 'SESSION_REPORT_RESOLVED'
+    | 'SECURITY_ALERT'
+    | 'PARENT_LINK_REQUESTED'
+    | 'PARENT_LINK_RESPONDED';
   title: string;
   message: string;
   data?: any;
@@ -33,6 +45,29 @@ export interface NotificationData {
   actionUrl?: string;
 }
 
+// Student notifications that linked parents also receive a copy of
+const PARENT_COPY_TYPES: NotificationData['notificationType'][] = [
+  'CLASS_CREATED',
+  'HOMEWORK_ASSIGNED',
+  'HOMEWORK_GRADED',
+  'ATTENDANCE_MARKED',
+  'CANCELLATION_REQUESTED',
+  'CANCELLATION_RESPONDED',
+  'RESCHEDULE_REQUESTED',
+  'RESCHEDULE_RESPONDED',
+  'MAKEUP_SESSION_SCHEDULED',
+  'REFUND_UPDATED',
+  'PAYMENT_OVERDUE',
+  'ASSIGNMENT_DEADLINE_REMINDER',
+  'CONTRACT_CREATED',
+  'CONTRACT_APPROVED',
+  'CONTRACT_EXPIRING',
+  'CONTRACT_EXPIRED',
+  'CONTRACT_CANCELLED',
+  'CONTRACT_AMENDED',
+  'SESSION_REPORT_RESOLVED',
+];
+
 // Simple notification service without Redis/Queue
 export class NotificationService {
   // Send notification directly without queue
@@ -108,6 +143,13 @@ export class NotificationService {
           break;
       }
 
+      if (
+        PARENT_COPY_TYPES.includes(data.notificationType) &&
+        !data.data?.parentCopy
+      ) {
+        await NotificationService.copyToParents(data);
+      }
+
       return { success: true, userId: data.userId, type: data.type };
     } catch (error) {
       logger.error(
@@ -118,6 +160,46 @@ export class NotificationService {
     }
   }
 
+  // Copy a student's notification to every parent linked to the student
+  private static async copyToParents(data: NotificationData): Promise<void> {
+    try {
+      const links = await ParentStudentLink.find({
+        studentId: data.userId,
+        status: 'ACCEPTED',
+      })
+        .select('parentId')
+        .lean();
+      if (links.length === 0) return;
+
+      const student = await User.findById(data.userId)
+        .select('full_name')
+        .lean();
+      const studentName = student?.full_name || 'Học viên';
+
+      await Promise.allSettled(
+        links.map((link) =>
+          NotificationService.sendNotification({
+            ...data,
+            userId: link.parentId,
+            title: `[${studentName}] ${data.title}`,
+            data: {
+              ...data.data,
+              parentCopy: true,
+              studentId: data.userId,
+              studentName,
+            },
+            actionUrl: `/parent/children/${data.userId}`,
+          })
+        )
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to copy notification to parents of student ${data.userId}:`,
+        error
+      );
+    }
+  }
+
   // Mark notification as read
   static async markAsRead(
     notificationId: string,
@@ -0,0 +1,371 @@
+import { ParentStudentLink, User } from '../../models';
+import { ParentRelationship } from '../../models/ParentStudentLink';
+import { UserRole, UserStatus } from '../../types/user.types';
+import { classService } from '../class/class.service';
+import { PaymentService } from '../contract/payment.service';
+import {
+  IInitiatePaymentParams,
+  paymentScheduleService,
+} from '../paymentSchedule/paymentSchedule.service';
+import {
+  notifyParentLinkRequested,
+  notifyParentLinkResponded,
+} from '../notification/notification.helpers';
+import { logger } from '../../utils/logger';
+
+/**
+ * Parent Service
+ * Parent / guardian accounts linked to student accounts through an
+ * invitation the student accepts. A linked parent gets a read-only view of
+ * the child's classes, attendance, homework and payment schedules and can
+ * pay installments on the child's behalf.
+ */
+
+// A declined invitation cannot be sent again straight away
+const REINVITE_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export interface IInviteStudentInput {
+  studentEmail: string;
+  relationship?: ParentRelationship;
+  message?: string;
+}
+
+export type IParentPaymentParams = Pick<
+  IInitiatePaymentParams,
+  | 'learningClassId'
+  | 'paymentType'
+  | 'sessionNumbers'
+  | 'ipAddress'
+  | 'userAgent'
+>;
+
+class ParentService {
+  private paymentService = new PaymentService();
+
+  /**
+   * Parent invites a student (by email) to link accounts
+   */
+  async inviteStudent(parentId: string, input: IInviteStudentInput) {
+    try {
+      const [parent, student] = await Promise.all([
+        User.findById(parentId).select('full_name'),
+        User.findOne({ email: input.studentEmail.toLowerCase() }).select(
+          'full_name role status'
+        ),
+      ]);
+
+      if (!parent) {
+        throw new Error('Không tìm thấy tài khoản phụ huynh');
+      }
+      if (
+        !student ||
+        student.role !== UserRole.STUDENT ||
+        student.status !== UserStatus.ACTIVE
+      ) {
+        throw new Error('Không tìm thấy tài khoản học viên với email này');
+      }
+
+      const existingLink = await ParentStudentLink.findOne({
+        parentId,
+        studentId: student._id,
+      });
+
+      if (existingLink?.status === 'ACCEPTED') {
+        throw new Error('Bạn đã liên kết với học viên này');
+      }
+      if (existingLink?.status === 'PENDING') {
+        throw new Error('Lời mời đã được gửi và đang chờ học viên xác nhận');
+      }
+      if (
+        existingLink?.status === 'DECLINED' &&
+        existingLink.respondedAt &&
+        existingLink.respondedAt.getTime() > Date.now() - REINVITE_COOLDOWN_MS
+      ) {
+        throw new Error(
+          'Học viên vừa từ chối lời mời. Vui lòng thử lại sau 24 giờ.'
+        );
+      }
+
+      // Re-use the pair's document after a decline or revoke
+      const link =
+        existingLink ||
+        new ParentStudentLink({ parentId, studentId: student._id });
+      link.status = 'PENDING';
+      link.relationship = input.relationship || 'GUARDIAN';
+      link.message = input.message;
+      link.invitedAt = new Date();
+      link.respondedAt = undefined;
+      link.revokedAt = undefined;
+      link.revokedBy = undefined;
+      await link.save();
+
+      try {
+        await notifyParentLinkRequested(
+          student._id,
+          parent.full_name,
+          link._id
+        );
+      } catch (notifyError) {
+        logger.error('Failed to notify parent link request:', notifyError);
+      }
+
+      logger.info(
+        `Parent link invitation sent - Parent: ${parentId}, Student: ${student._id}`
+      );
+
+      return {
+        success: true,
+        message: 'Đã gửi lời mời liên kết, vui lòng chờ học viên xác nhận',
+        data: link,
+      };
+    } catch (error: any) {
+      logger.error('Invite student error:', error);
+      throw new Error(error.message || 'Không thể gửi lời mời liên kết');
+    }
+  }
+
+  /**
+   * Children (accepted links) and pending invitations of a parent
+   */
+  async getParentLinks(parentId: string) {
+    try {
+      const links = await ParentStudentLink.find({
+        parentId,
+        status: { $in: ['PENDING', 'ACCEPTED'] },
+      })
+        .populate('studentId', 'full_name avatar_url email')
+        .sort({ invitedAt: -1 })
+        .lean();
+
+      return {
+        success: true,
+        data: links,
+      };
+    } catch (error: any) {
+      logger.error('Get parent links error:', error);
+      throw new Error('Không thể lấy danh sách học viên đã liên kết');
+    }
+  }
+
+  /**
+   * Linked parents and pending invitations of a student
+   */
+  async getStudentLinks(studentId: string) {
+    try {
+      const links = await ParentStudentLink.find({
+        studentId,
+        status: { $in: ['PENDING', 'ACCEPTED'] },
+      })
+        .populate('parentId', 'full_name avatar_url email phone_number')
+        .sort({ invitedAt: -1 })
+        .lean();
+
+      return {
+        success: true,
+        data: links,
+      };
+    } catch (error: any) {
+      logger.error('Get student parent links error:', error);
+      throw new Error('Không thể lấy danh sách phụ huynh');
+    }
+  }
+
+  /**
+   * Student accepts or declines a parent's invitation
+   */
+  async respondToInvitation(
+    studentId: string,
+    linkId: string,
+    accept: boolean
+  ) {
+    try {
+      const link = await ParentStudentLink.findOneAndUpdate(
+        { _id: linkId, studentId, status: 'PENDING' },
+        {
+          $set: {
+            status: accept ? 'ACCEPTED' : 'DECLINED',
+            respondedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+
+      if (!link) {
+        throw new Error('Không tìm thấy lời mời liên kết');
+      }
+
+      try {
+        const student = await User.findById(studentId).select('full_name');
+        await notifyParentLinkResponded(
+          link.parentId,
+          student?.full_name || 'Học viên',
+          link._id,
+          accept
+        );
+      } catch (notifyError) {
+        logger.error('Failed to notify parent link response:', notifyError);
+      }
+
+      logger.info(
+        `Parent link ${accept ? 'accepted' : 'declined'} - Link: ${linkId}, Student: ${studentId}`
+      );
+
+      return {
+        success: true,
+        message: accept
+          ? 'Đã chấp nhận liên kết phụ huynh'
+          : 'Đã từ chối lời mời liên kết',
+        data: link,
+      };
+    } catch (error: any) {
+      logger.error('Respond to parent invitation error:', error);
+      throw new Error(error.message || 'Không thể phản hồi lời mời liên kết');
+    }
+  }
+
+  /**
+   * Remove a link (or cancel a pending invitation), by either side
+   */
+  async revokeLink(userId: string, linkId: string) {
+    try {
+      const link = await ParentStudentLink.findOneAndUpdate(
+        {
+          _id: linkId,
+          $or: [{ parentId: userId }, { studentId: userId }],
+          status: { $in: ['PENDING', 'ACCEPTED'] },
+        },
+        {
+          $set: {
+            status: 'REVOKED',
+            revokedAt: new Date(),
+            revokedBy: userId,
+          },
+        },
+        { new: true }
+      );
+
+      if (!link) {
+        throw new Error('Không tìm thấy liên kết');
+      }
+
+      logger.info(`Parent link revoked - Link: ${linkId}, By: ${userId}`);
+
+      return {
+        success: true,
+        message: 'Đã hủy liên kết',
+        data: link,
+      };
+    } catch (error: any) {
+      logger.error('Revoke parent link error:', error);
+      throw new Error(error.message || 'Không thể hủy liên kết');
+    }
+  }
+
+  /**
+   * Classes of a linked child (read-only)
+   */
+  async getChildClasses(parentId: string, studentId: string) {
+    await this.assertLinkedStudent(parentId, studentId);
+    return classService.getStudentClasses(studentId);
+  }
+
+  /**
+   * Sessions of a child's class with attendance (read-only)
+   */
+  async getChildClassSchedule(
+    parentId: string,
+    studentId: string,
+    classId: string
+  ) {
+    await this.assertLinkedStudent(parentId, studentId);
+    return classService.getClassSchedule(classId, studentId);
+  }
+
+  /**
+   * Homework of a linked child with submissions and grades (read-only)
+   */
+  async getChildAssignments(parentId: string, studentId: string) {
+    await this.assertLinkedStudent(parentId, studentId);
+    return classService.getStudentAssignments(studentId);
+  }
+
+  /**
+   * Payment schedules (installments) of a linked child
+   */
+  async getChildPaymentSchedules(
+    parentId: string,
+    studentId: string,
+    filters: { status?: string; page?: number; limit?: number } = {}
+  ) {
+    await this.assertLinkedStudent(parentId, studentId);
+    const result = await this.paymentService.getPaymentSchedulesByStudent(
+      studentId,
+      filters
+    );
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  /**
+   * Unpaid sessions of a child's class the parent can pay for
+   */
+  async getChildAvailableSessions(
+    parentId: string,
+    studentId: string,
+    learningClassId: string
+  ) {
+    await this.assertLinkedStudent(parentId, studentId);
+    const result = await paymentScheduleService.getAvailableSessionsForPayment(
+      learningClassId,
+      studentId
+    );
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  /**
+   * Parent pays installments of a child's class (same flow as the student)
+   */
+  async initiateChildPayment(
+    parentId: string,
+    studentId: string,
+    params: IParentPaymentParams
+  ) {
+    await this.assertLinkedStudent(parentId, studentId);
+
+    const result = await paymentScheduleService.initiatePayment({
+      ...params,
+      studentId,
+      paidBy: parentId,
+    });
+
+    logger.info(
+      `Payment initiated by parent: ${parentId} for student: ${studentId}, order: ${result.payment.orderId}`
+    );
+
+    return result;
+  }
+
+  private async assertLinkedStudent(
+    parentId: string,
+    studentId: string
+  ): Promise<void> {
+    const link = await ParentStudentLink.exists({
+      parentId,
+      studentId,
+      status: 'ACCEPTED',
+    });
+
+    if (!link) {
+      throw new Error('Không tìm thấy học viên đã liên kết với tài khoản này');
+    }
+  }
+}
+
+export const parentService = new ParentService();
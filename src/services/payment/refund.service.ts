@@ -0,0 +1,646 @@
+import {
+  Payment,
+  PaymentSchedule,
+  LearningClass,
+  Refund,
+} from '../../models';
+import { IPayment } from '../../models/Payment';
+import { IRefund, IRefundSession, RefundReason } from '../../models/Refund';
+import { vnpayService } from './vnpay.service';
+import { tutorEarningService } from './tutorEarning.service';
+import { notifyRefundUpdated } from '../notification/notification.helpers';
+import { logger } from '../../utils/logger';
+
+/**
+ * Refund Service
+ * Computes and issues refunds for paid sessions that were not delivered:
+ * - the learning class is cancelled (cancellationPolicy applies to the student)
+ * - a session report is resolved as TUTOR_FAULT (full refund of that session)
+ * - VNPay captured money for a payment no longer valid: cancelled, or
+ *   expired/failed and its sessions paid by another payment (full refund)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions in these states have not been delivered to the student
+const UNDELIVERED_SESSION_STATUSES = [
+  'SCHEDULED',
+  'CANCELLED',
+  'PENDING_CANCELLATION',
+];
+
+// Refunds in these states already cover their sessions
+const ACTIVE_REFUND_STATUSES = ['PENDING', 'PROCESSING', 'COMPLETED'];
+
+// Payment.refundInfo.reason
+const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  CLASS_CANCELLED: 'Lớp học bị hủy',
+  TUTOR_FAULT: 'Gia sư vi phạm (báo cáo buổi học)',
+  PAYMENT_CANCELLED: 'Thanh toán cho giao dịch không còn hiệu lực',
+};
+
+interface IRefundableSession {
+  sessionNumber: number;
+  paymentId: string;
+  paidAmount: number;
+  refundPercentage: number;
+}
+
+interface IRefundContext {
+  reason: RefundReason;
+  reasonDetail?: string;
+  requestedBy?: string;
+  sessionReportId?: string;
+}
+
+export interface IRefundFilters {
+  page: number;
+  limit: number;
+  status?: string;
+  method?: string;
+  studentId?: string;
+  learningClassId?: string;
+}
+
+class RefundService {
+  /**
+   * Refund paid-but-undelivered sessions of a cancelled class and close
+   * its payment schedule (unpaid installments are cancelled)
+   */
+  async processClassCancellation(
+    classId: string,
+    cancelledBy: string,
+    reason?: string
+  ): Promise<IRefund[]> {
+    const learningClass = await LearningClass.findById(classId);
+    if (!learningClass) {
+      throw new Error('Không tìm thấy lớp học');
+    }
+
+    const paymentSchedule = await PaymentSchedule.findOne({
+      learningClassId: classId,
+    });
+    if (!paymentSchedule) {
+      return [];
+    }
+
+    const { refundPercentage, minimumNoticeDays } =
+      paymentSchedule.paymentTerms.cancellationPolicy;
+    // The tutor cancelling is never the student's fault
+    const cancelledByTutor = learningClass.tutorId.toString() === cancelledBy;
+    const now = Date.now();
+
+    const refundable: IRefundableSession[] = [];
+
+    for (const installment of paymentSchedule.installments) {
+      if (['UNPAID', 'PENDING', 'OVERDUE'].includes(installment.status)) {
+        // Nothing was paid - the installment is simply no longer owed
+        paymentSchedule.totalAmount -= installment.amount;
+        installment.status = 'CANCELLED';
+        installment.notes = 'Hủy do lớp học bị hủy';
+        continue;
+      }
+
+      if (installment.status !== 'PAID' || !installment.paymentId) {
+        continue;
+      }
+
+      const session = learningClass.sessions.find(
+        (s) => s.sessionNumber === installment.sessionNumber
+      );
+      if (session && !UNDELIVERED_SESSION_STATUSES.includes(session.status)) {
+        continue;
+      }
+
+      // Full refund when the student gives enough notice (or tutor cancels),
+      // otherwise the cancellation policy percentage applies
+      const noticeDays = session
+        ? (new Date(session.scheduledDate).getTime() - now) / DAY_MS
+        : Infinity;
+      const percentage =
+        cancelledByTutor || noticeDays >= minimumNoticeDays
+          ? 100
+          : refundPercentage;
+
+      refundable.push({
+        sessionNumber: installment.sessionNumber,
+        paymentId: installment.paymentId,
+        paidAmount: installment.amount,
+        refundPercentage: percentage,
+      });
+    }
+
+    paymentSchedule.status = 'CANCELLED';
+    paymentSchedule.cancelledAt = new Date();
+    await paymentSchedule.save();
+
+    // Payments still waiting at VNPay must not complete for a cancelled class
+    await Payment.updateMany(
+      { learningClassId: classId, status: 'PENDING' },
+      { $set: { status: 'CANCELLED' } }
+    );
+
+    return this.createRefunds(paymentSchedule._id, refundable, {
+      reason: 'CLASS_CANCELLED',
+      reasonDetail: reason,
+      requestedBy: cancelledBy,
+    });
+  }
+
+  /**
+   * Fully refund the reported session when a report is resolved as TUTOR_FAULT
+   */
+  async processTutorFaultRefund(
+    report: { _id: string; classId: string; sessionNumber: number },
+    adminId: string,
+    resolutionMessage?: string
+  ): Promise<IRefund[]> {
+    const paymentSchedule = await PaymentSchedule.findOne({
+      learningClassId: report.classId,
+    });
+    if (!paymentSchedule) {
+      return [];
+    }
+
+    const installment = paymentSchedule.installments.find(
+      (inst) => inst.sessionNumber === report.sessionNumber
+    );
+    if (
+      !installment ||
+      installment.status !== 'PAID' ||
+      !installment.paymentId
+    ) {
+      logger.info(
+        `No paid installment to refund for session ${report.sessionNumber} of class ${report.classId}`
+      );
+      return [];
+    }
+
+    return this.createRefunds(
+      paymentSchedule._id,
+      [
+        {
+          sessionNumber: installment.sessionNumber,
+          paymentId: installment.paymentId,
+          paidAmount: installment.amount,
+          refundPercentage: 100,
+        },
+      ],
+      {
+        reason: 'TUTOR_FAULT',
+        reasonDetail: resolutionMessage,
+        requestedBy: adminId,
+        sessionReportId: report._id,
+      }
+    );
+  }
+
+  /**
+   * Refund in full a payment VNPay reported as paid after it was cancelled,
+   * expired or failed and could not be completed. Its installments were
+   * released, so only the Payment itself is refunded.
+   */
+  async processCancelledPaymentCapture(payment: IPayment): Promise<IRefund> {
+    // Split the amount across the sessions, the last one takes the remainder
+    const share = Math.floor(payment.amount / payment.sessionNumbers.length);
+    const sessions: IRefundSession[] = payment.sessionNumbers.map(
+      (sessionNumber, index) => {
+        const paidAmount =
+          index === payment.sessionNumbers.length - 1
+            ? payment.amount - share * index
+            : share;
+        return {
+          sessionNumber,
+          paidAmount,
+          refundAmount: paidAmount,
+          refundPercentage: 100,
+        };
+      }
+    );
+
+    const canUseVnpay =
+      process.env.VNPAY_REFUND_ENABLED === 'true' &&
+      !!payment.gatewayTransactionId;
+
+    let refund: IRefund;
+    try {
+      refund = await Refund.create({
+        paymentId: payment._id,
+        paymentScheduleId: payment.paymentScheduleId,
+        contractId: payment.contractId,
+        learningClassId: payment.learningClassId,
+        studentId: payment.studentId,
+        tutorId: payment.tutorId,
+        orderId: payment.orderId,
+        reason: 'PAYMENT_CANCELLED',
+        reasonDetail: `VNPay xác nhận thanh toán cho giao dịch không còn hiệu lực (${payment.status})`,
+        sessions,
+        amount: payment.amount,
+        method: canUseVnpay ? 'VNPAY' : 'BANK_TRANSFER',
+        status: canUseVnpay ? 'PROCESSING' : 'PENDING',
+      });
+    } catch (error: any) {
+      // Duplicate key: the capture is already being refunded
+      if (error.code !== 11000) throw error;
+      const existing = await Refund.findOne({
+        paymentId: payment._id,
+        status: { $in: ACTIVE_REFUND_STATUSES },
+      });
+      if (!existing) throw error;
+      return existing;
+    }
+
+    logger.warn(
+      `Refund created for captured cancelled payment: ${payment.orderId}, refund: ${refund._id}, amount: ${refund.amount}, method: ${refund.method}`
+    );
+
+    if (canUseVnpay) {
+      await this.refundViaVnpay(refund, payment);
+    } else {
+      await this.notifyStudent(refund);
+    }
+
+    return refund;
+  }
+
+  /**
+   * Complete a queued manual bank transfer refund (Admin)
+   */
+  async completeManualRefund(
+    refundId: string,
+    adminId: string,
+    data: { transferReference: string; note?: string }
+  ): Promise<IRefund> {
+    const refund = await Refund.findOneAndUpdate(
+      { _id: refundId, status: { $in: ['PENDING', 'FAILED'] } },
+      {
+        $set: {
+          status: 'COMPLETED',
+          method: 'BANK_TRANSFER',
+          transferReference: data.transferReference,
+          adminNote: data.note,
+          processedBy: adminId,
+          processedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (!refund) {
+      throw new Error('Không tìm thấy yêu cầu hoàn tiền đang chờ xử lý');
+    }
+
+    await this.applyCompletedRefund(refund, adminId);
+    await this.notifyStudent(refund);
+
+    logger.info(
+      `Manual refund completed: ${refund._id}, amount: ${refund.amount}, by admin: ${adminId}`
+    );
+
+    return refund;
+  }
+
+  /**
+   * Reject a queued refund (Admin) - the installments stay PAID
+   */
+  async rejectRefund(
+    refundId: string,
+    adminId: string,
+    note: string
+  ): Promise<IRefund> {
+    const refund = await Refund.findOneAndUpdate(
+      { _id: refundId, status: { $in: ['PENDING', 'FAILED'] } },
+      {
+        $set: {
+          status: 'REJECTED',
+          adminNote: note,
+          processedBy: adminId,
+          processedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (!refund) {
+      throw new Error('Không tìm thấy yêu cầu hoàn tiền đang chờ xử lý');
+    }
+
+    // A cancelled payment's installments may belong to another payment now
+    if (refund.reason !== 'PAYMENT_CANCELLED') {
+      await this.annotateInstallments(
+        refund,
+        () => `Yêu cầu hoàn tiền bị từ chối: ${note}`
+      );
+      await tutorEarningService.restoreForRejectedRefund(
+        refund.learningClassId,
+        refund.sessions.map((s) => s.sessionNumber),
+        `Refund ${refund._id}`
+      );
+    }
+    await this.notifyStudent(refund);
+
+    logger.info(`Refund rejected: ${refund._id} by admin: ${adminId}`);
+
+    return refund;
+  }
+
+  /**
+   * List refunds with filters (Admin queue / history)
+   */
+  async getRefunds(filters: IRefundFilters): Promise<any> {
+    const { page, limit, status, method, studentId, learningClassId } =
+      filters;
+
+    const query: any = {};
+    if (status) query.status = status;
+    if (method) query.method = method;
+    if (studentId) query.studentId = studentId;
+    if (learningClassId) query.learningClassId = learningClassId;
+
+    const [refunds, total] = await Promise.all([
+      Refund.find(query)
+        .populate('studentId', 'full_name email phone_number')
+        .populate('tutorId', 'full_name email')
+        .populate('learningClassId', 'title')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Refund.countDocuments(query),
+    ]);
+
+    return {
+      refunds,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Create one refund per original payment and dispatch it
+   */
+  private async createRefunds(
+    paymentScheduleId: string,
+    sessions: IRefundableSession[],
+    context: IRefundContext
+  ): Promise<IRefund[]> {
+    const refunds: IRefund[] = [];
+    const byPayment = new Map<string, IRefundableSession[]>();
+
+    for (const session of sessions) {
+      const group = byPayment.get(session.paymentId) || [];
+      group.push(session);
+      byPayment.set(session.paymentId, group);
+    }
+
+    for (const [paymentId, paymentSessions] of byPayment) {
+      const payment = await Payment.findById(paymentId);
+      if (!payment || payment.status !== 'COMPLETED') {
+        logger.warn(
+          `Skipping refund for payment ${paymentId}: not a completed payment`
+        );
+        continue;
+      }
+
+      // Never refund the same session twice
+      const existing = await Refund.find({
+        paymentId,
+        status: { $in: ACTIVE_REFUND_STATUSES },
+      }).select('sessions.sessionNumber');
+      const alreadyRefunded = new Set(
+        existing.flatMap((r) => r.sessions.map((s) => s.sessionNumber))
+      );
+
+      const refundSessions: IRefundSession[] = paymentSessions
+        .filter((s) => !alreadyRefunded.has(s.sessionNumber))
+        .map((s) => ({
+          sessionNumber: s.sessionNumber,
+          paidAmount: s.paidAmount,
+          refundAmount: Math.round((s.paidAmount * s.refundPercentage) / 100),
+          refundPercentage: s.refundPercentage,
+        }));
+
+      const amount = refundSessions.reduce(
+        (sum, s) => sum + s.refundAmount,
+        0
+      );
+      if (refundSessions.length === 0 || amount <= 0) {
+        continue;
+      }
+
+      const canUseVnpay =
+        process.env.VNPAY_REFUND_ENABLED === 'true' &&
+        payment.paymentMethod === 'VNPAY' &&
+        !!payment.gatewayTransactionId;
+
+      let refund: IRefund;
+      try {
+        refund = await Refund.create({
+          paymentId,
+          paymentScheduleId,
+          contractId: payment.contractId,
+          learningClassId: payment.learningClassId,
+          studentId: payment.studentId,
+          tutorId: payment.tutorId,
+          orderId: payment.orderId,
+          reason: context.reason,
+          reasonDetail: context.reasonDetail,
+          sessionReportId: context.sessionReportId,
+          requestedBy: context.requestedBy,
+          sessions: refundSessions,
+          amount,
+          method: canUseVnpay ? 'VNPAY' : 'BANK_TRANSFER',
+          status: canUseVnpay ? 'PROCESSING' : 'PENDING',
+        });
+      } catch (error: any) {
+        // Duplicate key: one of the sessions was refunded concurrently
+        if (error.code !== 11000) throw error;
+        logger.warn(
+          `Skipping refund for payment ${paymentId}: sessions already being refunded`
+        );
+        continue;
+      }
+
+      await this.annotateInstallments(
+        refund,
+        (session) =>
+          `Đang hoàn ${session.refundAmount.toLocaleString('vi-VN')} VNĐ (${session.refundPercentage}%)`
+      );
+
+      // The tutor is not paid for refunded sessions
+      await tutorEarningService.reverseForRefundedSessions(
+        refund.learningClassId,
+        refundSessions.map((s) => s.sessionNumber),
+        `Refund ${refund._id} (${context.reason})`
+      );
+
+      logger.info(
+        `Refund created: ${refund._id}, payment: ${payment.orderId}, amount: ${amount}, method: ${refund.method}`
+      );
+
+      if (canUseVnpay) {
+        await this.refundViaVnpay(refund, payment);
+      } else {
+        await this.notifyStudent(refund);
+      }
+
+      refunds.push(refund);
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Send the refund to VNPay; on failure it falls back to the manual queue
+   */
+  private async refundViaVnpay(refund: IRefund, payment: any): Promise<void> {
+    const alreadyRefunded = payment.refundInfo?.amount || 0;
+
+    try {
+      const result = await vnpayService.refundTransaction({
+        orderId: payment.orderId,
+        amount: refund.amount,
+        isFullRefund:
+          alreadyRefunded === 0 && refund.amount === payment.amount,
+        transactionNo: payment.gatewayTransactionId,
+        transactionDate: vnpayService.getTransactionDate(payment),
+        createdBy: refund.requestedBy || 'system',
+        orderInfo: `Hoan tien ${refund.sessions.length} buoi hoc - ${payment.orderId}`,
+      });
+
+      refund.gatewayRequestId = result.requestId;
+      refund.gatewayResponseCode = result.responseCode;
+      refund.gatewayMessage = result.message;
+      refund.gatewayRawResponse = result.rawData;
+
+      if (result.isSuccess) {
+        refund.status = 'COMPLETED';
+        refund.gatewayTransactionNo = result.transactionNo;
+        refund.processedAt = new Date();
+        await refund.save();
+        await this.applyCompletedRefund(refund);
+      } else {
+        refund.method = 'BANK_TRANSFER';
+        refund.status = 'PENDING';
+        refund.failureReason = `VNPay: ${result.message}`;
+        await refund.save();
+      }
+    } catch (error: any) {
+      logger.error(`VNPay refund failed for refund ${refund._id}:`, error);
+      refund.method = 'BANK_TRANSFER';
+      refund.status = 'PENDING';
+      refund.failureReason = `VNPay: ${error.message}`;
+      await refund.save();
+    }
+
+    await this.notifyStudent(refund);
+  }
+
+  /**
+   * Write a note on the installments covered by a refund
+   */
+  private async annotateInstallments(
+    refund: IRefund,
+    buildNote: (session: IRefundSession) => string
+  ): Promise<void> {
+    const paymentSchedule = await PaymentSchedule.findById(
+      refund.paymentScheduleId
+    );
+    if (!paymentSchedule) return;
+
+    refund.sessions.forEach((session) => {
+      const installment = paymentSchedule.installments.find(
+        (inst) => inst.sessionNumber === session.sessionNumber
+      );
+      if (installment) {
+        installment.notes = buildNote(session);
+      }
+    });
+
+    await paymentSchedule.save();
+  }
+
+  /**
+   * Reflect a completed refund on Payment, PaymentSchedule and LearningClass.
+   * paidAmount and totalAmount both drop by the refunded amount, so the
+   * remaining amount owed for other sessions is unchanged.
+   */
+  private async applyCompletedRefund(
+    refund: IRefund,
+    processedBy?: string
+  ): Promise<void> {
+    const payment = await Payment.findById(refund.paymentId);
+    if (payment) {
+      const refundedTotal = (payment.refundInfo?.amount || 0) + refund.amount;
+      payment.refundInfo = {
+        reason: REFUND_REASON_LABELS[refund.reason],
+        amount: refundedTotal,
+        refundedBy: processedBy,
+        refundedAt: new Date(),
+      };
+      if (refundedTotal >= payment.amount) {
+        payment.status = 'REFUNDED';
+        payment.refundedAt = new Date();
+      }
+      await payment.save();
+    }
+
+    // The installments of a cancelled payment were never marked as paid by it
+    if (refund.reason === 'PAYMENT_CANCELLED') return;
+
+    const paymentSchedule = await PaymentSchedule.findById(
+      refund.paymentScheduleId
+    );
+    if (!paymentSchedule) return;
+
+    refund.sessions.forEach((session) => {
+      const installment = paymentSchedule.installments.find(
+        (inst) => inst.sessionNumber === session.sessionNumber
+      );
+      if (installment) {
+        installment.status = 'CANCELLED';
+        installment.notes = `Đã hoàn ${session.refundAmount.toLocaleString('vi-VN')}/${session.paidAmount.toLocaleString('vi-VN')} VNĐ`;
+      }
+    });
+
+    paymentSchedule.paidAmount = Math.max(
+      0,
+      paymentSchedule.paidAmount - refund.amount
+    );
+    paymentSchedule.totalAmount = Math.max(
+      0,
+      paymentSchedule.totalAmount - refund.amount
+    );
+    await paymentSchedule.save();
+
+    await LearningClass.updateOne(
+      { _id: refund.learningClassId },
+      { $set: { paidAmount: paymentSchedule.paidAmount } }
+    );
+  }
+
+  private async notifyStudent(refund: IRefund): Promise<void> {
+    try {
+      const learningClass = await LearningClass.findById(
+        refund.learningClassId
+      ).select('title');
+
+      await notifyRefundUpdated(
+        refund.studentId,
+        refund.status,
+        refund.amount,
+        learningClass?.title || '',
+        refund._id,
+        refund.learningClassId
+      );
+    } catch (error) {
+      logger.error('Error sending refund notification:', error);
+    }
+  }
+}
+
+export const refundService = new RefundService();
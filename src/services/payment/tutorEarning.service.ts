@@ -0,0 +1,553 @@
+import {
+  LearningClass,
+  PaymentSchedule,
+  TutorEarning,
+  PayoutBatch,
+  User,
+} from '../../models';
+import SessionReport from '../../models/SessionReport';
+import { IPayoutBatchTutor } from '../../models/PayoutBatch';
+import { getReportingWindowEnd } from '../sessionReport/reportingWindow';
+import { DEFAULT_TIMEZONE, getZonedParts } from '../../utils/timezone';
+import { logger } from '../../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Tutor Earning Service
+ * Books a ledger entry per completed + paid session, releases held funds
+ * once the reporting window closes and groups available funds into payouts
+ */
+
+const DEFAULT_COMMISSION_RATE = 10; // percent
+
+// Reports in these states keep the session's earning on hold
+const OPEN_REPORT_STATUSES = ['PENDING', 'UNDER_REVIEW'];
+
+/**
+ * Platform commission (percent) from PLATFORM_COMMISSION_RATE
+ */
+export const getPlatformCommissionRate = (): number => {
+  const rate = parseFloat(process.env.PLATFORM_COMMISSION_RATE || '');
+  return Number.isFinite(rate) && rate >= 0 && rate <= 100
+    ? rate
+    : DEFAULT_COMMISSION_RATE;
+};
+
+const toSettlementMonth = (date: Date): string => {
+  const { year, month } = getZonedParts(date, DEFAULT_TIMEZONE);
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+const sumBy = (entries: any[], field: string): number =>
+  entries.reduce((sum, entry) => sum + (entry[field] || 0), 0);
+
+export interface IEarningFilters {
+  page: number;
+  limit: number;
+  status?: string;
+  month?: string; // YYYY-MM
+}
+
+class TutorEarningService {
+  /**
+   * Book ledger entries for completed + paid sessions not booked yet
+   * @param tutorId - Restrict to one tutor (used before showing their earnings)
+   */
+  async bookCompletedSessions(tutorId?: string): Promise<number> {
+    const classes = await LearningClass.find({
+      ...(tutorId ? { tutorId } : {}),
+      sessions: {
+        $elemMatch: { status: 'COMPLETED', paymentStatus: 'PAID' },
+      },
+    }).select('tutorId studentId sessions');
+
+    const commissionRate = getPlatformCommissionRate();
+    let booked = 0;
+
+    for (const learningClass of classes) {
+      const bookedSessions = new Set<number>(
+        await TutorEarning.distinct('sessionNumber', {
+          learningClassId: learningClass._id,
+        })
+      );
+
+      const sessions = learningClass.sessions.filter(
+        (s) =>
+          s.status === 'COMPLETED' &&
+          s.paymentStatus === 'PAID' &&
+          !bookedSessions.has(s.sessionNumber)
+      );
+      if (sessions.length === 0) continue;
+
+      const paymentSchedule = await PaymentSchedule.findOne({
+        learningClassId: learningClass._id,
+      });
+      if (!paymentSchedule) continue;
+
+      for (const session of sessions) {
+        const installment = paymentSchedule.installments.find(
+          (inst) =>
+            inst.sessionNumber === session.sessionNumber &&
+            inst.status === 'PAID'
+        );
+        // Refunded (CANCELLED) or untracked installments are not owed
+        if (!installment || !installment.paymentId) continue;
+
+        const commissionAmount = Math.round(
+          (installment.amount * commissionRate) / 100
+        );
+
+        try {
+          await TutorEarning.create({
+            tutorId: learningClass.tutorId,
+            studentId: learningClass.studentId,
+            learningClassId: learningClass._id,
+            contractId: paymentSchedule.contractId,
+            paymentScheduleId: paymentSchedule._id,
+            paymentId: installment.paymentId,
+            sessionNumber: session.sessionNumber,
+            sessionDate: session.scheduledDate,
+            settlementMonth: toSettlementMonth(session.scheduledDate),
+            grossAmount: installment.amount,
+            commissionRate,
+            commissionAmount,
+            netAmount: installment.amount - commissionAmount,
+            status: 'HELD',
+            holdUntil: getReportingWindowEnd(session),
+          });
+          booked++;
+        } catch (error: any) {
+          // Duplicate key: booked concurrently by another run
+          if (error.code !== 11000) throw error;
+        }
+      }
+    }
+
+    if (booked > 0) {
+      logger.info(`Booked ${booked} tutor earning entries`);
+    }
+
+    return booked;
+  }
+
+  /**
+   * Release HELD entries whose reporting window has closed, unless a
+   * report on the session is still open
+   */
+  async releaseHeldEarnings(now: Date = new Date()): Promise<number> {
+    const dueEntries = await TutorEarning.find({
+      status: 'HELD',
+      holdUntil: { $lte: now },
+    });
+
+    let released = 0;
+
+    for (const entry of dueEntries) {
+      const openReport = await SessionReport.exists({
+        classId: entry.learningClassId,
+        sessionNumber: entry.sessionNumber,
+        status: { $in: OPEN_REPORT_STATUSES },
+      });
+      if (openReport) continue;
+
+      const result = await TutorEarning.updateOne(
+        { _id: entry._id, status: 'HELD' },
+        { $set: { status: 'AVAILABLE', releasedAt: now } }
+      );
+      released += result.modifiedCount;
+    }
+
+    if (released > 0) {
+      logger.info(`Released ${released} held tutor earning entries`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Book new entries and release due ones (cron)
+   */
+  async syncLedger(): Promise<{ booked: number; released: number }> {
+    const booked = await this.bookCompletedSessions();
+    const released = await this.releaseHeldEarnings();
+    return { booked, released };
+  }
+
+  /**
+   * Reverse entries of refunded sessions that have not been paid out yet
+   */
+  async reverseForRefundedSessions(
+    learningClassId: string,
+    sessionNumbers: number[],
+    reason: string
+  ): Promise<void> {
+    const result = await TutorEarning.updateMany(
+      {
+        learningClassId,
+        sessionNumber: { $in: sessionNumbers },
+        status: { $in: ['HELD', 'AVAILABLE'] },
+      },
+      {
+        $set: {
+          status: 'REVERSED',
+          reversedAt: new Date(),
+          reversalReason: reason,
+        },
+      }
+    );
+
+    const alreadyPaid = await TutorEarning.countDocuments({
+      learningClassId,
+      sessionNumber: { $in: sessionNumbers },
+      status: { $in: ['IN_PAYOUT', 'PAID_OUT'] },
+    });
+    if (alreadyPaid > 0) {
+      logger.warn(
+        `Refunded sessions of class ${learningClassId} were already paid out to the tutor (${alreadyPaid} entries) - manual clawback required`
+      );
+    }
+
+    if (result.modifiedCount > 0) {
+      logger.info(
+        `Reversed ${result.modifiedCount} tutor earning entries for class ${learningClassId}`
+      );
+    }
+  }
+
+  /**
+   * Put entries reversed by a refund back on hold when the refund is rejected
+   */
+  async restoreForRejectedRefund(
+    learningClassId: string,
+    sessionNumbers: number[],
+    refundLabel: string
+  ): Promise<void> {
+    await TutorEarning.updateMany(
+      {
+        learningClassId,
+        sessionNumber: { $in: sessionNumbers },
+        status: 'REVERSED',
+        reversalReason: { $regex: `^${refundLabel} ` },
+      },
+      {
+        $set: { status: 'HELD' },
+        $unset: { reversedAt: 1, reversalReason: 1, releasedAt: 1 },
+      }
+    );
+  }
+
+  /**
+   * Tutor's earnings overview and ledger entries
+   */
+  async getTutorEarnings(
+    tutorId: string,
+    filters: IEarningFilters
+  ): Promise<any> {
+    await this.bookCompletedSessions(tutorId);
+
+    const { page, limit, status, month } = filters;
+    const query: any = { tutorId };
+    if (status) query.status = status;
+    if (month) query.settlementMonth = month;
+
+    const [entries, total, totals] = await Promise.all([
+      TutorEarning.find(query)
+        .populate('learningClassId', 'title')
+        .populate('studentId', 'full_name')
+        .sort({ sessionDate: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      TutorEarning.countDocuments(query),
+      TutorEarning.aggregate([
+        { $match: { tutorId } },
+        {
+          $group: {
+            _id: '$status',
+            netAmount: { $sum: '$netAmount' },
+            count: { $sum: 1 },
+          },
+        },
+      ]),
+    ]);
+
+    const summary: Record<string, { netAmount: number; count: number }> = {
+      HELD: { netAmount: 0, count: 0 },
+      AVAILABLE: { netAmount: 0, count: 0 },
+      IN_PAYOUT: { netAmount: 0, count: 0 },
+      PAID_OUT: { netAmount: 0, count: 0 },
+      REVERSED: { netAmount: 0, count: 0 },
+    };
+    totals.forEach((t: any) => {
+      summary[t._id] = { netAmount: t.netAmount, count: t.count };
+    });
+
+    return {
+      summary,
+      commissionRate: getPlatformCommissionRate(),
+      entries,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Monthly settlement overview for a tutor (most recent month first)
+   */
+  async getSettlementStatements(tutorId: string): Promise<any[]> {
+    const months = await TutorEarning.aggregate([
+      { $match: { tutorId } },
+      {
+        $group: {
+          _id: '$settlementMonth',
+          sessionCount: {
+            $sum: { $cond: [{ $ne: ['$status', 'REVERSED'] }, 1, 0] },
+          },
+          grossAmount: {
+            $sum: {
+              $cond: [{ $ne: ['$status', 'REVERSED'] }, '$grossAmount', 0],
+            },
+          },
+          commissionAmount: {
+            $sum: {
+              $cond: [
+                { $ne: ['$status', 'REVERSED'] },
+                '$commissionAmount',
+                0,
+              ],
+            },
+          },
+          netAmount: {
+            $sum: {
+              $cond: [{ $ne: ['$status', 'REVERSED'] }, '$netAmount', 0],
+            },
+          },
+          paidOutAmount: {
+            $sum: {
+              $cond: [{ $eq: ['$status', 'PAID_OUT'] }, '$netAmount', 0],
+            },
+          },
+        },
+      },
+      { $sort: { _id: -1 } },
+    ]);
+
+    return months.map((m: any) => ({
+      month: m._id,
+      sessionCount: m.sessionCount,
+      grossAmount: m.grossAmount,
+      commissionAmount: m.commissionAmount,
+      netAmount: m.netAmount,
+      paidOutAmount: m.paidOutAmount,
+      outstandingAmount: m.netAmount - m.paidOutAmount,
+    }));
+  }
+
+  /**
+   * Detailed settlement statement of one month (YYYY-MM)
+   */
+  async getSettlementStatement(tutorId: string, month: string): Promise<any> {
+    const [tutor, entries] = await Promise.all([
+      User.findById(tutorId).select('full_name email'),
+      TutorEarning.find({ tutorId, settlementMonth: month })
+        .populate('learningClassId', 'title')
+        .populate('studentId', 'full_name')
+        .sort({ sessionDate: 1 })
+        .lean(),
+    ]);
+
+    const counted = entries.filter((e) => e.status !== 'REVERSED');
+    const reversed = entries.filter((e) => e.status === 'REVERSED');
+    const paidOut = entries.filter((e) => e.status === 'PAID_OUT');
+
+    return {
+      month,
+      tutor: tutor
+        ? { id: tutor._id, fullName: tutor.full_name, email: tutor.email }
+        : null,
+      totals: {
+        sessionCount: counted.length,
+        grossAmount: sumBy(counted, 'grossAmount'),
+        commissionAmount: sumBy(counted, 'commissionAmount'),
+        netAmount: sumBy(counted, 'netAmount'),
+        paidOutAmount: sumBy(paidOut, 'netAmount'),
+        heldAmount: sumBy(
+          counted.filter((e) => e.status === 'HELD'),
+          'netAmount'
+        ),
+        reversedCount: reversed.length,
+        reversedAmount: sumBy(reversed, 'netAmount'),
+      },
+      entries,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Group all AVAILABLE earnings released before the cutoff into a batch
+   */
+  async createPayoutBatch(
+    adminId: string,
+    cutoffDate: Date = new Date(),
+    note?: string
+  ): Promise<any> {
+    const available = await TutorEarning.find({
+      status: 'AVAILABLE',
+      releasedAt: { $lte: cutoffDate },
+    }).select('_id');
+
+    if (available.length === 0) {
+      throw new Error('Không có khoản thu nhập nào sẵn sàng để chi trả');
+    }
+
+    const { year, month, day } = getZonedParts(new Date(), DEFAULT_TIMEZONE);
+    const batchId = uuidv4();
+    const batchCode = `PO-${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}-${batchId.substring(0, 4).toUpperCase()}`;
+
+    // Claim entries atomically so two admins cannot pay the same entry
+    await TutorEarning.updateMany(
+      { _id: { $in: available.map((e) => e._id) }, status: 'AVAILABLE' },
+      { $set: { status: 'IN_PAYOUT', payoutBatchId: batchId } }
+    );
+
+    const entries = await TutorEarning.find({ payoutBatchId: batchId }).lean();
+    if (entries.length === 0) {
+      throw new Error('Không có khoản thu nhập nào sẵn sàng để chi trả');
+    }
+
+    const tutorIds = Array.from(new Set(entries.map((e) => e.tutorId)));
+    const tutors = await User.find({ _id: { $in: tutorIds } })
+      .select('full_name email')
+      .lean();
+
+    const tutorLines: IPayoutBatchTutor[] = tutorIds.map((tutorId) => {
+      const tutorEntries = entries.filter((e) => e.tutorId === tutorId);
+      const tutor: any = tutors.find((t: any) => t._id === tutorId);
+      return {
+        tutorId,
+        tutorName: tutor?.full_name || 'N/A',
+        tutorEmail: tutor?.email || 'N/A',
+        entryCount: tutorEntries.length,
+        grossAmount: sumBy(tutorEntries, 'grossAmount'),
+        commissionAmount: sumBy(tutorEntries, 'commissionAmount'),
+        netAmount: sumBy(tutorEntries, 'netAmount'),
+      };
+    });
+
+    const batch = await PayoutBatch.create({
+      _id: batchId,
+      batchCode,
+      status: 'EXPORTED',
+      cutoffDate,
+      tutors: tutorLines,
+      entryCount: entries.length,
+      totalNetAmount: sumBy(tutorLines, 'netAmount'),
+      totalCommissionAmount: sumBy(tutorLines, 'commissionAmount'),
+      createdBy: adminId,
+      note,
+    });
+
+    logger.info(
+      `Payout batch ${batchCode} created by admin ${adminId}: ${entries.length} entries, ${batch.totalNetAmount} VND`
+    );
+
+    return batch.toJSON();
+  }
+
+  /**
+   * Confirm a batch has been transferred to the tutors
+   */
+  async markPayoutBatchPaid(batchId: string, adminId: string): Promise<any> {
+    const batch = await PayoutBatch.findOneAndUpdate(
+      { _id: batchId, status: 'EXPORTED' },
+      { $set: { status: 'PAID', paidBy: adminId, paidAt: new Date() } },
+      { new: true }
+    );
+
+    if (!batch) {
+      throw new Error('Không tìm thấy đợt chi trả chưa thanh toán');
+    }
+
+    await TutorEarning.updateMany(
+      { payoutBatchId: batchId, status: 'IN_PAYOUT' },
+      { $set: { status: 'PAID_OUT', paidOutAt: batch.paidAt } }
+    );
+
+    logger.info(`Payout batch ${batch.batchCode} marked as paid by ${adminId}`);
+
+    return batch.toJSON();
+  }
+
+  async getPayoutBatches(page: number, limit: number): Promise<any> {
+    const [batches, total] = await Promise.all([
+      PayoutBatch.find()
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PayoutBatch.countDocuments(),
+    ]);
+
+    return {
+      batches: batches.map((b) => b.toJSON()),
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * CSV of a payout batch (one line per tutor) for the bank transfer
+   */
+  async exportPayoutBatchCsv(
+    batchId: string
+  ): Promise<{ filename: string; csv: string }> {
+    const batch = await PayoutBatch.findById(batchId);
+    if (!batch) {
+      throw new Error('Không tìm thấy đợt chi trả');
+    }
+
+    const escape = (value: any) => {
+      const str = String(value ?? '');
+      return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    const header = [
+      'batchCode',
+      'tutorId',
+      'tutorName',
+      'tutorEmail',
+      'sessions',
+      'grossAmount',
+      'commissionAmount',
+      'netAmount',
+    ];
+    const lines = batch.tutors.map((t) =>
+      [
+        batch.batchCode,
+        t.tutorId,
+        t.tutorName,
+        t.tutorEmail,
+        t.entryCount,
+        t.grossAmount,
+        t.commissionAmount,
+        t.netAmount,
+      ]
+        .map(escape)
+        .join(',')
+    );
+
+    return {
+      filename: `${batch.batchCode}.csv`,
+      csv: [header.join(','), ...lines].join('\n'),
+    };
+  }
+}
+
+export const tutorEarningService = new TutorEarningService();
@@ -1,6 +1,15 @@
 import { vnpayConfig } from '../../config/vnpay';
-import { ProductCode, VnpLocale, dateFormat, VerifyReturnUrl } from 'vnpay';
+import {
+  ProductCode,
+  VnpLocale,
+  dateFormat,
+  QueryDr,
+  RefundTransactionType,
+  VerifyIpnCall,
+  VerifyReturnUrl,
+} from 'vnpay';
 import { logger } from '../../utils/logger';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * VNPay Service
@@ -14,6 +23,7 @@ export interface ICreatePaymentUrlParams {
   ipAddress: string;
   returnUrl?: string;
   locale?: 'vn' | 'en';
+  createdAt?: Date; // Sent as vnp_CreateDate (default: now)
 }
 
 export interface IVNPayReturnQuery {
@@ -32,6 +42,40 @@ export interface IVNPayReturnQuery {
   [key: string]: any;
 }
 
+export interface IQueryTransactionResult {
+  isVerified: boolean;
+  found: boolean;
+  responseCode: string; // querydr vnp_ResponseCode
+  transactionStatus?: string; // vnp_TransactionStatus
+  isSuccess: boolean;
+  amount: number; // VND
+  transactionNo?: string;
+  bankCode?: string;
+  payDate?: string; // YYYYMMDDHHmmss
+  message: string;
+  rawData?: any;
+}
+
+export interface IRefundTransactionParams {
+  orderId: string; // Original vnp_TxnRef
+  amount: number; // VND
+  isFullRefund: boolean;
+  transactionNo?: string; // Original vnp_TransactionNo
+  transactionDate: string; // vnp_CreateDate of the original payment URL
+  createdBy: string; // Who requested the refund
+  orderInfo?: string;
+}
+
+export interface IRefundTransactionResult {
+  requestId: string;
+  isVerified: boolean;
+  isSuccess: boolean;
+  responseCode: string;
+  transactionNo?: string;
+  message: string;
+  rawData?: any;
+}
+
 export interface IPaymentVerificationResult {
   isValid: boolean;
   isSuccess: boolean;
@@ -59,20 +103,15 @@ class VNPayService {
         ipAddress,
         returnUrl,
         locale = 'vn',
+        createdAt = new Date(),
       } = params;
 
       // VNPay package automatically multiplies by 100 internally
       // So just pass the amount in VND directly
       const vnpAmount = amount;
 
-      // Get current time in Vietnam timezone (UTC+7)
-      const vnTime = new Date(
-        new Date().toLocaleString('en-US', { timeZone: 'Asia/Ho_Chi_Minh' })
-      );
-
-      // Set expiration time (30 minutes from now)
-      const expireDate = new Date(vnTime);
-      expireDate.setMinutes(expireDate.getMinutes() + 30);
+      // Set expiration time (30 minutes after creation)
+      const expireDate = new Date(createdAt.getTime() + 30 * 60 * 1000);
 
       // Build return URL: BASE_URL + /api/v1/payments/vnpay/return
       const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
@@ -87,8 +126,8 @@ class VNPayService {
         vnp_OrderType: ProductCode.Other,
         vnp_ReturnUrl: vnpReturnUrl,
         vnp_Locale: locale === 'vn' ? VnpLocale.VN : VnpLocale.EN,
-        vnp_CreateDate: dateFormat(vnTime),
-        vnp_ExpireDate: dateFormat(expireDate),
+        vnp_CreateDate: dateFormat(this.toVietnamTime(createdAt)),
+        vnp_ExpireDate: dateFormat(this.toVietnamTime(expireDate)),
       });
 
       logger.info(
@@ -192,28 +231,195 @@ class VNPayService {
   }
 
   /**
-   * Query transaction status from VNPay
+   * Verify a VNPay IPN call
+   * Unlike the return URL, the secure hash is ALWAYS checked because the
+   * IPN is the authoritative server-to-server confirmation
+   */
+  async verifyIpnCall(
+    query: IVNPayReturnQuery
+  ): Promise<IPaymentVerificationResult> {
+    try {
+      const verify: VerifyIpnCall = vnpayConfig.verifyIpnCall(query);
+
+      if (!verify.isVerified) {
+        logger.warn(
+          `VNPay IPN signature verification failed for order: ${query.vnp_TxnRef}`
+        );
+        return {
+          isValid: false,
+          isSuccess: false,
+          orderId: query.vnp_TxnRef,
+          amount: 0,
+          responseCode: query.vnp_ResponseCode,
+          message: 'Chữ ký không hợp lệ',
+          rawData: query,
+        };
+      }
+
+      // Signature is verified - reuse the return URL parser for the payload
+      return this.verifyReturnUrl(query, true);
+    } catch (error: any) {
+      logger.error('Error verifying VNPay IPN call:', error);
+      return {
+        isValid: false,
+        isSuccess: false,
+        orderId: query?.vnp_TxnRef || 'UNKNOWN',
+        amount: 0,
+        responseCode: '99',
+        message: 'Lỗi xác thực giao dịch',
+        rawData: query,
+      };
+    }
+  }
+
+  /**
+   * Query transaction status from VNPay (querydr API)
    * Useful for checking payment status when IPN is not received
+   * @param transactionDate - vnp_CreateDate of the payment URL (see getTransactionDate)
    */
-  async queryTransaction(orderId: string, transactionDate: Date): Promise<any> {
+  async queryTransaction(
+    orderId: string,
+    transactionDate: string
+  ): Promise<IQueryTransactionResult> {
     try {
-      // Note: VNPay's queryDr requires specific parameters
-      // This is a placeholder - implement based on VNPay API docs
       logger.info(`Querying VNPay transaction for order: ${orderId}`);
 
-      // TODO: Implement VNPay queryDr API call
-      // const result = await vnpayConfig.queryDr({
-      //   vnp_TxnRef: orderId,
-      //   vnp_TransactionDate: dateFormat(transactionDate),
-      // });
+      // vnp_TransactionNo is optional for querydr; we only know our TxnRef
+      const result = await vnpayConfig.queryDr({
+        vnp_RequestId: uuidv4().replace(/-/g, '').substring(0, 32),
+        vnp_TxnRef: orderId,
+        vnp_OrderInfo: `Truy van giao dich ${orderId}`,
+        vnp_TransactionDate: Number(transactionDate),
+        vnp_CreateDate: dateFormat(this.toVietnamTime(new Date())),
+        vnp_IpAddr: process.env.SERVER_IP || '127.0.0.1',
+      } as QueryDr);
+
+      if (!result.isVerified) {
+        logger.warn(
+          `VNPay querydr response signature invalid for order: ${orderId}`
+        );
+      }
+
+      const responseCode = String(result.vnp_ResponseCode ?? '');
+      const transactionStatus =
+        result.vnp_TransactionStatus !== undefined
+          ? String(result.vnp_TransactionStatus)
+          : undefined;
 
-      throw new Error('VNPay query transaction not yet implemented');
+      return {
+        isVerified: result.isVerified,
+        // '00' = query succeeded, '91' = transaction not found at VNPay
+        found: responseCode === '00',
+        responseCode,
+        transactionStatus,
+        isSuccess: responseCode === '00' && transactionStatus === '00',
+        // querydr returns the amount in smallest unit (VND * 100)
+        amount: result.vnp_Amount ? Number(result.vnp_Amount) / 100 : 0,
+        transactionNo: result.vnp_TransactionNo
+          ? String(result.vnp_TransactionNo)
+          : undefined,
+        bankCode: result.vnp_BankCode,
+        payDate: result.vnp_PayDate ? String(result.vnp_PayDate) : undefined,
+        message: result.vnp_Message || result.message,
+        rawData: result,
+      };
     } catch (error: any) {
       logger.error('Error querying VNPay transaction:', error);
       throw error;
     }
   }
 
+  /**
+   * Refund a completed VNPay transaction (full or partial)
+   */
+  async refundTransaction(
+    params: IRefundTransactionParams
+  ): Promise<IRefundTransactionResult> {
+    try {
+      const requestId = uuidv4().replace(/-/g, '').substring(0, 32);
+
+      logger.info(
+        `Requesting VNPay refund for order: ${params.orderId}, amount: ${params.amount}`
+      );
+
+      // VNPay package multiplies vnp_Amount by 100 internally
+      const result = await vnpayConfig.refund({
+        vnp_RequestId: requestId,
+        vnp_TxnRef: params.orderId,
+        vnp_Amount: params.amount,
+        vnp_TransactionType: params.isFullRefund
+          ? RefundTransactionType.FULL_REFUND
+          : RefundTransactionType.PARTIAL_REFUND,
+        vnp_TransactionNo: params.transactionNo
+          ? Number(params.transactionNo)
+          : undefined,
+        vnp_TransactionDate: Number(params.transactionDate),
+        vnp_CreateDate: dateFormat(this.toVietnamTime(new Date())),
+        vnp_CreateBy: params.createdBy,
+        vnp_IpAddr: process.env.SERVER_IP || '127.0.0.1',
+        vnp_OrderInfo: this.toAscii(
+          params.orderInfo || `Hoan tien ${params.orderId}`
+        ),
+      });
+
+      const responseCode = String(result.vnp_ResponseCode ?? '');
+
+      return {
+        requestId,
+        isVerified: result.isVerified,
+        isSuccess: result.isVerified && responseCode === '00',
+        responseCode,
+        transactionNo: result.vnp_TransactionNo
+          ? String(result.vnp_TransactionNo)
+          : undefined,
+        message: result.vnp_Message || result.message,
+        rawData: result,
+      };
+    } catch (error: any) {
+      logger.error('Error requesting VNPay refund:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * VNPay date (yyyyMMddHHmmss, GMT+7) of an instant
+   */
+  formatDate(date: Date): string {
+    return String(dateFormat(this.toVietnamTime(date)));
+  }
+
+  /**
+   * vnp_TransactionDate for querydr / refund: the exact vnp_CreateDate sent
+   * with the payment URL. Payments created before it was stored fall back
+   * to their createdAt, which may differ by a second.
+   */
+  getTransactionDate(payment: {
+    vnpCreateDate?: string;
+    createdAt: Date;
+  }): string {
+    return payment.vnpCreateDate || this.formatDate(payment.createdAt);
+  }
+
+  /**
+   * Strip Vietnamese accents (VNPay rejects non-ASCII order info)
+   */
+  private toAscii(str: string): string {
+    return str
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/g, 'd')
+      .replace(/Đ/g, 'D');
+  }
+
+  /**
+   * Convert an instant to the "local" Date used by dateFormat (GMT+7)
+   */
+  private toVietnamTime(date: Date): Date {
+    return new Date(
+      date.toLocaleString('en-US', { timeZone: 'Asia/Ho_Chi_Minh' })
+    );
+  }
+
   /**
    * Parse VNPay date format (YYYYMMDDHHmmss) to JavaScript Date
    */
@@ -1,6 +1,37 @@
-import { Payment, PaymentSchedule, LearningClass } from '../../models';
-import { vnpayService } from '../payment/vnpay.service';
+import {
+  IpnFailChecksum,
+  IpnInvalidAmount,
+  IpnOrderNotFound,
+  IpnResponse,
+  IpnSuccess,
+  IpnUnknownError,
+  InpOrderAlreadyConfirmed,
+} from 'vnpay';
+import {
+  Payment,
+  PaymentSchedule,
+  LearningClass,
+  VnpayIpnLog,
+  PaymentReconciliation,
+} from '../../models';
+import { IPayment } from '../../models/Payment';
+import { IVnpayIpnLog, VnpayIpnOutcome } from '../../models/VnpayIpnLog';
+import {
+  IReconciliationDailyTotals,
+  IReconciliationItem,
+} from '../../models/PaymentReconciliation';
+import {
+  IQueryTransactionResult,
+  vnpayService,
+} from '../payment/vnpay.service';
+import { refundService } from '../payment/refund.service';
+import { notifyPaymentOverdue } from '../notification/notification.helpers';
 import { logger } from '../../utils/logger';
+import {
+  DEFAULT_TIMEZONE,
+  getZonedParts,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -13,6 +44,7 @@ export interface IInitiatePaymentParams {
   studentId: string;
   paymentType: 'SINGLE_WEEK' | 'MULTI_WEEK' | 'FULL_REMAINING';
   sessionNumbers: number[]; // Which sessions to pay for
+  paidBy?: string; // Linked parent paying for the student (defaults to student)
   ipAddress: string;
   userAgent?: string;
 }
@@ -21,6 +53,31 @@ export interface IPaymentCallbackParams {
   query: any; // VNPay return query
 }
 
+export interface IReconciliationRunResult {
+  checked: number;
+  completed: number;
+  failed: number;
+  expired: number;
+  skipped: number;
+  errors: number;
+  items: IReconciliationItem[];
+}
+
+// Must match the vnp_ExpireDate window set in vnpayService.createPaymentUrl
+const VNPAY_PAYMENT_WINDOW_MINUTES = 30;
+// Expire without VNPay confirmation once querydr has failed for this long
+const STALE_PENDING_PAYMENT_HOURS = 24;
+// Cap on items kept per daily reconciliation document
+const MAX_RECONCILIATION_ITEMS = 1000;
+
+/**
+ * Day key (YYYY-MM-DD, Vietnam time) of a reconciliation summary
+ */
+const toReconciliationDate = (date: Date): string => {
+  const { year, month, day } = getZonedParts(date, DEFAULT_TIMEZONE);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
 class PaymentScheduleService {
   /**
    * Initiate payment for selected sessions
@@ -36,6 +93,7 @@ class PaymentScheduleService {
         studentId,
         paymentType,
         sessionNumbers,
+        paidBy,
         ipAddress,
         userAgent,
       } = params;
@@ -67,6 +125,11 @@ class PaymentScheduleService {
         throw new Error('Vui lòng chọn ít nhất một buổi học để thanh toán');
       }
 
+      // Refresh overdue status and late fees before pricing
+      if ((paymentSchedule as any).checkOverduePayments()) {
+        await paymentSchedule.save();
+      }
+
       // Get installments for selected sessions
       const selectedInstallments = paymentSchedule.installments.filter((inst) =>
         sessionNumbers.includes(inst.sessionNumber)
@@ -87,15 +150,21 @@ class PaymentScheduleService {
         );
       }
 
-      // Calculate total amount
-      const totalAmount = unpaidInstallments.reduce(
-        (sum, inst) => sum + inst.amount,
+      // Calculate total amount (late fees of OVERDUE installments included)
+      const lateFeeAmount = unpaidInstallments.reduce(
+        (sum, inst) => sum + (inst.lateFee || 0),
         0
       );
+      const totalAmount =
+        unpaidInstallments.reduce((sum, inst) => sum + inst.amount, 0) +
+        lateFeeAmount;
 
       // Generate unique order ID
       const orderId = `ORDER_${uuidv4().replace(/-/g, '').substring(0, 20).toUpperCase()}`;
 
+      // Same instant is sent as vnp_CreateDate, querydr/refund need it back
+      const vnpCreatedAt = new Date();
+
       // Set expiration time (5 minutes from now)
       const expireDate = new Date();
       expireDate.setMinutes(expireDate.getMinutes() + 5);
@@ -107,12 +176,15 @@ class PaymentScheduleService {
         learningClassId,
         studentId,
         tutorId: learningClass.tutorId,
+        paidBy: paidBy || studentId,
         orderId,
         amount: totalAmount,
+        lateFeeAmount,
         paymentType,
         sessionNumbers,
         paymentMethod: 'VNPAY',
         paymentGateway: 'VNPAY',
+        vnpCreateDate: vnpayService.formatDate(vnpCreatedAt),
         status: 'PENDING',
         description: `Thanh toán ${sessionNumbers.length} buổi học - ${learningClass.title}`,
         ipAddress,
@@ -136,10 +208,11 @@ class PaymentScheduleService {
         amount: totalAmount,
         orderInfo: `Thanh toan hoc phi - ${classTitle} - ${sessionNumbers.length} buoi`,
         ipAddress,
+        createdAt: vnpCreatedAt,
       });
 
       logger.info(
-        `Payment initiated: ${orderId}, amount: ${totalAmount}, sessions: ${sessionNumbers.join(', ')}`
+        `Payment initiated: ${orderId}, amount: ${totalAmount} (late fees: ${lateFeeAmount}), sessions: ${sessionNumbers.join(', ')}`
       );
 
       return {
@@ -228,75 +301,120 @@ class PaymentScheduleService {
           `Amount mismatch for order: ${verificationResult.orderId}, expected: ${payment.amount}, received: ${verificationResult.amount}`
         );
 
-        payment.status = 'FAILED';
-        payment.gatewayResponseCode = verificationResult.responseCode;
-        payment.gatewayRawResponse = verificationResult.rawData;
-        await payment.save();
-
-        // Reset installments to UNPAID when amount mismatch
-        await this.resetInstallmentStatus(
-          payment.paymentScheduleId,
-          payment.sessionNumbers
+        // Only a PENDING payment is failed (and releases its installments)
+        const failedPayment = await Payment.findOneAndUpdate(
+          { _id: payment._id, status: 'PENDING' },
+          {
+            $set: {
+              status: 'FAILED',
+              gatewayResponseCode: verificationResult.responseCode,
+              gatewayRawResponse: verificationResult.rawData,
+            },
+          },
+          { new: true }
         );
 
+        if (failedPayment) {
+          await this.resetInstallmentStatus(
+            failedPayment.paymentScheduleId,
+            failedPayment.sessionNumbers
+          );
+        }
+
+        const current = failedPayment || (await Payment.findById(payment._id));
         return {
           success: false,
           message: 'Số tiền không khớp',
-          payment: payment.toJSON(),
+          payment: current?.toJSON(),
         };
       }
 
       // Update payment based on result
+      // Status transitions are conditional updates so that the return URL and
+      // (possibly duplicated) IPN deliveries racing each other apply only once
       if (verificationResult.isSuccess) {
         // Payment successful
-        payment.status = 'COMPLETED';
-        payment.paidAt = verificationResult.payDate || new Date();
-        payment.gatewayTransactionId = verificationResult.transactionNo;
-        payment.gatewayResponseCode = verificationResult.responseCode;
-        payment.gatewayBankCode = verificationResult.bankCode;
-        payment.gatewayCardType = verificationResult.cardType;
-        payment.gatewayRawResponse = verificationResult.rawData;
+        const gatewayData = {
+          paidAt: verificationResult.payDate || new Date(),
+          gatewayTransactionId: verificationResult.transactionNo,
+          gatewayResponseCode: verificationResult.responseCode,
+          gatewayBankCode: verificationResult.bankCode,
+          gatewayCardType: verificationResult.cardType,
+          gatewayRawResponse: verificationResult.rawData,
+        };
+        const completedPayment = await Payment.findOneAndUpdate(
+          { _id: payment._id, status: 'PENDING' },
+          { $set: { status: 'COMPLETED', ...gatewayData } },
+          { new: true }
+        );
 
-        await payment.save();
+        if (!completedPayment) {
+          // FAILED / EXPIRED / CANCELLED by now: the installments were released
+          return this.processLateSuccessfulPayment(payment._id, gatewayData);
+        }
 
         // CRITICAL: Update payment schedule and session status
         // This will change installments from PENDING/UNPAID to PAID
         await this.updateSessionPaymentStatus(
-          payment.paymentScheduleId,
-          payment.sessionNumbers,
-          payment._id
+          completedPayment.paymentScheduleId,
+          completedPayment.sessionNumbers,
+          completedPayment._id
         );
 
         logger.info(
-          `Payment completed successfully: ${payment.orderId}, amount: ${payment.amount}, sessions: ${payment.sessionNumbers.join(',')}`
+          `Payment completed successfully: ${completedPayment.orderId}, amount: ${completedPayment.amount}, sessions: ${completedPayment.sessionNumbers.join(',')}`
         );
 
         return {
           success: true,
           message: 'Thanh toán thành công',
-          payment: payment.toJSON(),
+          payment: completedPayment.toJSON(),
         };
       } else {
-        // Payment failed
-        payment.status = 'FAILED';
-        payment.gatewayResponseCode = verificationResult.responseCode;
-        payment.gatewayRawResponse = verificationResult.rawData;
-        await payment.save();
+        // Payment failed - only a PENDING payment still holds its installments
+        const failedPayment = await Payment.findOneAndUpdate(
+          { _id: payment._id, status: 'PENDING' },
+          {
+            $set: {
+              status: 'FAILED',
+              gatewayResponseCode: verificationResult.responseCode,
+              gatewayRawResponse: verificationResult.rawData,
+            },
+          },
+          { new: true }
+        );
+
+        if (!failedPayment) {
+          // Already COMPLETED/EXPIRED/CANCELLED: a stale failure must not
+          // touch installments that may now belong to another payment
+          const current = await Payment.findById(payment._id);
+          logger.info(
+            `Ignoring failed callback for ${current?.status} payment: ${payment.orderId}`
+          );
+          return {
+            success: current?.status === 'COMPLETED',
+            message:
+              current?.status === 'COMPLETED'
+                ? 'Giao dịch đã được xử lý'
+                : verificationResult.message,
+            payment: current?.toJSON(),
+          };
+        }
 
         // Reset installments to UNPAID
         await this.resetInstallmentStatus(
-          payment.paymentScheduleId,
-          payment.sessionNumbers
+          failedPayment.paymentScheduleId,
+          failedPayment.sessionNumbers
         );
 
         logger.info(
-          `Payment failed: ${payment.orderId}, reason: ${verificationResult.message}`
+          `Payment failed: ${failedPayment.orderId}, reason: ${verificationResult.message}`
         );
 
         return {
           success: false,
           message: verificationResult.message,
-          payment: payment.toJSON(),
+          payment: failedPayment.toJSON(),
         };
       }
     } catch (error: any) {
@@ -305,6 +423,227 @@ class PaymentScheduleService {
     }
   }
 
+  /**
+   * Money captured for a payment that is no longer PENDING (FAILED, EXPIRED
+   * or CANCELLED). It is completed only if none of its installments has been
+   * paid or taken by another payment since; otherwise it is refunded.
+   */
+  private async processLateSuccessfulPayment(
+    paymentId: string,
+    gatewayData: Record<string, unknown>
+  ): Promise<{ success: boolean; message: string; payment?: any }> {
+    // Only the first delivery records the gateway data and goes on
+    const capturedPayment = await Payment.findOneAndUpdate(
+      {
+        _id: paymentId,
+        status: { $in: ['FAILED', 'EXPIRED', 'CANCELLED'] },
+        gatewayTransactionId: { $exists: false },
+      },
+      { $set: gatewayData },
+      { new: true }
+    );
+
+    if (!capturedPayment) {
+      const current = await Payment.findById(paymentId);
+      const processed =
+        current?.status === 'COMPLETED' || current?.status === 'REFUNDED';
+      logger.info(
+        `Ignoring duplicate successful callback for ${current?.status} payment: ${current?.orderId}`
+      );
+      return {
+        success: processed,
+        message: processed
+          ? 'Giao dịch đã được xử lý'
+          : 'Giao dịch không còn hiệu lực, số tiền sẽ được hoàn lại',
+        payment: current?.toJSON(),
+      };
+    }
+
+    if (
+      capturedPayment.status !== 'CANCELLED' &&
+      (await this.claimInstallmentsForPayment(capturedPayment))
+    ) {
+      const completedPayment = await Payment.findOneAndUpdate(
+        { _id: paymentId, status: capturedPayment.status },
+        { $set: { status: 'COMPLETED' } },
+        { new: true }
+      );
+
+      if (completedPayment) {
+        logger.warn(
+          `Late successful callback completed ${capturedPayment.status} payment: ${completedPayment.orderId}`
+        );
+        await this.updateSessionPaymentStatus(
+          completedPayment.paymentScheduleId,
+          completedPayment.sessionNumbers,
+          completedPayment._id
+        );
+        return {
+          success: true,
+          message: 'Thanh toán thành công',
+          payment: completedPayment.toJSON(),
+        };
+      }
+
+      await this.resetInstallmentStatus(
+        capturedPayment.paymentScheduleId,
+        capturedPayment.sessionNumbers
+      );
+    }
+
+    logger.warn(
+      `Successful callback for ${capturedPayment.status} payment: ${capturedPayment.orderId}, queueing refund`
+    );
+    await refundService.processCancelledPaymentCapture(capturedPayment);
+
+    return {
+      success: false,
+      message: 'Giao dịch không còn hiệu lực, số tiền sẽ được hoàn lại',
+      payment: capturedPayment.toJSON(),
+    };
+  }
+
+  /**
+   * Atomically hold a payment's installments (PENDING), only while every one
+   * of them is still UNPAID/OVERDUE and not owned by another payment
+   */
+  private async claimInstallmentsForPayment(
+    payment: IPayment
+  ): Promise<boolean> {
+    const result = await PaymentSchedule.updateOne(
+      {
+        _id: payment.paymentScheduleId,
+        installments: {
+          $not: {
+            $elemMatch: {
+              sessionNumber: { $in: payment.sessionNumbers },
+              $or: [
+                { status: { $nin: ['UNPAID', 'OVERDUE'] } },
+                { paymentId: { $nin: [null, payment._id] } },
+              ],
+            },
+          },
+        },
+      },
+      {
+        $set: {
+          'installments.$[inst].status': 'PENDING',
+          'installments.$[inst].paymentId': payment._id,
+        },
+      },
+      {
+        arrayFilters: [
+          { 'inst.sessionNumber': { $in: payment.sessionNumbers } },
+        ],
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Handle VNPay IPN (server-to-server) call
+   * Always answers with VNPay's RspCode JSON and records the delivery.
+   * Safe to call repeatedly: VNPay retries until it receives 00/02.
+   */
+  async handleVnpayIpn(
+    query: any,
+    ipAddress?: string
+  ): Promise<IpnResponse> {
+    const log: Partial<IVnpayIpnLog> = {
+      orderId: query?.vnp_TxnRef,
+      transactionNo: query?.vnp_TransactionNo,
+      responseCode: query?.vnp_ResponseCode,
+      transactionStatus: query?.vnp_TransactionStatus,
+      signatureValid: false,
+      ipAddress,
+      rawQuery: query,
+      receivedAt: new Date(),
+    };
+
+    const respond = async (
+      response: IpnResponse,
+      outcome: VnpayIpnOutcome
+    ): Promise<IpnResponse> => {
+      await this.recordIpnDelivery({
+        ...log,
+        rspCode: response.RspCode,
+        rspMessage: response.Message,
+        outcome,
+      });
+      return response;
+    };
+
+    try {
+      // 1. Secure hash (always checked for IPN)
+      const verificationResult = await vnpayService.verifyIpnCall(query);
+      if (!verificationResult.isValid) {
+        return respond(IpnFailChecksum, 'INVALID_CHECKSUM');
+      }
+      log.signatureValid = true;
+      log.amount = verificationResult.amount;
+
+      // 2. Order exists
+      const payment = await Payment.findOne({
+        orderId: verificationResult.orderId,
+      });
+      if (!payment) {
+        logger.warn(`VNPay IPN for unknown order: ${verificationResult.orderId}`);
+        return respond(IpnOrderNotFound, 'ORDER_NOT_FOUND');
+      }
+      log.paymentId = payment._id;
+      log.paymentStatusBefore = payment.status;
+
+      // 3. Amount matches
+      if (verificationResult.amount !== payment.amount) {
+        const result = await this.processPaymentCallback({ query }, true);
+        log.paymentStatusAfter = result.payment?.status || payment.status;
+        return respond(IpnInvalidAmount, 'INVALID_AMOUNT');
+      }
+
+      // 4. Already confirmed (duplicate or out-of-order delivery)
+      const alreadyConfirmed =
+        payment.status === 'COMPLETED' ||
+        (payment.status === 'FAILED' && !verificationResult.isSuccess);
+      if (alreadyConfirmed) {
+        log.paymentStatusAfter = payment.status;
+        return respond(InpOrderAlreadyConfirmed, 'DUPLICATE');
+      }
+
+      // 5. Apply the result (signature already verified above)
+      const result = await this.processPaymentCallback({ query }, true);
+      log.paymentStatusAfter = result.payment?.status;
+
+      if (
+        result.payment?.status === 'COMPLETED' &&
+        !verificationResult.isSuccess
+      ) {
+        // A concurrent delivery completed the payment first
+        return respond(InpOrderAlreadyConfirmed, 'DUPLICATE');
+      }
+
+      logger.info(
+        `VNPay IPN processed for order: ${payment.orderId}, status: ${log.paymentStatusBefore} -> ${log.paymentStatusAfter}`
+      );
+
+      return respond(IpnSuccess, 'PROCESSED');
+    } catch (error: any) {
+      logger.error('Error handling VNPay IPN:', error);
+      log.errorMessage = error.message;
+      return respond(IpnUnknownError, 'ERROR');
+    }
+  }
+
+  /**
+   * Persist an IPN delivery for auditing (never throws)
+   */
+  private async recordIpnDelivery(entry: Partial<IVnpayIpnLog>): Promise<void> {
+    try {
+      await VnpayIpnLog.create(entry);
+    } catch (error: any) {
+      logger.error('Error recording VNPay IPN delivery:', error);
+    }
+  }
+
   /**
    * Update session payment status after successful payment
    */
@@ -353,10 +692,17 @@ class PaymentScheduleService {
         (inst) => inst.status === 'PAID' || inst.status === 'CANCELLED'
       );
 
+      const stillOverdue = paymentSchedule.installments.some(
+        (inst) => inst.status === 'OVERDUE'
+      );
+
       if (allPaid) {
         paymentSchedule.status = 'COMPLETED';
         paymentSchedule.completedAt = new Date();
-      } else if (paymentSchedule.status === 'PENDING') {
+      } else if (
+        paymentSchedule.status === 'PENDING' ||
+        (paymentSchedule.status === 'OVERDUE' && !stillOverdue)
+      ) {
         paymentSchedule.status = 'ACTIVE';
       }
 
@@ -376,9 +722,12 @@ class PaymentScheduleService {
           }
         });
 
-        // Update class payment status
-        const totalSessions = learningClass.sessions.length;
-        const paidSessions = learningClass.sessions.filter(
+        // Update class payment status (cancelled sessions are replaced by make-ups)
+        const billableSessions = learningClass.sessions.filter(
+          (s) => s.status !== 'CANCELLED'
+        );
+        const totalSessions = billableSessions.length;
+        const paidSessions = billableSessions.filter(
           (s) => s.paymentStatus === 'PAID'
         ).length;
 
@@ -446,7 +795,7 @@ class PaymentScheduleService {
   }
 
   /**
-   * Reset installment status to UNPAID when payment fails
+   * Reset installment status to UNPAID (or back to OVERDUE) when payment fails
    */
   private async resetInstallmentStatus(
     paymentScheduleId: string,
@@ -463,7 +812,8 @@ class PaymentScheduleService {
           (inst) => inst.sessionNumber === sessionNumber
         );
         if (installment && installment.status === 'PENDING') {
-          installment.status = 'UNPAID';
+          installment.status = installment.overdueAt ? 'OVERDUE' : 'UNPAID';
+          installment.paymentId = undefined;
         }
       });
 
@@ -477,6 +827,479 @@ class PaymentScheduleService {
     }
   }
 
+  /**
+   * Mark installments past due date + grace period as OVERDUE and apply
+   * late fees from paymentTerms (daily job). Notifies the student when an
+   * installment goes overdue or its late fee grows, the tutor only when it
+   * goes overdue. What was already notified is tracked per installment
+   * (overdueNotifiedAt / lateFeeNotified), not by what this run changed.
+   */
+  async applyOverdueLateFees(): Promise<{
+    schedules: number;
+    newlyOverdue: number;
+    feesUpdated: number;
+  }> {
+    const result = { schedules: 0, newlyOverdue: 0, feesUpdated: 0 };
+
+    const schedules = await PaymentSchedule.find({
+      status: { $in: ['PENDING', 'ACTIVE', 'OVERDUE'] },
+      learningClassId: { $ne: null },
+      installments: {
+        $elemMatch: {
+          status: { $in: ['UNPAID', 'OVERDUE'] },
+          dueDate: { $lt: new Date() },
+        },
+      },
+    });
+
+    for (const schedule of schedules) {
+      try {
+        const changed = (schedule as any).checkOverduePayments();
+
+        const overdue = schedule.installments.filter(
+          (inst) => inst.status === 'OVERDUE'
+        );
+        const newlyOverdue = overdue.filter((inst) => !inst.overdueNotifiedAt);
+        const feeIncreased = overdue.filter(
+          (inst) => (inst.lateFee || 0) > (inst.lateFeeNotified || 0)
+        );
+
+        if (newlyOverdue.length === 0 && feeIncreased.length === 0) {
+          if (changed) {
+            await schedule.save();
+            result.schedules++;
+          }
+          continue;
+        }
+
+        result.newlyOverdue += newlyOverdue.length;
+        result.feesUpdated += feeIncreased.length;
+
+        const learningClass = await LearningClass.findById(
+          schedule.learningClassId
+        ).select('title');
+        const className = learningClass?.title || 'Lớp học';
+        const lateFee = overdue.reduce(
+          (sum, inst) => sum + (inst.lateFee || 0),
+          0
+        );
+        const amountDue =
+          overdue.reduce((sum, inst) => sum + inst.amount, 0) + lateFee;
+
+        await notifyPaymentOverdue(
+          schedule.studentId,
+          'STUDENT',
+          className,
+          overdue.map((inst) => inst.sessionNumber),
+          amountDue,
+          lateFee,
+          schedule.learningClassId
+        );
+
+        if (newlyOverdue.length > 0) {
+          await notifyPaymentOverdue(
+            schedule.tutorId,
+            'TUTOR',
+            className,
+            newlyOverdue.map((inst) => inst.sessionNumber),
+            amountDue,
+            lateFee,
+            schedule.learningClassId
+          );
+        }
+
+        const notifiedAt = new Date();
+        overdue.forEach((inst) => {
+          inst.overdueNotifiedAt = inst.overdueNotifiedAt || notifiedAt;
+          inst.lateFeeNotified = inst.lateFee || 0;
+        });
+        await schedule.save();
+        result.schedules++;
+      } catch (error: any) {
+        logger.error(
+          `Error applying late fees for payment schedule ${schedule._id}:`,
+          error
+        );
+      }
+    }
+
+    logger.info(
+      `Late fee run: ${result.schedules} schedules updated, ${result.newlyOverdue} installments overdue, ${result.feesUpdated} late fees updated`
+    );
+
+    return result;
+  }
+
+  /**
+   * Reconcile PENDING payments that outlived their expiredAt
+   * Asks VNPay (querydr) for the real status, then completes or expires each
+   * payment and records the outcome in the day's reconciliation summary
+   */
+  async reconcileStuckPayments(
+    limit: number = 50
+  ): Promise<IReconciliationRunResult> {
+    const now = new Date();
+    const result: IReconciliationRunResult = {
+      checked: 0,
+      completed: 0,
+      failed: 0,
+      expired: 0,
+      skipped: 0,
+      errors: 0,
+      items: [],
+    };
+
+    const stuckPayments = await Payment.find({
+      status: 'PENDING',
+      expiredAt: { $lt: now },
+    })
+      .sort({ expiredAt: 1 })
+      .limit(limit);
+
+    if (stuckPayments.length === 0) {
+      return result;
+    }
+
+    logger.info(
+      `Reconciling ${stuckPayments.length} stuck PENDING payments against VNPay`
+    );
+
+    for (const payment of stuckPayments) {
+      const item = await this.reconcilePayment(payment, now);
+      result.items.push(item);
+      result.checked++;
+
+      switch (item.action) {
+        case 'COMPLETED':
+          result.completed++;
+          break;
+        case 'FAILED':
+          result.failed++;
+          break;
+        case 'EXPIRED':
+          result.expired++;
+          break;
+        case 'SKIPPED':
+          result.skipped++;
+          break;
+        default:
+          result.errors++;
+      }
+    }
+
+    await this.recordReconciliationRun(result, now);
+
+    logger.info(
+      `Payment reconciliation done: checked=${result.checked}, completed=${result.completed}, expired=${result.expired}, failed=${result.failed}, skipped=${result.skipped}, errors=${result.errors}`
+    );
+
+    return result;
+  }
+
+  /**
+   * Reconcile a single stuck payment with VNPay
+   */
+  private async reconcilePayment(
+    payment: any,
+    now: Date
+  ): Promise<IReconciliationItem> {
+    const item: IReconciliationItem = {
+      paymentId: payment._id,
+      orderId: payment.orderId,
+      amount: payment.amount,
+      previousStatus: payment.status,
+      action: 'SKIPPED',
+      processedAt: new Date(),
+    };
+
+    // The VNPay payment URL stays usable longer than our own expiredAt
+    const gatewayDeadline = new Date(
+      payment.createdAt.getTime() + VNPAY_PAYMENT_WINDOW_MINUTES * 60 * 1000
+    );
+    const gatewayWindowOpen = now < gatewayDeadline;
+
+    // Give up on VNPay after a day so installments are not blocked forever
+    const staleLimit = new Date(
+      payment.createdAt.getTime() + STALE_PENDING_PAYMENT_HOURS * 60 * 60 * 1000
+    );
+
+    let query: IQueryTransactionResult;
+    try {
+      query = await vnpayService.queryTransaction(
+        payment.orderId,
+        vnpayService.getTransactionDate(payment)
+      );
+    } catch (error: any) {
+      if (now < staleLimit) {
+        item.action = 'ERROR';
+        item.note = error.message;
+        return item;
+      }
+
+      item.action = (await this.expireStuckPayment(payment, undefined))
+        ? 'EXPIRED'
+        : 'SKIPPED';
+      item.note = `Không truy vấn được VNPay: ${error.message}`;
+      return item;
+    }
+
+    item.vnpayResponseCode = query.responseCode;
+    item.vnpayTransactionStatus = query.transactionStatus;
+
+    if (!query.isVerified) {
+      item.action = 'ERROR';
+      item.note = 'Chữ ký phản hồi querydr không hợp lệ';
+      return item;
+    }
+
+    if (query.isSuccess) {
+      // Paid at VNPay but IPN/return never reached us - reuse callback flow
+      const callback = await this.processPaymentCallback(
+        {
+          query: {
+            vnp_TxnRef: payment.orderId,
+            vnp_Amount: String(Math.round(query.amount * 100)),
+            vnp_ResponseCode: '00',
+            vnp_TransactionStatus: query.transactionStatus,
+            vnp_TransactionNo: query.transactionNo,
+            vnp_BankCode: query.bankCode,
+            vnp_PayDate: query.payDate,
+            source: 'querydr',
+          },
+        },
+        true
+      );
+
+      item.action =
+        callback.payment?.status === 'COMPLETED' ? 'COMPLETED' : 'FAILED';
+      item.note = callback.message;
+      return item;
+    }
+
+    // Not found is not proof the customer did not pay (IPN may still come):
+    // keep the payment until the same give-up limit as a failed query
+    if (!query.found && now < staleLimit) {
+      item.action = 'SKIPPED';
+      item.note = `Không tìm thấy giao dịch tại VNPay: ${query.message}`;
+      return item;
+    }
+
+    // Still processing at VNPay: wait for the window to close
+    if (query.transactionStatus === '01' && gatewayWindowOpen) {
+      item.action = 'SKIPPED';
+      item.note = 'Giao dịch vẫn trong thời hạn thanh toán tại VNPay';
+      return item;
+    }
+
+    item.action = (await this.expireStuckPayment(
+      payment,
+      query.transactionStatus || query.responseCode
+    ))
+      ? 'EXPIRED'
+      : 'SKIPPED';
+    item.note = query.message;
+    return item;
+  }
+
+  /**
+   * Move a PENDING payment to EXPIRED and release its installments
+   * Returns false if the payment changed status in the meantime (e.g. IPN)
+   */
+  private async expireStuckPayment(
+    payment: any,
+    gatewayResponseCode?: string
+  ): Promise<boolean> {
+    const expiredPayment = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: 'PENDING' },
+      {
+        $set: {
+          status: 'EXPIRED',
+          ...(gatewayResponseCode ? { gatewayResponseCode } : {}),
+        },
+      },
+      { new: true }
+    );
+
+    if (!expiredPayment) {
+      return false;
+    }
+
+    await this.resetInstallmentStatus(
+      expiredPayment.paymentScheduleId.toString(),
+      expiredPayment.sessionNumbers
+    );
+
+    logger.info(
+      `Expired stuck payment: ${expiredPayment.orderId}, sessions: ${expiredPayment.sessionNumbers.join(',')}`
+    );
+
+    return true;
+  }
+
+  /**
+   * Accumulate a reconciliation run into the day's summary document
+   */
+  private async recordReconciliationRun(
+    result: IReconciliationRunResult,
+    runAt: Date
+  ): Promise<void> {
+    try {
+      const completedAmount = result.items
+        .filter((item) => item.action === 'COMPLETED')
+        .reduce((sum, item) => sum + item.amount, 0);
+      const expiredAmount = result.items
+        .filter((item) => item.action === 'EXPIRED')
+        .reduce((sum, item) => sum + item.amount, 0);
+
+      await PaymentReconciliation.findOneAndUpdate(
+        { date: toReconciliationDate(runAt) },
+        {
+          $inc: {
+            runs: 1,
+            checked: result.checked,
+            completed: result.completed,
+            failed: result.failed,
+            expired: result.expired,
+            skipped: result.skipped,
+            errorCount: result.errors,
+            completedAmount,
+            expiredAmount,
+          },
+          $set: { lastRunAt: runAt },
+          // SKIPPED items are retried every run - keep only actual changes
+          $push: {
+            items: {
+              $each: result.items.filter((item) => item.action !== 'SKIPPED'),
+              $slice: -MAX_RECONCILIATION_ITEMS,
+            },
+          },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+    } catch (error: any) {
+      logger.error('Error recording payment reconciliation run:', error);
+    }
+  }
+
+  /**
+   * Close the reconciliation summary of a day with payment/IPN totals
+   * @param day - Any instant within the day (Asia/Ho_Chi_Minh)
+   */
+  async finalizeDailyReconciliation(day: Date): Promise<any> {
+    const date = toReconciliationDate(day);
+    const [year, month, dayOfMonth] = date.split('-').map(Number);
+    const start = zonedTimeToUtc(
+      { year, month, day: dayOfMonth, hour: 0, minute: 0 },
+      DEFAULT_TIMEZONE
+    );
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    const range = { $gte: start, $lt: end };
+
+    const [statusBreakdown, stillPendingCount, ipnDeliveries, ipnRejected] =
+      await Promise.all([
+        Payment.aggregate([
+          { $match: { createdAt: range } },
+          {
+            $group: {
+              _id: '$status',
+              count: { $sum: 1 },
+              amount: { $sum: '$amount' },
+            },
+          },
+        ]),
+        Payment.countDocuments({
+          status: 'PENDING',
+          expiredAt: { $lt: end },
+        }),
+        VnpayIpnLog.countDocuments({ receivedAt: range }),
+        VnpayIpnLog.countDocuments({
+          receivedAt: range,
+          outcome: {
+            $in: ['INVALID_CHECKSUM', 'ORDER_NOT_FOUND', 'INVALID_AMOUNT'],
+          },
+        }),
+      ]);
+
+    const byStatus = (status: string) =>
+      statusBreakdown.find((entry: any) => entry._id === status) || {
+        count: 0,
+        amount: 0,
+      };
+
+    const dailyTotals: IReconciliationDailyTotals = {
+      paymentsCreated: statusBreakdown.reduce(
+        (sum: number, entry: any) => sum + entry.count,
+        0
+      ),
+      completedCount: byStatus('COMPLETED').count,
+      completedAmount: byStatus('COMPLETED').amount,
+      failedCount: byStatus('FAILED').count,
+      expiredCount: byStatus('EXPIRED').count,
+      cancelledCount: byStatus('CANCELLED').count,
+      refundedCount: byStatus('REFUNDED').count,
+      stillPendingCount,
+      ipnDeliveries,
+      ipnRejected,
+    };
+
+    const summary = await PaymentReconciliation.findOneAndUpdate(
+      { date },
+      { $set: { dailyTotals, closedAt: new Date() } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    logger.info(
+      `Daily payment reconciliation closed for ${date}: created=${dailyTotals.paymentsCreated}, completed=${dailyTotals.completedCount}, stillPending=${stillPendingCount}`
+    );
+
+    return summary.toJSON();
+  }
+
+  /**
+   * List daily reconciliation summaries (most recent first)
+   */
+  async getReconciliationSummaries(filters: {
+    page: number;
+    limit: number;
+    startDate?: string;
+    endDate?: string;
+  }): Promise<any> {
+    const { page, limit, startDate, endDate } = filters;
+    const query: any = {};
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = startDate;
+      if (endDate) query.date.$lte = endDate;
+    }
+
+    const [summaries, total] = await Promise.all([
+      PaymentReconciliation.find(query)
+        .select('-items')
+        .sort({ date: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PaymentReconciliation.countDocuments(query),
+    ]);
+
+    return {
+      summaries: summaries.map((summary) => summary.toJSON()),
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the reconciliation summary of a day, including processed items
+   */
+  async getReconciliationSummary(date: string): Promise<any> {
+    const summary = await PaymentReconciliation.findOne({ date });
+    return summary ? summary.toJSON() : null;
+  }
+
   /**
    * Get available sessions for payment
    */
@@ -500,12 +1323,16 @@ class PaymentScheduleService {
         throw new Error('Không tìm thấy lịch thanh toán');
       }
 
+      if ((paymentSchedule as any).checkOverduePayments()) {
+        await paymentSchedule.save();
+      }
+
       const unpaidInstallments = paymentSchedule.installments.filter(
         (inst) => inst.status === 'UNPAID' || inst.status === 'OVERDUE'
       );
 
       const totalUnpaidAmount = unpaidInstallments.reduce(
-        (sum, inst) => sum + inst.amount,
+        (sum, inst) => sum + inst.amount + (inst.lateFee || 0),
         0
       );
 
@@ -513,6 +1340,8 @@ class PaymentScheduleService {
         unpaidSessions: unpaidInstallments.map((inst) => ({
           sessionNumber: inst.sessionNumber,
           amount: inst.amount,
+          lateFee: inst.lateFee || 0,
+          totalDue: inst.amount + (inst.lateFee || 0),
           dueDate: inst.dueDate,
           status: inst.status,
         })),
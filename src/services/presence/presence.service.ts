@@ -0,0 +1,122 @@
+import { Server } from 'socket.io';
+import { User } from '../../models/User';
+import { Conversation } from '../../models/Conversation';
+import { logger } from '../../utils/logger';
+
+/**
+ * Presence Service
+ * Tracks which users have at least one connected socket (a user can be
+ * online from several tabs / devices), stores last_seen_at on the user and
+ * tells conversation partners when someone comes online or goes offline.
+ */
+
+export interface IPresenceStatus {
+  isOnline: boolean;
+  lastSeenAt: Date | null;
+}
+
+class PresenceService {
+  // userId -> connected socket IDs
+  private sockets = new Map<string, Set<string>>();
+
+  /**
+   * Register a socket, broadcast when it is the user's first one
+   */
+  async connect(io: Server, userId: string, socketId: string): Promise<void> {
+    const userSockets = this.sockets.get(userId) || new Set<string>();
+    const cameOnline = userSockets.size === 0;
+    userSockets.add(socketId);
+    this.sockets.set(userId, userSockets);
+
+    if (cameOnline) {
+      const lastSeenAt = await this.touchLastSeen(userId);
+      await this.broadcast(io, userId, { isOnline: true, lastSeenAt });
+    }
+  }
+
+  /**
+   * Unregister a socket, broadcast when it was the user's last one
+   */
+  async disconnect(io: Server, userId: string, socketId: string): Promise<void> {
+    const userSockets = this.sockets.get(userId);
+    if (!userSockets) return;
+
+    userSockets.delete(socketId);
+    if (userSockets.size > 0) return;
+
+    this.sockets.delete(userId);
+    const lastSeenAt = await this.touchLastSeen(userId);
+    await this.broadcast(io, userId, { isOnline: false, lastSeenAt });
+  }
+
+  isOnline(userId: string): boolean {
+    return (this.sockets.get(userId)?.size || 0) > 0;
+  }
+
+  /**
+   * Online status and last seen of several users (e.g. inbox partners)
+   */
+  async getPresence(
+    userIds: string[]
+  ): Promise<Record<string, IPresenceStatus>> {
+    const users = await User.find({ _id: { $in: userIds } })
+      .select('last_seen_at')
+      .lean();
+
+    const presence: Record<string, IPresenceStatus> = {};
+    users.forEach((user) => {
+      presence[user._id] = {
+        isOnline: this.isOnline(user._id),
+        lastSeenAt: user.last_seen_at || null,
+      };
+    });
+    return presence;
+  }
+
+  private async touchLastSeen(userId: string): Promise<Date> {
+    const now = new Date();
+    try {
+      await User.updateOne(
+        { _id: userId },
+        { $set: { last_seen_at: now } },
+        { timestamps: false }
+      );
+    } catch (error: any) {
+      logger.error(`Update last seen failed for ${userId}: ${error.message}`);
+    }
+    return now;
+  }
+
+  // Partners = the other party of every active conversation of the user
+  private async broadcast(
+    io: Server,
+    userId: string,
+    status: IPresenceStatus
+  ): Promise<void> {
+    try {
+      const conversations = await Conversation.find({
+        $or: [{ studentId: userId }, { tutorId: userId }],
+        status: 'ACTIVE',
+      })
+        .select('studentId tutorId')
+        .lean();
+
+      const partnerIds = new Set(
+        conversations.map((conversation) =>
+          conversation.studentId === userId
+            ? conversation.tutorId
+            : conversation.studentId
+        )
+      );
+      if (partnerIds.size === 0) return;
+
+      io.to(
+        Array.from(partnerIds).map((partnerId) => `notifications-${partnerId}`)
+      ).emit('presence-changed', { userId, ...status });
+    } catch (error: any) {
+      logger.error(`Presence broadcast failed for ${userId}: ${error.message}`);
+    }
+  }
+}
+
+export const presenceService = new PresenceService();
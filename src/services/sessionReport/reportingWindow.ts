@@ -0,0 +1,14 @@
+// Sessions can be reported until this many hours after they end
+export const REPORTING_WINDOW_HOURS = 48;
+
+/**
+ * End of the reporting window of a session (scheduled end + 48 hours)
+ */
+export const getReportingWindowEnd = (session: {
+  scheduledDate: Date;
+  duration: number;
+}): Date => {
+  const sessionEndTime =
+    new Date(session.scheduledDate).getTime() + session.duration * 60000;
+  return new Date(sessionEndTime + REPORTING_WINDOW_HOURS * 60 * 60 * 1000);
+};
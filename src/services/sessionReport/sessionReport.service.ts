@@ -9,6 +9,8 @@ import { LearningClass } from '../../models/LearningClass';
 import { User } from '../../models/User';
 import { logger } from '../../utils/logger';
 import { uploadToCloudinaryGeneric } from '../../config/cloudinary';
+import { refundService } from '../payment/refund.service';
+import { getReportingWindowEnd } from './reportingWindow';
 import { v4 as uuidv4 } from 'uuid';
 import {
   notifySessionReportCreated,
@@ -68,12 +70,7 @@ class SessionReportService {
     }
 
     const now = new Date();
-    const sessionEndTime = new Date(
-      new Date(session.scheduledDate).getTime() + session.duration * 60000
-    );
-    const fortyEightHoursAfter = new Date(
-      sessionEndTime.getTime() + 48 * 60 * 60 * 1000
-    );
+    const fortyEightHoursAfter = getReportingWindowEnd(session);
 
     // Can report during the session or within 48 hours after session ends
     const sessionStartTime = new Date(session.scheduledDate);
@@ -573,6 +570,22 @@ class SessionReportService {
         ),
       ]);
 
+      // Tutor at fault: the student gets the paid session back
+      if (resolutionData.decision === 'TUTOR_FAULT') {
+        try {
+          await refundService.processTutorFaultRefund(
+            report,
+            adminId,
+            resolutionData.message
+          );
+        } catch (refundError) {
+          logger.error('Failed to create tutor fault refund:', {
+            reportId,
+            error: refundError,
+          });
+        }
+      }
+
       logger.info('Report resolved:', {
         reportId,
         decision: resolutionData.decision,
@@ -1,5 +1,6 @@
 import SessionReport from '../../models/SessionReport';
 import { LearningClass } from '../../models';
+import { FlaggedMessage } from '../../models/FlaggedMessage';
 
 export class ViolationService {
   /**
@@ -7,13 +8,16 @@ export class ViolationService {
    */
   static async getUserViolationCount(userId: string): Promise<number> {
     try {
-      // Simply count reports where user is in violatorUserIds
-      const violations = await SessionReport.countDocuments({
-        status: 'RESOLVED',
-        violatorUserIds: userId,
-      });
+      // Count reports where user is in violatorUserIds and confirmed chat flags
+      const [reportViolations, chatViolations] = await Promise.all([
+        SessionReport.countDocuments({
+          status: 'RESOLVED',
+          violatorUserIds: userId,
+        }),
+        FlaggedMessage.countDocuments({ senderId: userId, status: 'CONFIRMED' }),
+      ]);
 
-      return violations;
+      return reportViolations + chatViolations;
     } catch (error) {
       console.error('Error getting user violation count:', error);
       return 0;
@@ -66,6 +70,15 @@ export class ViolationService {
         violationCounts[result._id] = result.count;
       });
 
+      // Add confirmed chat violations (moderation queue)
+      const chatResults = await FlaggedMessage.aggregate([
+        { $match: { status: 'CONFIRMED', senderId: { $in: userIds } } },
+        { $group: { _id: '$senderId', count: { $sum: 1 } } },
+      ]);
+      chatResults.forEach((result: any) => {
+        violationCounts[result._id] += result.count;
+      });
+
       return violationCounts;
     } catch (error) {
       console.error('Error getting bulk violation counts:', error);
@@ -107,10 +120,16 @@ export class ViolationService {
         }
       });
 
-      const totalViolations = reports.length;
+      const chatViolationCount = await FlaggedMessage.countDocuments({
+        senderId: userId,
+        status: 'CONFIRMED',
+      });
+
+      const totalViolations = reports.length + chatViolationCount;
 
       return {
         total_violations: totalViolations,
+        chat_violation_count: chatViolationCount,
         student_fault_count: studentFaultCount,
         tutor_fault_count: tutorFaultCount,
         both_fault_count: bothFaultCount,
@@ -150,14 +169,25 @@ export class ViolationService {
         }
       });
 
+      // Confirmed chat violations (sharing contact info, etc.)
+      const chatViolations = await FlaggedMessage.find({
+        senderId: userId,
+        status: 'CONFIRMED',
+      })
+        .select('-context')
+        .sort({ createdAt: -1 })
+        .lean();
+
       return {
         violations: violations.map((v: any) => ({
           ...v,
           is_user_at_fault: true, // All reports in this query are where user is at fault
         })),
+        chat_violations: chatViolations,
         summary: {
-          total: violations.length,
+          total: violations.length + chatViolations.length,
           by_decision: decisionCounts,
+          chat_violations: chatViolations.length,
         },
       };
     } catch (error) {
@@ -171,11 +201,14 @@ export class ViolationService {
    */
   static async getTotalViolationCount(): Promise<number> {
     try {
-      const count = await SessionReport.countDocuments({
-        status: 'RESOLVED',
-        violatorUserIds: { $exists: true, $ne: [] },
-      });
-      return count;
+      const [reportCount, chatCount] = await Promise.all([
+        SessionReport.countDocuments({
+          status: 'RESOLVED',
+          violatorUserIds: { $exists: true, $ne: [] },
+        }),
+        FlaggedMessage.countDocuments({ status: 'CONFIRMED' }),
+      ]);
+      return reportCount + chatCount;
     } catch (error) {
       console.error('Error getting total violation count:', error);
       return 0;
@@ -25,6 +25,24 @@ export interface TutorResponseInput {
   };
 }
 
+export interface SubmitOfferInput {
+  pricePerSession?: number;
+  totalSessions?: number;
+  sessionDuration?: number;
+  learningMode?: 'ONLINE' | 'OFFLINE';
+  schedule?: {
+    dayOfWeek: number[];
+    startTime: string;
+    endTime: string;
+  };
+  message?: string;
+}
+
+export interface RespondToOfferInput {
+  action: 'ACCEPT' | 'DECLINE';
+  message?: string;
+}
+
 export interface CreateLearningClassInput {
   contactRequestId: string;
   title: string;
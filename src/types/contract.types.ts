@@ -3,12 +3,13 @@ export interface CreateContractInput {
   title: string;
   description?: string;
   subject?: string; // Optional - will be taken from tutorPost if not provided
-  totalSessions: number;
+  totalSessions?: number; // Optional - will be taken from the accepted offer if not provided
   pricePerSession?: number; // Optional - will be taken from contact request if not provided
   totalAmount?: number; // Optional - will be calculated if not provided
   sessionDuration?: number; // Optional - will be taken from contact request if not provided
   learningMode?: 'ONLINE' | 'OFFLINE'; // Optional - will be determined from contact request
-  schedule: {
+  // Optional - will be taken from the accepted offer if not provided
+  schedule?: {
     dayOfWeek: number[];
     startTime: string;
     endTime: string;
@@ -29,6 +30,22 @@ export interface CreateContractInput {
   };
 }
 
+// Terms that can be changed by an amendment (omitted = unchanged)
+export interface AmendContractInput {
+  reason: string;
+  pricePerSession?: number;
+  totalSessions?: number;
+  sessionDuration?: number;
+  learningMode?: 'ONLINE' | 'OFFLINE';
+  schedule?: {
+    dayOfWeek: number[];
+    startTime: string;
+    endTime: string;
+  };
+  location?: CreateContractInput['location'];
+  onlineInfo?: CreateContractInput['onlineInfo'];
+}
+
 export interface StudentContractResponse {
   action: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES';
   message?: string;
@@ -42,7 +59,8 @@ export interface ContractFilters {
   | 'APPROVED'
   | 'REJECTED'
   | 'EXPIRED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'SUPERSEDED';
   studentId?: string;
   tutorId?: string;
   dateFrom?: string;
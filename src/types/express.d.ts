@@ -9,6 +9,8 @@ declare global {
         email: string;
         role: string;
         status: string;
+        sessionId?: string; // Refresh token family the access token belongs to
+        twoFactorEnabled?: boolean;
       };
       tutorProfile?: ITutorProfileDocument;
       file?: Multer.File;
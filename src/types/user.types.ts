@@ -5,6 +5,7 @@ export enum UserRole {
   STUDENT = 'STUDENT',
   TUTOR = 'TUTOR',
   ADMIN = 'ADMIN',
+  PARENT = 'PARENT', // Parent / guardian linked to student accounts
 }
 
 export enum UserStatus {
@@ -45,6 +46,10 @@ export interface IUser {
   structured_address?: IStructuredAddress;
   role: UserRole;
   status: UserStatus;
+  last_seen_at?: Date; // Last socket activity (presence)
+  locked_until?: Date | null; // Automatic lock after too many failed logins
+  two_factor_enabled?: boolean; // TOTP secret lives in TwoFactorAuth
+  has_password?: boolean; // false when created through Google sign-in
   created_at?: Date;
   updated_at?: Date;
 }
@@ -79,6 +84,7 @@ export interface IOTPRecord {
   otp_code: string;
   expires_at: Date;
   is_used: boolean;
+  failed_attempts?: number; // Wrong codes entered (OTPs that limit attempts)
   otp_type: OTPType;
   reference_id?: string; // For linking to related documents (e.g., contractId)
   metadata?: Record<string, any>; // Additional context data
@@ -89,6 +95,7 @@ export enum OTPType {
   REGISTRATION = 'registration',
   PASSWORD_RESET = 'password_reset',
   CONTRACT_SIGNING = 'contract_signing',
+  ACCOUNT_UNLOCK = 'account_unlock',
 }
 
 export interface ILoginInput {
@@ -100,11 +107,35 @@ export interface ITokenResponse {
   access_token: string;
   refresh_token: string;
   expires_in: number;
+  session_id?: string;
 }
 
 export interface ILoginResponse {
   user: IUserResponse;
   tokens: ITokenResponse;
+  two_factor_setup_required?: boolean; // Role requires 2FA but it is not enabled yet
+}
+
+// First login step passed, the TOTP / recovery code is still needed
+export interface ITwoFactorChallengeResponse {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface IGoogleLoginInput {
+  id_token: string; // Google ID token (OpenID Connect)
+  role?: UserRole; // Needed when the email has no account yet
+}
+
+export interface IGoogleLinkInput {
+  link_token: string; // From a Google sign-in that matched an existing email
+  password: string;
+}
+
+export interface ITwoFactorLoginInput {
+  challenge_token: string;
+  code: string; // 6 digit TOTP or a recovery code
 }
 
 export interface IForgotPasswordInput {
@@ -121,15 +152,49 @@ export interface IRefreshTokenInput {
   refresh_token: string;
 }
 
+export type RefreshTokenRevokeReason =
+  | 'ROTATED'
+  | 'LOGOUT'
+  | 'REUSE_DETECTED'
+  | 'PASSWORD_RESET'
+  | 'SESSION_REVOKED';
+
 export interface IRefreshToken {
   _id?: string;
   user_id: string;
-  token: string;
+  token: string; // SHA-256 hash, the raw token is only sent to the client
+  family_id: string; // Session: every token rotated from the same login
+  replaced_by?: string; // Token issued when this one was rotated
+  device_name?: string;
+  ip_address?: string;
+  user_agent?: string;
+  session_started_at: Date;
+  last_used_at: Date;
   expires_at: Date;
   is_revoked: boolean;
+  revoked_at?: Date;
+  revoked_reason?: RefreshTokenRevokeReason;
   created_at?: Date;
 }
 
+// Client device of a login / refresh
+export interface IDeviceInfo {
+  device_name?: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface ISessionResponse {
+  id: string;
+  device_name?: string;
+  ip_address?: string;
+  user_agent?: string;
+  started_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  is_current: boolean;
+}
+
 // Tutor Profile Types
 export interface ITutorProfile {
   _id?: string;
@@ -0,0 +1,54 @@
+import { Request } from 'express';
+import { IDeviceInfo } from '../types/user.types';
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/CocCoc/, 'Cốc Cốc'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/okhttp|Dart\//, 'Mobile app'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/**
+ * Readable device name from a User-Agent, e.g. "Chrome trên Windows"
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) {
+    return 'Thiết bị không xác định';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const system = match(userAgent, SYSTEMS);
+
+  if (browser && system) return `${browser} trên ${system}`;
+  return browser || system || 'Thiết bị không xác định';
+};
+
+/**
+ * Device info of the current request; the client may name the device itself
+ */
+export const getDeviceInfo = (req: Request, deviceName?: string): IDeviceInfo => {
+  const userAgent = req.get('user-agent')?.substring(0, 500);
+
+  return {
+    device_name:
+      deviceName?.trim().substring(0, 100) || describeUserAgent(userAgent),
+    ip_address: req.ip,
+    user_agent: userAgent,
+  };
+};
@@ -0,0 +1,82 @@
+import type {
+  ClientRateLimitInfo,
+  IncrementResponse,
+  Options,
+  Store,
+} from 'express-rate-limit';
+import { RateLimitHit } from '../models/RateLimitHit';
+
+/**
+ * MongoDB store for express-rate-limit
+ * Counters live in the rate_limit_hits collection so every API instance
+ * shares the same limits. Expired counters are removed by a TTL index.
+ */
+export class MongoRateLimitStore implements Store {
+  windowMs!: number;
+  prefix: string;
+  localKeys = false;
+
+  constructor(prefix: string) {
+    this.prefix = prefix;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  private key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const record = await RateLimitHit.findById(this.key(key)).lean();
+    if (!record || record.resetTime <= new Date()) {
+      return undefined;
+    }
+    return { totalHits: record.hits, resetTime: record.resetTime };
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const now = new Date();
+    const windowActive = { $gt: ['$resetTime', now] };
+
+    // Single atomic update: count within the window or start a new one
+    const record = await RateLimitHit.findOneAndUpdate(
+      { _id: this.key(key) },
+      [
+        {
+          $set: {
+            hits: { $cond: [windowActive, { $add: ['$hits', 1] }, 1] },
+            resetTime: {
+              $cond: [
+                windowActive,
+                '$resetTime',
+                new Date(now.getTime() + this.windowMs),
+              ],
+            },
+          },
+        },
+      ],
+      { upsert: true, new: true }
+    ).lean();
+
+    return { totalHits: record!.hits, resetTime: record!.resetTime };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await RateLimitHit.updateOne(
+      { _id: this.key(key), hits: { $gt: 0 } },
+      { $inc: { hits: -1 } }
+    );
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await RateLimitHit.deleteOne({ _id: this.key(key) });
+  }
+
+  async resetAll(): Promise<void> {
+    await RateLimitHit.deleteMany({
+      _id: { $regex: `^${this.prefix}` },
+    });
+  }
+}
@@ -0,0 +1,151 @@
+export const DEFAULT_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check whether a string is an IANA timezone name known to the runtime
+ */
+export const isValidTimezone = (timeZone?: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Return the timezone if valid, otherwise the platform default (Vietnam)
+ */
+export const resolveTimezone = (timeZone?: string): string =>
+  isValidTimezone(timeZone) ? timeZone! : DEFAULT_TIMEZONE;
+
+/**
+ * Wall-clock components of an instant as seen in the given timezone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: read('year'),
+    month: read('month'),
+    day: read('day'),
+    hour: read('hour'),
+    minute: read('minute'),
+    second: read('second'),
+  };
+};
+
+/**
+ * Offset (in minutes, east of UTC positive) of the timezone at an instant
+ */
+export const getTimezoneOffsetMinutes = (
+  date: Date,
+  timeZone: string
+): number => {
+  const zoned = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+};
+
+/**
+ * Convert a wall-clock time in a timezone to the matching UTC instant.
+ * The offset is re-evaluated at the candidate instant so dates on either
+ * side of a DST transition keep their local wall-clock time.
+ */
+export const zonedTimeToUtc = (
+  parts: Omit<ZonedDateParts, 'second'> & { second?: number },
+  timeZone: string
+): Date => {
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second || 0
+  );
+
+  const firstOffset = getTimezoneOffsetMinutes(
+    new Date(wallClockAsUtc),
+    timeZone
+  );
+  let candidate = wallClockAsUtc - firstOffset * 60000;
+
+  const secondOffset = getTimezoneOffsetMinutes(new Date(candidate), timeZone);
+  if (secondOffset !== firstOffset) {
+    candidate = wallClockAsUtc - secondOffset * 60000;
+  }
+
+  return new Date(candidate);
+};
+
+/**
+ * Local midnight of the calendar day a date stands for in the timezone.
+ * Date-only values ("2025-01-06" parses to UTC midnight) already name a
+ * calendar day; any other instant is read in the timezone.
+ */
+export const startOfLocalDay = (date: Date, timeZone: string): Date => {
+  const isDateOnly =
+    date.getUTCHours() === 0 &&
+    date.getUTCMinutes() === 0 &&
+    date.getUTCSeconds() === 0 &&
+    date.getUTCMilliseconds() === 0;
+  const { year, month, day } = isDateOnly
+    ? {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+      }
+    : getZonedParts(date, timeZone);
+
+  return zonedTimeToUtc({ year, month, day, hour: 0, minute: 0 }, timeZone);
+};
+
+/**
+ * Parse "HH:mm" into hour/minute numbers
+ */
+export const parseTimeOfDay = (
+  value: string
+): { hour: number; minute: number } => {
+  const [hour, minute] = (value || '00:00').split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0 };
+};
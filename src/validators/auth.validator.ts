@@ -1,4 +1,4 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, ValidationChain } from 'express-validator';
 
 export const registerValidator: ValidationChain[] = [
   body('full_name')
@@ -56,6 +56,12 @@ export const loginValidator: ValidationChain[] = [
     .withMessage('Email không hợp lệ'),
 
   body('password').notEmpty().withMessage('Mật khẩu không được để trống'),
+
+  body('device_name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Tên thiết bị không được quá 100 ký tự'),
 ];
 
 export const forgotPasswordValidator: ValidationChain[] = [
@@ -101,6 +107,10 @@ export const logoutValidator: ValidationChain[] = [
     .withMessage('Refresh token không được để trống'),
 ];
 
+export const sessionIdValidator: ValidationChain[] = [
+  param('sessionId').isUUID(4).withMessage('Phiên đăng nhập không hợp lệ'),
+];
+
 export const resendOTPValidator: ValidationChain[] = [
   body('email')
     .trim()
@@ -108,3 +118,51 @@ export const resendOTPValidator: ValidationChain[] = [
     .isEmail()
     .withMessage('Email không hợp lệ'),
 ];
+
+export const twoFactorCodeValidator: ValidationChain[] = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Mã xác thực không được để trống')
+    .isLength({ max: 20 })
+    .withMessage('Mã xác thực không hợp lệ'),
+];
+
+export const twoFactorLoginValidator: ValidationChain[] = [
+  body('challenge_token')
+    .notEmpty()
+    .withMessage('Thiếu mã phiên xác thực'),
+
+  ...twoFactorCodeValidator,
+];
+
+export const disableTwoFactorValidator: ValidationChain[] = [
+  body('password').notEmpty().withMessage('Mật khẩu không được để trống'),
+
+  ...twoFactorCodeValidator,
+];
+
+export const googleIdTokenValidator: ValidationChain[] = [
+  body('id_token').notEmpty().withMessage('Thiếu mã xác thực Google'),
+];
+
+export const googleLoginValidator: ValidationChain[] = [
+  ...googleIdTokenValidator,
+
+  body('role')
+    .optional()
+    .isIn(['STUDENT', 'TUTOR', 'PARENT'])
+    .withMessage('Vai trò phải là STUDENT, TUTOR hoặc PARENT'),
+
+  body('device_name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Tên thiết bị không được quá 100 ký tự'),
+];
+
+export const googleLinkValidator: ValidationChain[] = [
+  body('link_token').notEmpty().withMessage('Thiếu mã phiên liên kết'),
+
+  body('password').notEmpty().withMessage('Mật khẩu không được để trống'),
+];
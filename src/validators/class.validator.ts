@@ -267,5 +267,36 @@ export const validateClass = {
       .optional()
       .isInt({ min: 1 })
       .withMessage('Dung lượng file không hợp lệ')
-  ] as ValidationChain[]
-};
\ No newline at end of file
+  ] as ValidationChain[],
+
+  requestReschedule: [
+    body('newDate')
+      .notEmpty()
+      .withMessage('Ngày học mới không được để trống')
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Ngày học mới phải có định dạng YYYY-MM-DD'),
+    body('startTime')
+      .notEmpty()
+      .withMessage('Giờ bắt đầu không được để trống')
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage('Giờ bắt đầu phải có định dạng HH:mm'),
+    body('reason')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Lý do không được vượt quá 500 ký tự'),
+  ] as ValidationChain[],
+
+  respondReschedule: [
+    body('action')
+      .isIn(['ACCEPT', 'REJECT'])
+      .withMessage('Action phải là ACCEPT hoặc REJECT'),
+    body('note')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Ghi chú không được vượt quá 500 ký tự'),
+  ] as ValidationChain[],
+};
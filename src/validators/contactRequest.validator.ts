@@ -1,4 +1,4 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, ValidationChain } from 'express-validator';
 
 export const validateContactRequest = {
   createRequest: [
@@ -183,4 +183,80 @@ export const validateContactRequest = {
       .isIn(['ZOOM', 'GOOGLE_MEET', 'MICROSOFT_TEAMS', 'OTHER'])
       .withMessage('Nền tảng học online không hợp lệ'),
   ] as ValidationChain[],
-};
\ No newline at end of file
+
+  submitOffer: [
+    body('pricePerSession')
+      .optional()
+      .isInt({ min: 50000, max: 10000000 })
+      .withMessage('Giá đề xuất phải từ 50,000 đến 10,000,000 VNĐ'),
+
+    body('totalSessions')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Số buổi học phải từ 1 đến 100'),
+
+    body('sessionDuration')
+      .optional()
+      .isIn([60, 90, 120, 150, 180])
+      .withMessage('Thời lượng đề xuất không hợp lệ'),
+
+    body('learningMode')
+      .optional()
+      .isIn(['ONLINE', 'OFFLINE'])
+      .withMessage('Hình thức học không hợp lệ'),
+
+    body('schedule.dayOfWeek')
+      .if(body('schedule').exists())
+      .isArray({ min: 1, max: 7 })
+      .withMessage('Phải chọn ít nhất 1 ngày trong tuần'),
+
+    body('schedule.dayOfWeek.*')
+      .isInt({ min: 0, max: 6 })
+      .withMessage('Ngày trong tuần không hợp lệ (0-6)'),
+
+    body('schedule.startTime')
+      .if(body('schedule').exists())
+      .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Giờ bắt đầu không hợp lệ (HH:mm)'),
+
+    body('schedule.endTime')
+      .if(body('schedule').exists())
+      .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Giờ kết thúc không hợp lệ (HH:mm)')
+      .custom((endTime, { req }) => {
+        if (endTime <= req.body.schedule.startTime) {
+          throw new Error('Giờ kết thúc phải sau giờ bắt đầu');
+        }
+        return true;
+      }),
+
+    body('message')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Tin nhắn không được vượt quá 1000 ký tự'),
+
+    body()
+      .custom((value) =>
+        ['pricePerSession', 'totalSessions', 'sessionDuration', 'learningMode', 'schedule']
+          .some((field) => value?.[field] !== undefined)
+      )
+      .withMessage('Đề nghị phải thay đổi ít nhất một điều khoản'),
+  ] as ValidationChain[],
+
+  respondToOffer: [
+    param('offerNumber')
+      .isInt({ min: 1 })
+      .withMessage('Số thứ tự đề nghị không hợp lệ'),
+
+    body('action')
+      .isIn(['ACCEPT', 'DECLINE'])
+      .withMessage('Hành động phải là ACCEPT hoặc DECLINE'),
+
+    body('message')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Tin nhắn không được vượt quá 1000 ký tự'),
+  ] as ValidationChain[],
+};
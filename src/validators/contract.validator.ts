@@ -1,4 +1,4 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, query, ValidationChain } from 'express-validator';
 
 export const validateContract = {
   createContract: [
@@ -13,7 +13,9 @@ export const validateContract = {
 
     body('description').optional().trim(),
 
+    // Defaults to the accepted offer of the contact request
     body('totalSessions')
+      .optional()
       .toInt()
       .isInt({ min: 1, max: 100 })
       .withMessage('Số buổi học phải từ 1 đến 100'),
@@ -50,7 +52,9 @@ export const validateContract = {
         return true;
       }),
 
+    // Defaults to the schedule of the accepted offer
     body('schedule.dayOfWeek')
+      .if(body('schedule').exists())
       .isArray({ min: 1, max: 7 })
       .withMessage('Phải chọn ít nhất 1 ngày trong tuần'),
 
@@ -59,10 +63,12 @@ export const validateContract = {
       .withMessage('Ngày trong tuần không hợp lệ (0-6)'),
 
     body('schedule.startTime')
+      .if(body('schedule').exists())
       .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
       .withMessage('Giờ bắt đầu không hợp lệ (HH:mm)'),
 
     body('schedule.endTime')
+      .if(body('schedule').exists())
       .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
       .withMessage('Giờ kết thúc không hợp lệ (HH:mm)')
       .custom((endTime, { req }) => {
@@ -216,4 +222,93 @@ export const validateContract = {
       .isLength({ max: 500 })
       .withMessage('Tin nhắn không được vượt quá 500 ký tự'),
   ] as ValidationChain[],
+
+  proposeAmendment: [
+    body('reason')
+      .trim()
+      .isLength({ min: 10, max: 1000 })
+      .withMessage('Lý do sửa đổi phải có từ 10 đến 1000 ký tự'),
+
+    body('totalSessions')
+      .optional()
+      .toInt()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Số buổi học phải từ 1 đến 100'),
+
+    body('pricePerSession')
+      .optional()
+      .toInt()
+      .isInt({ min: 50000, max: 10000000 })
+      .withMessage('Giá mỗi buổi phải từ 50,000 đến 10,000,000 VNĐ'),
+
+    body('sessionDuration')
+      .optional()
+      .toInt()
+      .isIn([60, 90, 120, 150, 180])
+      .withMessage('Thời lượng buổi học không hợp lệ'),
+
+    body('learningMode')
+      .optional()
+      .isIn(['ONLINE', 'OFFLINE'])
+      .withMessage('Hình thức học không hợp lệ'),
+
+    // A new schedule must be given in full
+    body('schedule.dayOfWeek')
+      .if(body('schedule').exists())
+      .isArray({ min: 1, max: 7 })
+      .withMessage('Phải chọn ít nhất 1 ngày trong tuần'),
+
+    body('schedule.dayOfWeek.*')
+      .isInt({ min: 0, max: 6 })
+      .withMessage('Ngày trong tuần không hợp lệ (0-6)'),
+
+    body('schedule.startTime')
+      .if(body('schedule').exists())
+      .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Giờ bắt đầu không hợp lệ (HH:mm)'),
+
+    body('schedule.endTime')
+      .if(body('schedule').exists())
+      .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Giờ kết thúc không hợp lệ (HH:mm)')
+      .custom((endTime, { req }) => {
+        const startTime = req.body.schedule?.startTime;
+        if (startTime && endTime <= startTime) {
+          throw new Error('Giờ kết thúc phải sau giờ bắt đầu');
+        }
+        return true;
+      }),
+
+    body('location.address')
+      .if(body('location').exists())
+      .trim()
+      .isLength({ min: 5, max: 500 })
+      .withMessage('Địa chỉ phải có từ 5 đến 500 ký tự'),
+
+    body('onlineInfo.platform')
+      .optional()
+      .isIn(['ZOOM', 'GOOGLE_MEET', 'MICROSOFT_TEAMS', 'OTHER'])
+      .withMessage('Nền tảng học online không hợp lệ'),
+
+    body('onlineInfo.meetingLink')
+      .optional({ values: 'falsy' })
+      .isURL()
+      .withMessage('Link phòng học không hợp lệ'),
+  ] as ValidationChain[],
+
+  verifyContractPublic: [
+    query('hash')
+      .optional()
+      .trim()
+      .matches(/^[a-fA-F0-9]{64}$/)
+      .withMessage('Mã băm SHA-256 không hợp lệ'),
+
+    query('code')
+      .if(query('hash').not().exists())
+      .trim()
+      .notEmpty()
+      .withMessage('Vui lòng nhập mã hợp đồng hoặc mã băm')
+      .isLength({ max: 50 })
+      .withMessage('Mã hợp đồng không hợp lệ'),
+  ] as ValidationChain[],
 };
@@ -0,0 +1,47 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+
+export const validateParent = {
+  inviteStudent: [
+    body('studentEmail')
+      .trim()
+      .normalizeEmail()
+      .isEmail()
+      .withMessage('Email học viên không hợp lệ'),
+
+    body('relationship')
+      .optional()
+      .isIn(['FATHER', 'MOTHER', 'GUARDIAN', 'OTHER'])
+      .withMessage('Quan hệ không hợp lệ'),
+
+    body('message')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Lời nhắn không được vượt quá 500 ký tự'),
+  ] as ValidationChain[],
+
+  respondToInvitation: [
+    param('linkId').isUUID().withMessage('Lời mời không hợp lệ'),
+
+    body('accept').isBoolean().withMessage('Phản hồi không hợp lệ').toBoolean(),
+  ] as ValidationChain[],
+
+  linkId: [
+    param('linkId').isUUID().withMessage('Liên kết không hợp lệ'),
+  ] as ValidationChain[],
+
+  studentId: [
+    param('studentId').isUUID().withMessage('ID học viên không hợp lệ'),
+  ] as ValidationChain[],
+
+  classId: [
+    param('classId').notEmpty().withMessage('ID lớp học là bắt buộc'),
+  ] as ValidationChain[],
+
+  paymentSchedules: [
+    query('status').optional().isString(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 50 }),
+  ] as ValidationChain[],
+};
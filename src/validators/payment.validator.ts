@@ -77,4 +77,40 @@ export const validatePayment = {
       .isString()
       .withMessage('ID lớp học không hợp lệ'),
   ] as ValidationChain[],
+
+  /**
+   * Validate tutor earnings query
+   */
+  getTutorEarnings: [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Số trang phải lớn hơn 0')
+      .toInt(),
+
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Số lượng phải từ 1 đến 100')
+      .toInt(),
+
+    query('status')
+      .optional()
+      .isIn(['HELD', 'AVAILABLE', 'IN_PAYOUT', 'PAID_OUT', 'REVERSED'])
+      .withMessage('Trạng thái không hợp lệ'),
+
+    query('month')
+      .optional()
+      .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+      .withMessage('Tháng phải có định dạng YYYY-MM'),
+  ] as ValidationChain[],
+
+  /**
+   * Validate settlement statement month
+   */
+  getSettlementStatement: [
+    param('month')
+      .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+      .withMessage('Tháng phải có định dạng YYYY-MM'),
+  ] as ValidationChain[],
 };